@@ -1,6 +1,7 @@
 import { ClipboardExporter } from './clipboardExporter';
 import { ParsedContent, PluginSettings } from '../types';
 import { DEFAULT_SETTINGS } from '../settings';
+import { ExportExtensions } from '../utils/exportExtensions';
 
 describe('ClipboardExporter', () => {
   let settings: PluginSettings;
@@ -122,12 +123,52 @@ describe('ClipboardExporter', () => {
       };
       const html = ClipboardExporter.contentToHtml(content, settings);
 
-      expect(html).toContain('<ul>');
+      expect(html).toContain('<ul style="list-style-type: disc;">');
       expect(html).toContain('<li>A</li>');
       expect(html).toContain('<li>B</li>');
       expect(html).toContain('</ul>');
     });
 
+    it('should add anchors to headings and blocks for fragment links', () => {
+      const content: ParsedContent = {
+        blocks: [
+          { type: 'heading', level: 2, content: [{ type: 'text', content: 'Intro' }], id: 'intro' },
+          { type: 'paragraph', content: [{ type: 'text', content: 'Key point' }], id: '^abc' },
+          { type: 'paragraph', content: [{ type: 'link', text: [{ type: 'text', content: 'back' }], url: '#intro' }] }
+        ]
+      };
+      const html = ClipboardExporter.contentToHtml(content, settings);
+
+      expect(html).toContain('<h2 id="intro">Intro</h2>');
+      expect(html).toContain('<p id="^abc">Key point</p>');
+      expect(html).toContain('<a href="#intro">back</a>');
+    });
+
+    it('should render the table of contents as a list of links', () => {
+      const content: ParsedContent = {
+        blocks: [
+          {
+            type: 'toc',
+            maxDepth: 3,
+            entries: [
+              { level: 1, text: 'Design', id: 'design' },
+              { level: 3, text: 'Detail', id: 'detail' },
+              { level: 2, text: 'Goals & <Scope>', id: 'goals--scope' },
+              { level: 1, text: 'Appendix', id: 'appendix' }
+            ]
+          }
+        ]
+      };
+      const html = ClipboardExporter.contentToHtml(content, settings);
+
+      expect(html).toContain(
+        '<p><strong>Contents</strong></p>'
+        + '<ul><li><a href="#design">Design</a><ul><li><a href="#detail">Detail</a></li></ul>'
+        + '<ul><li><a href="#goals--scope">Goals &amp; &lt;Scope&gt;</a></li></ul></li>'
+        + '<li><a href="#appendix">Appendix</a></li></ul>'
+      );
+    });
+
     it('should convert ordered lists', () => {
       const content: ParsedContent = {
         blocks: [
@@ -143,12 +184,92 @@ describe('ClipboardExporter', () => {
       };
       const html = ClipboardExporter.contentToHtml(content, settings);
 
-      expect(html).toContain('<ol>');
+      expect(html).toContain('<ol style="list-style-type: decimal;">');
       expect(html).toContain('<li>1st</li>');
       expect(html).toContain('<li>2nd</li>');
       expect(html).toContain('</ol>');
     });
 
+    it('should style list levels from the list settings', () => {
+      settings.listNumberFormats = ['upper-roman', 'legal'];
+      settings.listBulletGlyphs = ['➤'];
+      const content: ParsedContent = {
+        blocks: [
+          {
+            type: 'list',
+            ordered: true,
+            start: 2,
+            items: [
+              {
+                content: [{ type: 'text', content: 'Parent' }],
+                children: { type: 'list', ordered: true, items: [{ content: [{ type: 'text', content: 'Child' }] }] }
+              }
+            ]
+          },
+          { type: 'list', ordered: false, items: [{ content: [{ type: 'text', content: 'Bullet' }] }] }
+        ]
+      };
+      const html = ClipboardExporter.contentToHtml(content, settings);
+
+      expect(html).toContain('<ol start="2" style="list-style-type: upper-roman;">');
+      expect(html).toContain('<li style="list-style-type: &#039;2.1. &#039;;">Child</li>');
+      expect(html).toContain('<ul style="list-style-type: &#039;➤ &#039;;">');
+    });
+
+    it('should keep the start number of ordered lists', () => {
+      const content: ParsedContent = {
+        blocks: [
+          { type: 'list', ordered: true, start: 5, items: [{ content: [{ type: 'text', content: 'Five' }] }] },
+          { type: 'list', ordered: true, start: 1, items: [{ content: [{ type: 'text', content: 'One' }] }] }
+        ]
+      };
+      const html = ClipboardExporter.contentToHtml(content, settings);
+
+      expect(html).toContain('<ol start="5" style="list-style-type: decimal;">');
+      expect(html).toContain('<ol style="list-style-type: decimal;">');
+    });
+
+    it('should convert task list items to checklist entries', () => {
+      const content: ParsedContent = {
+        blocks: [
+          {
+            type: 'list',
+            ordered: false,
+            items: [
+              { content: [{ type: 'text', content: 'Open' }], checked: false },
+              { content: [{ type: 'text', content: 'Done' }], checked: true }
+            ]
+          }
+        ]
+      };
+      const html = ClipboardExporter.contentToHtml(content, settings);
+
+      expect(html).toContain('<li role="checkbox" aria-checked="false" style="list-style-type: none;">☐ Open</li>');
+      expect(html).toContain('<li role="checkbox" aria-checked="true" style="list-style-type: none;">☑ Done</li>');
+    });
+
+    it('should render further blocks of a list item inside the item', () => {
+      const content: ParsedContent = {
+        blocks: [
+          {
+            type: 'list',
+            ordered: true,
+            items: [
+              {
+                content: [{ type: 'text', content: 'Step' }],
+                blocks: [{ type: 'code', language: null, content: 'npm install' }]
+              },
+              { content: [{ type: 'text', content: 'Next' }] }
+            ]
+          }
+        ]
+      };
+      const html = ClipboardExporter.contentToHtml(content, settings);
+
+      expect(html).toMatch(/<li>Step\n?<pre[^>]*><code>npm install<\/code><\/pre>\n?<\/li>/);
+      expect((html.match(/<ol[ >]/g) || []).length).toBe(1);
+    });
+
     it('should convert tables with inline styling', () => {
       const content: ParsedContent = {
         blocks: [
@@ -175,6 +296,60 @@ describe('ClipboardExporter', () => {
       expect(html).toContain('<td style="padding:');
     });
 
+    it('should apply table column alignment and widths', () => {
+      const content: ParsedContent = {
+        blocks: [
+          {
+            type: 'table',
+            headers: [
+              [{ type: 'text', content: 'Item' }],
+              [{ type: 'text', content: 'Qty' }]
+            ],
+            rows: [
+              [
+                [{ type: 'text', content: 'Apples' }],
+                [{ type: 'text', content: '3' }]
+              ]
+            ],
+            align: [null, 'right'],
+            columnWidths: [70, 30]
+          }
+        ]
+      };
+      const html = ClipboardExporter.contentToHtml(content, settings);
+
+      expect(html).toContain('<colgroup><col style="width: 70%;"><col style="width: 30%;"></colgroup>');
+      expect(html).toContain('<th style="background-color: #d3d3d3; padding: 8px; text-align: right;">Qty</th>');
+      expect(html).toContain('<td style="padding: 8px; text-align: right;">3</td>');
+    });
+
+    it('should convert callouts', () => {
+      const content: ParsedContent = {
+        blocks: [
+          {
+            type: 'callout',
+            calloutType: 'caution',
+            title: [{ type: 'text', content: 'Careful' }],
+            content: [{ type: 'paragraph', content: [{ type: 'text', content: 'Body' }] }]
+          },
+          {
+            type: 'callout',
+            calloutType: 'note',
+            title: [{ type: 'text', content: 'Folded' }],
+            collapsed: true,
+            content: []
+          }
+        ]
+      };
+      const html = ClipboardExporter.contentToHtml(content, settings);
+
+      expect(html).toContain('border-left: 4px solid #ff9100;');
+      expect(html).toContain('<strong style="color: #ff9100;">⚠️ Careful</strong>');
+      expect(html).toContain('<p>Body</p>');
+      expect(html).toContain('📝 Folded');
+      expect(html).not.toContain('<details');
+    });
+
     it('should convert blockquotes with inline styling', () => {
       const content: ParsedContent = {
         blocks: [
@@ -237,9 +412,187 @@ describe('ClipboardExporter', () => {
       expect(html).not.toContain('<img');
       expect(html).not.toContain('Alt');
     });
+
+    it('should size images within text to the line', () => {
+      settings.imageHandling = 'embed';
+      const content: ParsedContent = {
+        blocks: [{
+          type: 'table',
+          headers: [[{ type: 'text', content: 'Status' }]],
+          rows: [[[{ type: 'image', alt: 'ok', url: 'https://img.com/ok.png' }]]]
+        }]
+      };
+      const html = ClipboardExporter.contentToHtml(content, settings);
+
+      expect(html).toContain('<img src="https://img.com/ok.png" alt="ok" style="height: 1.2em; vertical-align: middle;">');
+    });
+  });
+
+  describe('metadata', () => {
+    it('should use frontmatter metadata for title and meta tags', () => {
+      const content: ParsedContent = {
+        blocks: [],
+        metadata: {
+          title: 'Design <Doc>',
+          author: 'Jane',
+          description: 'Summary',
+          tags: ['a', 'b'],
+          date: '2024-01-15',
+          properties: {}
+        }
+      };
+      const html = ClipboardExporter.contentToHtml(content, settings);
+
+      expect(html).toContain('<title>Design &lt;Doc&gt;</title>');
+      expect(html).toContain('<meta name="author" content="Jane">');
+      expect(html).toContain('<meta name="description" content="Summary">');
+      expect(html).toContain('<meta name="keywords" content="a, b">');
+      expect(html).toContain('<meta name="date" content="2024-01-15">');
+    });
+
+    it('should render a visible header with the title, author and date at the top of the body', () => {
+      const content: ParsedContent = {
+        blocks: [{ type: 'paragraph', content: [{ type: 'text', content: 'Body' }] }],
+        metadata: { title: 'Design <Doc>', author: 'Jane', date: '2024-01-15', properties: {} }
+      };
+      const html = ClipboardExporter.contentToHtml(content, settings);
+
+      expect(html).toContain('<body><h1>Design &lt;Doc&gt;</h1><p style="color: #666666;">Jane · 2024-01-15</p><p>Body');
+    });
+
+    it('should leave out the header title when the note starts with it as a heading', () => {
+      const content: ParsedContent = {
+        blocks: [
+          { type: 'heading', level: 1, content: [{ type: 'text', content: 'Design <Doc>' }] },
+          { type: 'heading', level: 2, content: [{ type: 'text', content: 'Design <Doc>' }] }
+        ],
+        metadata: { title: 'Design <Doc>', author: 'Jane', properties: {} }
+      };
+      const html = ClipboardExporter.contentToHtml(content, settings);
+
+      expect(html).toContain('<body><p style="color: #666666;">Jane</p><h1');
+      expect(html.match(/Design &lt;Doc&gt;<\/h/g)).toHaveLength(2);
+    });
+
+    it('should keep the header title when the first heading has other text', () => {
+      const content: ParsedContent = {
+        blocks: [{ type: 'heading', level: 1, content: [{ type: 'text', content: 'Overview' }] }],
+        metadata: { title: 'Design Doc', properties: {} }
+      };
+
+      expect(ClipboardExporter.contentToHtml(content, settings)).toContain('<body><h1>Design Doc</h1><h1');
+    });
+
+    it('should not render a header without title, author or date', () => {
+      const content: ParsedContent = { blocks: [], metadata: { tags: ['a'], properties: { tags: ['a'] } } };
+
+      expect(ClipboardExporter.contentToHtml(content, settings)).toContain('<body></body>');
+    });
+  });
+
+  describe('footnotes', () => {
+    it('should render footnote references and numbered endnotes with back-links', () => {
+      const content: ParsedContent = {
+        blocks: [
+          {
+            type: 'paragraph',
+            content: [
+              { type: 'text', content: 'Claim' },
+              { type: 'footnoteRef', id: 'src', index: 1 }
+            ]
+          }
+        ],
+        footnotes: [
+          {
+            id: 'src',
+            index: 1,
+            content: [{ type: 'paragraph', content: [{ type: 'text', content: 'Source' }] }]
+          }
+        ]
+      };
+      const html = ClipboardExporter.contentToHtml(content, settings);
+
+      expect(html).toMatch(/<sup[^>]*><a href="#fn-1" id="fnref-1">1<\/a><\/sup>/);
+      expect(html).toContain('<li id="fn-1">');
+      expect(html).toMatch(/Source <a href="#fnref-1"[^>]*>↩<\/a><\/p>/);
+    });
+
+    it('should give repeated references distinct ids and link back to the first', () => {
+      const ref = { type: 'footnoteRef' as const, id: 'src', index: 1 };
+      const content: ParsedContent = {
+        blocks: [{ type: 'paragraph', content: [ref, { type: 'text', content: ' and ' }, ref] }],
+        footnotes: [{ id: 'src', index: 1, content: [{ type: 'paragraph', content: [{ type: 'text', content: 'Source' }] }] }]
+      };
+      const html = ClipboardExporter.contentToHtml(content, settings);
+
+      expect(html.match(/id="fnref-1"/g)).toHaveLength(1);
+      expect(html).toContain('id="fnref-1-2"');
+      expect(html).toMatch(/Source <a href="#fnref-1"[^>]*>↩<\/a><\/p>/);
+    });
+
+    it('should not render an endnotes section without footnotes', () => {
+      const content: ParsedContent = { blocks: [] };
+      const html = ClipboardExporter.contentToHtml(content, settings);
+
+      expect(html).not.toContain('fn-');
+    });
+  });
+
+  describe('math', () => {
+    it('should render inline and block math as MathML', () => {
+      const content: ParsedContent = {
+        blocks: [
+          { type: 'paragraph', content: [{ type: 'math', latex: 'x^2' }] },
+          { type: 'math', latex: '\\frac{a}{b}' }
+        ]
+      };
+      const html = ClipboardExporter.contentToHtml(content, settings);
+
+      expect(html).toContain('<math xmlns="http://www.w3.org/1998/Math/MathML"><semantics><mrow><msup><mi>x</mi><mn>2</mn></msup></mrow>');
+      expect(html).toContain('<math xmlns="http://www.w3.org/1998/Math/MathML" display="block">');
+      expect(html).toContain('<mfrac><mi>a</mi><mi>b</mi></mfrac>');
+    });
+
+    it('should fall back to the LaTeX source for unsupported commands', () => {
+      const content: ParsedContent = {
+        blocks: [
+          { type: 'paragraph', content: [{ type: 'math', latex: '\\unknown{x}' }] },
+          { type: 'math', latex: '\\unknown<y>' }
+        ]
+      };
+      const html = ClipboardExporter.contentToHtml(content, settings);
+
+      expect(html).not.toContain('<math');
+      expect(html).toMatch(/<code[^>]*>\\unknown\{x\}<\/code>/);
+      expect(html).toMatch(/<pre[^>]*><code>\\unknown&lt;y&gt;<\/code><\/pre>/);
+    });
   });
 
   describe('inline content conversion', () => {
+    it('should convert highlight, underline, superscript, subscript, and keyboard input', () => {
+      const content: ParsedContent = {
+        blocks: [
+          {
+            type: 'paragraph',
+            content: [
+              { type: 'highlight', content: [{ type: 'text', content: 'hl' }] },
+              { type: 'underline', content: [{ type: 'text', content: 'ul' }] },
+              { type: 'superscript', content: [{ type: 'text', content: 'up' }] },
+              { type: 'subscript', content: [{ type: 'text', content: 'down' }] },
+              { type: 'keyboard', content: 'Ctrl' }
+            ]
+          }
+        ]
+      };
+      const html = ClipboardExporter.contentToHtml(content, settings);
+
+      expect(html).toMatch(/<mark[^>]*>hl<\/mark>/);
+      expect(html).toContain('<u>ul</u>');
+      expect(html).toContain('<sup>up</sup>');
+      expect(html).toContain('<sub>down</sub>');
+      expect(html).toMatch(/<kbd[^>]*>Ctrl<\/kbd>/);
+    });
+
     it('should convert bold text', () => {
       const content: ParsedContent = {
         blocks: [
@@ -419,6 +772,19 @@ describe('ClipboardExporter', () => {
     });
   });
 
+  describe('custom blocks', () => {
+    it('should use the clipboard renderer, not the HTML one', () => {
+      const extensions = new ExportExtensions();
+      extensions.registerRenderer('html', 'risk', () => ['<div class="risk">html</div>']);
+      extensions.registerRenderer('clipboard', 'risk', () => ['<div style="color: red;">clipboard</div>']);
+
+      const html = ClipboardExporter.contentToHtml({ blocks: [{ type: 'custom', name: 'risk' }] }, settings, extensions);
+
+      expect(html).toContain('<div style="color: red;">clipboard</div>');
+      expect(html).not.toContain('class="risk"');
+    });
+  });
+
   describe('graceful degradation', () => {
     it('should handle unknown block types gracefully', () => {
       const content: ParsedContent = {
@@ -447,5 +813,16 @@ describe('ClipboardExporter', () => {
 
       expect(html).toContain('<p></p>');
     });
+
+    it('should name the source lines of blocks that fail to render', () => {
+      const content: ParsedContent = {
+        blocks: [
+          { type: 'table', headers: null, rows: [], position: { startLine: 7, endLine: 7 } } as any
+        ]
+      };
+      const html = ClipboardExporter.contentToHtml(content, settings);
+
+      expect(html).toContain('[Error rendering table block at line 7]');
+    });
   });
 });
@@ -9,10 +9,41 @@ import {
 	ListBlock,
 	TableBlock,
 	BlockquoteBlock,
+	CalloutBlock,
 	ImageBlock,
-	PluginSettings
+	ImageContent,
+	MathBlock,
+	TableOfContentsBlock,
+	CustomBlock,
+	TocEntry,
+	FootnoteDefinition,
+	DocumentMetadata,
+	PluginSettings,
+	ExportContext,
+	ExportDiagnostic
 } from '../types';
 import { MarkdownParser } from '../utils/markdownParser';
+import { LatexConverter } from '../utils/latexConverter';
+import { CalloutStyles } from '../utils/calloutStyles';
+import { ListStyles } from '../utils/listStyles';
+import { Diagnostics } from '../utils/diagnostics';
+import { ExportExtensions } from '../utils/exportExtensions';
+import { MermaidEncoder } from '../utils/mermaidEncoder';
+
+/**
+ * The document being rendered by one export, created by render and passed
+ * through the render methods.
+ */
+interface RenderState {
+	/** Plugin settings of the export */
+	settings: PluginSettings;
+	/** Registered block renderers for custom blocks */
+	extensions: ExportExtensions | undefined;
+	/** Number of references to each footnote so far */
+	footnoteRefs: Map<number, number>;
+	/** Problems found while parsing and rendering the document */
+	diagnostics: ExportDiagnostic[];
+}
 
 /**
  * ClipboardExporter copies rich text to the system clipboard.
@@ -26,26 +57,31 @@ export class ClipboardExporter {
 	 * 
 	 * @param markdown - The markdown content to export
 	 * @param settings - Plugin settings for formatting preferences
+	 * @param context - Runtime information about the exported note
+	 * @returns Problems found while exporting, with their source lines
 	 */
 	static async export(
 		markdown: string,
-		settings: PluginSettings
-	): Promise<void> {
+		settings: PluginSettings,
+		context: ExportContext = {}
+	): Promise<ExportDiagnostic[]> {
 		try {
 			// Requirement 7.1: Handle empty note gracefully
 			const content = markdown || '';
 			
 			// Parse markdown into structured content
-			const parser = new MarkdownParser(settings);
+			const parser = new MarkdownParser(settings, context);
 			const parsedContent = parser.parse(content);
 
 			// Convert to HTML
-			const html = this.contentToHtml(parsedContent, settings);
+			const { html, diagnostics } = this.render(parsedContent, settings, context.extensions);
 
 			// Copy to clipboard using Clipboard API
 			const blob = new Blob([html], { type: 'text/html' });
 			const clipboardItem = new ClipboardItem({ 'text/html': blob });
 			await navigator.clipboard.write([clipboardItem]);
+
+			return diagnostics;
 			
 		} catch (error) {
 			// Re-throw with more context
@@ -62,19 +98,112 @@ export class ClipboardExporter {
 	 * 
 	 * @param content - The parsed content structure
 	 * @param settings - Plugin settings for formatting
+	 * @param extensions - Registered block renderers for custom blocks
 	 * @returns HTML string representation
 	 */
 	static contentToHtml(
 		content: ParsedContent,
-		settings: PluginSettings
+		settings: PluginSettings,
+		extensions?: ExportExtensions
 	): string {
-		let html = '<!DOCTYPE html><html><head><meta charset="utf-8"></head><body>';
+		return this.render(content, settings, extensions).html;
+	}
+
+	/**
+	 * Renders ParsedContent to HTML, collecting the problems found on the way.
+	 *
+	 * @param content - The parsed content structure
+	 * @param settings - Plugin settings for formatting
+	 * @param extensions - Registered block renderers for custom blocks
+	 * @returns The HTML, and the problems found while parsing and rendering it
+	 */
+	private static render(
+		content: ParsedContent,
+		settings: PluginSettings,
+		extensions: ExportExtensions | undefined
+	): { html: string; diagnostics: ExportDiagnostic[] } {
+		const state: RenderState = {
+			settings,
+			extensions,
+			footnoteRefs: new Map(),
+			diagnostics: content.diagnostics ? [...content.diagnostics] : []
+		};
+
+		let html = '<!DOCTYPE html><html><head><meta charset="utf-8">';
+		html += this.metadataToHtml(content.metadata);
+		html += '</head><body>';
+		html += this.metadataHeaderToHtml(content.metadata, content.blocks[0], state);
 
 		for (const block of content.blocks) {
-			html += this.blockToHtml(block, settings);
+			html += this.blockToHtml(block, state);
+		}
+
+		// Numbered endnotes for footnote definitions
+		if (content.footnotes && content.footnotes.length > 0) {
+			html += this.footnotesToHtml(content.footnotes, state);
 		}
 
 		html += '</body></html>';
+		return { html, diagnostics: state.diagnostics };
+	}
+
+	/**
+	 * Generates the <title> and <meta> tags from frontmatter metadata.
+	 * 
+	 * @param metadata - Document metadata, if the note has frontmatter
+	 * @returns HTML head elements (empty without metadata)
+	 */
+	private static metadataToHtml(metadata: DocumentMetadata | undefined): string {
+		if (!metadata) {
+			return '';
+		}
+
+		let html = metadata.title ? `<title>${this.escapeHtml(metadata.title)}</title>` : '';
+
+		const metaTags: [string, string | undefined][] = [
+			['author', metadata.author],
+			['description', metadata.description],
+			['keywords', metadata.tags?.join(', ')],
+			['date', metadata.date]
+		];
+		for (const [name, value] of metaTags) {
+			if (value) {
+				html += `<meta name="${name}" content="${this.escapeHtml(value)}">`;
+			}
+		}
+
+		return html;
+	}
+
+	/**
+	 * Generates the visible header with the title, author and date. Pasting
+	 * into Google Docs drops the <head>, so the metadata must be in the body.
+	 * The title is left out when the note already starts with it as a heading.
+	 * 
+	 * @param metadata - Document metadata, if the note has frontmatter
+	 * @param firstBlock - The first block of the note, if any
+	 * @param state - The document being rendered, with the plugin settings for formatting
+	 * @returns HTML header (empty without title, author or date)
+	 */
+	private static metadataHeaderToHtml(
+		metadata: DocumentMetadata | undefined,
+		firstBlock: ContentBlock | undefined,
+		state: RenderState
+	): string {
+		if (!metadata) {
+			return '';
+		}
+
+		const title = metadata.title ? this.escapeHtml(metadata.title) : '';
+		const startsWithTitle = firstBlock?.type === 'heading'
+			&& this.inlineToHtml(firstBlock.content, state).replace(/<[^>]*>/g, '').trim() === title;
+		let html = title && !startsWithTitle ? `<h1>${title}</h1>` : '';
+
+		const details = [metadata.author, metadata.date].filter((value): value is string => !!value);
+		if (details.length > 0) {
+			html += `<p style="color: #666666;">${details.map(value => this.escapeHtml(value)).join(' · ')}</p>`;
+		}
+
 		return html;
 	}
 
@@ -84,61 +213,95 @@ export class ClipboardExporter {
 	 * Requirements: 7.1, 7.2, 7.3, 8.2
 	 * 
 	 * @param block - The ContentBlock to convert
-	 * @param settings - Plugin settings for formatting
+	 * @param state - The document being rendered, with the plugin settings for formatting
 	 * @returns HTML string
 	 */
 	private static blockToHtml(
 		block: ContentBlock,
-		settings: PluginSettings
+		state: RenderState
 	): string {
 		try {
 			switch (block.type) {
 				case 'heading':
-					return this.headingToHtml(block, settings);
+					return this.headingToHtml(block, state);
 				
 				case 'paragraph':
-					return this.paragraphToHtml(block, settings);
+					return this.paragraphToHtml(block, state);
 				
 				case 'code':
-					return this.codeBlockToHtml(block, settings);
+					return this.codeBlockToHtml(block, state);
 				
 				case 'mermaid':
-					return this.mermaidToHtml(block, settings);
+					return this.mermaidToHtml(block, state);
 				
 				case 'list':
-					return this.listToHtml(block, settings);
+					return this.listToHtml(block, state);
 				
 				case 'table':
-					return this.tableToHtml(block, settings);
+					return this.tableToHtml(block, state);
 				
 				case 'blockquote':
-					return this.blockquoteToHtml(block, settings);
+					return this.blockquoteToHtml(block, state);
+				
+				case 'callout':
+					return this.calloutToHtml(block, state);
 				
 				case 'hr':
 					return '<hr>';
 				
 				case 'image':
-					return this.imageToHtml(block, settings);
+					return this.imageToHtml(block, state);
+				
+				case 'math':
+					return this.mathBlockToHtml(block, state);
+				
+				case 'toc':
+					return this.tocToHtml(block);
+				
+				case 'custom':
+					return this.customBlockToHtml(block, state);
 				
 				default:
 					// Unknown block type - skip silently
 					return '';
 			}
-		} catch {
-			// Graceful degradation: return paragraph with error message
-			return `<p style="color: #999; font-style: italic;">[Error rendering ${block.type} block]</p>`;
+		} catch (error) {
+			// Graceful degradation: report the block's lines and return paragraph with error message
+			state.diagnostics.push(Diagnostics.renderError(block, error));
+			return `<p style="color: #999; font-style: italic;">${this.escapeHtml(Diagnostics.getPlaceholder(block))}</p>`;
 		}
 	}
 
+	/**
+	 * Converts a CustomBlock to HTML with the renderer registered for its name,
+	 * falling back to its built-in fallback blocks.
+	 */
+	private static customBlockToHtml(
+		block: CustomBlock,
+		state: RenderState
+	): string {
+		const renderBlocks = (blocks: ContentBlock[]) => blocks.map(contentBlock => this.blockToHtml(contentBlock, state));
+		const renderer = state.extensions?.getRenderer('clipboard', block.name);
+		if (renderer) {
+			return renderer(block, { settings: state.settings, renderBlocks }).join('');
+		}
+
+		if (!block.fallback) {
+			state.diagnostics.push(Diagnostics.missingRenderer(block, 'clipboard'));
+			return '';
+		}
+		return renderBlocks(block.fallback).join('');
+	}
+
 	/**
 	 * Converts a HeadingBlock to HTML.
 	 */
 	private static headingToHtml(
 		block: HeadingBlock,
-		settings: PluginSettings
+		state: RenderState
 	): string {
-		const content = this.inlineToHtml(block.content, settings);
-		return `<h${block.level}>${content}</h${block.level}>`;
+		const content = this.inlineToHtml(block.content, state);
+		return `<h${block.level}${this.idToHtml(block.id)}>${content}</h${block.level}>`;
 	}
 
 	/**
@@ -146,10 +309,17 @@ export class ClipboardExporter {
 	 */
 	private static paragraphToHtml(
 		block: ParagraphBlock,
-		settings: PluginSettings
+		state: RenderState
 	): string {
-		const content = this.inlineToHtml(block.content, settings);
-		return `<p>${content}</p>`;
+		const content = this.inlineToHtml(block.content, state);
+		return `<p${this.idToHtml(block.id)}>${content}</p>`;
+	}
+
+	/**
+	 * Returns the id attribute for a heading or block anchor, the target of '#anchor' links.
+	 */
+	private static idToHtml(id?: string): string {
+		return id ? ` id="${this.escapeHtml(id)}"` : '';
 	}
 
 	/**
@@ -157,17 +327,17 @@ export class ClipboardExporter {
 	 */
 	private static codeBlockToHtml(
 		block: CodeBlock,
-		settings: PluginSettings
+		state: RenderState
 	): string {
 		let html = '';
 
 		// Add language label if enabled and language exists
-		if (settings.includeLanguageLabel && block.language) {
+		if (state.settings.includeLanguageLabel && block.language) {
 			html += `<p><strong>${this.escapeHtml(block.language)}</strong></p>`;
 		}
 
 		// Create pre/code block with styling
-		const style = `font-family: ${settings.codeBlockFont}, monospace; background-color: ${settings.codeBlockBackground}; padding: 10px; white-space: pre-wrap; overflow-x: auto;`;
+		const style = `font-family: ${state.settings.codeBlockFont}, monospace; background-color: ${state.settings.codeBlockBackground}; padding: 10px; white-space: pre-wrap; overflow-x: auto;`;
 		html += `<pre style="${style}"><code>${this.escapeHtml(block.content)}</code></pre>`;
 
 		return html;
@@ -178,34 +348,119 @@ export class ClipboardExporter {
 	 */
 	private static mermaidToHtml(
 		block: MermaidBlock,
-		settings: PluginSettings
+		state: RenderState
 	): string {
-		// Build link text: base text + optional diagram type
-		let linkText = settings.mermaidLinkText;
-		if (settings.includeMermaidType && block.diagramType) {
-			linkText = `${linkText} (${block.diagramType})`;
+		const linkText = MermaidEncoder.formatLinkText(block, state.settings);
+		return `<p><a href="${this.escapeHtml(block.url)}">${this.escapeHtml(linkText)}</a></p>`;
+	}
+
+	/**
+	 * Converts a MathBlock to display MathML, or to its LaTeX source in a
+	 * monospace block if it cannot be converted.
+	 */
+	private static mathBlockToHtml(
+		block: MathBlock,
+		state: RenderState
+	): string {
+		try {
+			return `<p style="text-align: center;">${LatexConverter.toMathML(block.latex, true)}</p>`;
+		} catch {
+			const style = `font-family: ${state.settings.codeBlockFont}, monospace; white-space: pre-wrap;`;
+			return `<pre style="${style}"><code>${this.escapeHtml(block.latex)}</code></pre>`;
 		}
+	}
 
-		return `<p><a href="${this.escapeHtml(block.url)}">${this.escapeHtml(linkText)}</a></p>`;
+	/**
+	 * Converts a TableOfContentsBlock to a titled list of links to the headings.
+	 */
+	private static tocToHtml(block: TableOfContentsBlock): string {
+		return '<p><strong>Contents</strong></p>' + this.tocEntriesToHtml(block.entries);
+	}
+
+	/**
+	 * Nests table of contents entries into lists by heading level.
+	 * Skipped levels (H1 followed by H3) nest one list deeper.
+	 */
+	private static tocEntriesToHtml(entries: TocEntry[]): string {
+		let html = '';
+		const levels: number[] = [];
+
+		for (const entry of entries) {
+			// Close the lists of deeper headings
+			while (levels.length > 0 && entry.level < levels[levels.length - 1]) {
+				html += '</li></ul>';
+				levels.pop();
+			}
+
+			if (levels.length === 0 || entry.level > levels[levels.length - 1]) {
+				html += '<ul>';
+				levels.push(entry.level);
+			} else {
+				html += '</li>';
+			}
+
+			html += `<li><a href="#${this.escapeHtml(entry.id)}">${this.escapeHtml(entry.text)}</a>`;
+		}
+
+		for (let i = 0; i < levels.length; i++) {
+			html += '</li></ul>';
+		}
+
+		return html;
 	}
 
 	/**
 	 * Converts a ListBlock to HTML (ul or ol).
+	 * Task items are marked as checklist entries with checkbox glyphs.
+	 * Bullets and numbering follow the list style settings for the nesting level.
+	 * 
+	 * @param block - The ListBlock to convert
+	 * @param state - The document being rendered, with its plugin settings
+	 * @param level - Current nesting level (0-based)
+	 * @param parents - Item numbers of the enclosing levels, for legal numbering
 	 */
 	private static listToHtml(
 		block: ListBlock,
-		settings: PluginSettings
+		state: RenderState,
+		level: number = 0,
+		parents: number[] = []
 	): string {
 		const tag = block.ordered ? 'ol' : 'ul';
-		let html = `<${tag}>`;
+		const start = block.ordered && block.start !== undefined && block.start !== 1
+			? ` start="${block.start}"`
+			: '';
+		const legal = block.ordered && ListStyles.getNumberFormat(state.settings, level) === 'legal';
+		const styleType = this.escapeHtml(ListStyles.getListStyleType(state.settings, block.ordered, level));
+		let html = `<${tag}${start} style="list-style-type: ${styleType};">`;
 
-		for (const item of block.items) {
-			html += '<li>';
-			html += this.inlineToHtml(item.content, settings);
+		for (const [index, item] of block.items.entries()) {
+			const numbers = [...parents, (block.start ?? 1) + index];
+			if (item.checked !== undefined) {
+				// Task item: checkbox role lets Google Docs paste it as a checklist item,
+				// the glyph keeps the state visible in editors that ignore the role
+				html += `<li role="checkbox" aria-checked="${item.checked ? 'true' : 'false'}" style="list-style-type: none;">`;
+				html += item.checked ? '☑ ' : '☐ ';
+			} else if (legal) {
+				// Legal numbering: label each item with the numbers of its enclosing items
+				html += `<li style="list-style-type: ${this.escapeHtml(ListStyles.getLegalStyleType(numbers))};">`;
+			} else {
+				html += '<li>';
+			}
+			html += this.inlineToHtml(item.content, state);
 			
-			// Handle nested lists
+			// Further blocks of the item (paragraphs, code, tables, quotes)
+			if (item.blocks) {
+				for (const itemBlock of item.blocks) {
+					html += this.blockToHtml(itemBlock, state);
+				}
+			}
+
+			// Handle nested lists; sub-lists that start over count from 1 at the enclosing levels
 			if (item.children) {
-				html += this.listToHtml(item.children, settings);
+				const childParents = ListStyles.continuesNumbering(block, item.children)
+					? numbers
+					: new Array<number>(level + 1).fill(1);
+				html += this.listToHtml(item.children, state, level + 1, childParents);
 			}
 			
 			html += '</li>';
@@ -220,28 +475,29 @@ export class ClipboardExporter {
 	 */
 	private static tableToHtml(
 		block: TableBlock,
-		settings: PluginSettings
+		state: RenderState
 	): string {
 		let html = '<table border="1" style="border-collapse: collapse; width: 100%;">';
+		html += this.columnWidthsToHtml(block);
 
 		// Header row
 		html += '<thead><tr>';
-		for (const headerCell of block.headers) {
-			html += '<th style="background-color: #d3d3d3; padding: 8px;">';
-			html += this.inlineToHtml(headerCell, settings);
+		block.headers.forEach((headerCell, column) => {
+			html += `<th style="background-color: #d3d3d3; padding: 8px;${this.tableAlignmentToCss(block, column)}">`;
+			html += this.inlineToHtml(headerCell, state);
 			html += '</th>';
-		}
+		});
 		html += '</tr></thead>';
 
 		// Data rows
 		html += '<tbody>';
 		for (const row of block.rows) {
 			html += '<tr>';
-			for (const cell of row) {
-				html += '<td style="padding: 8px;">';
-				html += this.inlineToHtml(cell, settings);
+			row.forEach((cell, column) => {
+				html += `<td style="padding: 8px;${this.tableAlignmentToCss(block, column)}">`;
+				html += this.inlineToHtml(cell, state);
 				html += '</td>';
-			}
+			});
 			html += '</tr>';
 		}
 		html += '</tbody>';
@@ -250,31 +506,73 @@ export class ClipboardExporter {
 		return html;
 	}
 
+	/**
+	 * Builds a colgroup with the table's column width hints.
+	 */
+	private static columnWidthsToHtml(block: TableBlock): string {
+		if (!block.columnWidths) {
+			return '';
+		}
+		const cols = block.columnWidths.map(width => `<col style="width: ${width}%;">`).join('');
+		return `<colgroup>${cols}</colgroup>`;
+	}
+
+	/**
+	 * Returns the CSS declaration aligning a table column, or '' if unaligned.
+	 */
+	private static tableAlignmentToCss(block: TableBlock, column: number): string {
+		const align = block.align?.[column];
+		return align ? ` text-align: ${align};` : '';
+	}
+
 	/**
 	 * Converts a BlockquoteBlock to HTML blockquote.
 	 */
 	private static blockquoteToHtml(
 		block: BlockquoteBlock,
-		settings: PluginSettings
+		state: RenderState
 	): string {
 		let html = '<blockquote style="border-left: 3px solid #999; padding-left: 15px; margin-left: 0;">';
 
 		for (const contentBlock of block.content) {
-			html += this.blockToHtml(contentBlock, settings);
+			html += this.blockToHtml(contentBlock, state);
 		}
 
 		html += '</blockquote>';
 		return html;
 	}
 
+	/**
+	 * Converts a CalloutBlock to a shaded single-cell table with a colored
+	 * border, which Google Docs keeps on paste. Collapsed callouts are expanded.
+	 */
+	private static calloutToHtml(
+		block: CalloutBlock,
+		state: RenderState
+	): string {
+		const style = CalloutStyles.get(block.calloutType);
+		const cellStyle = `background-color: ${style.background}; border: 1px solid ${style.color}; border-left: 4px solid ${style.color}; padding: 8px 12px;`;
+
+		let html = '<table style="border-collapse: collapse; width: 100%;"><tr>';
+		html += `<td style="${cellStyle}">`;
+		html += `<p><strong style="color: ${style.color};">${style.icon} ${this.inlineToHtml(block.title, state)}</strong></p>`;
+
+		for (const contentBlock of block.content) {
+			html += this.blockToHtml(contentBlock, state);
+		}
+
+		html += '</td></tr></table>';
+		return html;
+	}
+
 	/**
 	 * Converts an ImageBlock to HTML based on imageHandling setting.
 	 */
 	private static imageToHtml(
 		block: ImageBlock,
-		settings: PluginSettings
+		state: RenderState
 	): string {
-		switch (settings.imageHandling) {
+		switch (state.settings.imageHandling) {
 			case 'embed':
 				return `<img src="${this.escapeHtml(block.url)}" alt="${this.escapeHtml(block.alt)}">`;
 			
@@ -289,17 +587,67 @@ export class ClipboardExporter {
 		}
 	}
 
+	/**
+	 * Converts an image within text, sized to the height of the line.
+	 */
+	private static inlineImageToHtml(
+		item: ImageContent,
+		state: RenderState
+	): string {
+		switch (state.settings.imageHandling) {
+			case 'embed':
+				return `<img src="${this.escapeHtml(item.url)}" alt="${this.escapeHtml(item.alt)}" style="height: 1.2em; vertical-align: middle;">`;
+			
+			case 'link':
+				return `<a href="${this.escapeHtml(item.url)}">${this.escapeHtml(item.alt || 'Image')}</a>`;
+			
+			default:
+				return '';
+		}
+	}
+
+	/**
+	 * Converts footnote definitions to a numbered endnotes section.
+	 * Each endnote links back to its reference in the text.
+	 */
+	private static footnotesToHtml(
+		footnotes: FootnoteDefinition[],
+		state: RenderState
+	): string {
+		let html = '<hr><ol style="font-size: 0.9em;">';
+
+		for (const footnote of footnotes) {
+			let body = '';
+			for (const contentBlock of footnote.content) {
+				body += this.blockToHtml(contentBlock, state);
+			}
+
+			// Place the back-link inside the last paragraph when possible
+			const backLink = `<a href="#fnref-${footnote.index}">↩</a>`;
+			if (body.endsWith('</p>')) {
+				body = body.slice(0, -'</p>'.length) + ` ${backLink}</p>`;
+			} else {
+				body += backLink;
+			}
+
+			html += `<li id="fn-${footnote.index}">${body}</li>`;
+		}
+
+		html += '</ol>';
+		return html;
+	}
+
 	/**
 	 * Converts InlineContent array to HTML string.
 	 */
 	private static inlineToHtml(
 		content: InlineContent[],
-		settings: PluginSettings
+		state: RenderState
 	): string {
 		let html = '';
 
 		for (const item of content) {
-			html += this.inlineContentToHtml(item, settings);
+			html += this.inlineContentToHtml(item, state);
 		}
 
 		return html;
@@ -310,28 +658,63 @@ export class ClipboardExporter {
 	 */
 	private static inlineContentToHtml(
 		item: InlineContent,
-		settings: PluginSettings
+		state: RenderState
 	): string {
 		switch (item.type) {
 			case 'text':
 				return this.escapeHtml(item.content);
 			
 			case 'bold':
-				return `<strong>${this.inlineToHtml(item.content, settings)}</strong>`;
+				return `<strong>${this.inlineToHtml(item.content, state)}</strong>`;
 			
 			case 'italic':
-				return `<em>${this.inlineToHtml(item.content, settings)}</em>`;
+				return `<em>${this.inlineToHtml(item.content, state)}</em>`;
 			
 			case 'strikethrough':
-				return `<del>${this.inlineToHtml(item.content, settings)}</del>`;
+				return `<del>${this.inlineToHtml(item.content, state)}</del>`;
+			
+			case 'highlight':
+				// Inline style so Google Docs keeps the highlight on paste
+				return `<mark style="background-color: #ffff00;">${this.inlineToHtml(item.content, state)}</mark>`;
+			
+			case 'underline':
+				return `<u>${this.inlineToHtml(item.content, state)}</u>`;
+			
+			case 'superscript':
+				return `<sup>${this.inlineToHtml(item.content, state)}</sup>`;
+			
+			case 'subscript':
+				return `<sub>${this.inlineToHtml(item.content, state)}</sub>`;
 			
 			case 'code':
-				return `<code style="font-family: ${settings.codeBlockFont}, monospace;">${this.escapeHtml(item.content)}</code>`;
+				return `<code style="font-family: ${state.settings.codeBlockFont}, monospace;">${this.escapeHtml(item.content)}</code>`;
+			
+			case 'keyboard':
+				return `<kbd style="font-family: ${state.settings.codeBlockFont}, monospace; background-color: ${state.settings.codeBlockBackground};">${this.escapeHtml(item.content)}</kbd>`;
 			
 			case 'link':
-				const linkText = this.inlineToHtml(item.text, settings);
+				const linkText = this.inlineToHtml(item.text, state);
 				return `<a href="${this.escapeHtml(item.url)}">${linkText}</a>`;
 			
+			case 'footnoteRef': {
+				// Repeated references get their own ids; the back-link returns to the first
+				const count = (state.footnoteRefs.get(item.index) || 0) + 1;
+				state.footnoteRefs.set(item.index, count);
+				const id = count === 1 ? `fnref-${item.index}` : `fnref-${item.index}-${count}`;
+				return `<sup><a href="#fn-${item.index}" id="${id}">${item.index}</a></sup>`;
+			}
+			
+			case 'math':
+				try {
+					return LatexConverter.toMathML(item.latex, false);
+				} catch {
+					// Unsupported LaTeX: keep the source readable
+					return `<code style="font-family: ${state.settings.codeBlockFont}, monospace;">${this.escapeHtml(item.latex)}</code>`;
+				}
+			
+			case 'image':
+				return this.inlineImageToHtml(item, state);
+			
 			default:
 				return '';
 		}
@@ -0,0 +1,235 @@
+import JSZip from 'jszip';
+import { saveAs } from 'file-saver';
+import { DocxExporter } from './docxExporter';
+import { ExportContext, PluginSettings } from '../types';
+import { DEFAULT_SETTINGS } from '../settings';
+
+// Mock file-saver
+jest.mock('file-saver', () => ({
+  saveAs: jest.fn(),
+}));
+
+/**
+ * Exports markdown to DOCX and returns the XML parts of the saved file.
+ */
+async function exportParts(
+  markdown: string,
+  settings: PluginSettings,
+  context: ExportContext = {}
+): Promise<{ document: string; numbering: string; footnotes: string; settings: string }> {
+  await DocxExporter.export(markdown, 'Test', settings, context);
+  const blob = (saveAs as unknown as jest.Mock).mock.calls[0][0] as Blob;
+  const zip = await JSZip.loadAsync(await blob.arrayBuffer());
+  return {
+    document: await zip.file('word/document.xml')!.async('string'),
+    numbering: await zip.file('word/numbering.xml')!.async('string'),
+    footnotes: await zip.file('word/footnotes.xml')!.async('string'),
+    settings: await zip.file('word/settings.xml')!.async('string')
+  };
+}
+
+/**
+ * Builds a PNG header with the given pixel size (enough for the image loader).
+ */
+function createPng(width: number, height: number): Uint8Array {
+  const data = new Uint8Array(24);
+  const view = new DataView(data.buffer);
+  data.set([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+  view.setUint32(16, width);
+  view.setUint32(20, height);
+  return data;
+}
+
+/**
+ * Lists the numbering of each list paragraph as [level, numId].
+ */
+function getListNumbering(document: string): [number, string][] {
+  const numbering: [number, string][] = [];
+  const regex = /<w:numPr><w:ilvl w:val="(\d+)"\/><w:numId w:val="(\d+)"\/><\/w:numPr>/g;
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(document)) !== null) {
+    numbering.push([Number(match[1]), match[2]]);
+  }
+  return numbering;
+}
+
+/**
+ * Returns the abstract numbering (definition) used by a numbering instance.
+ */
+function getAbstractNumId(numbering: string, numId: string): string {
+  return numbering.match(new RegExp(`<w:num w:numId="${numId}"><w:abstractNumId w:val="(\\d+)"/>`))![1];
+}
+
+/**
+ * Returns the start number of a level of an abstract numbering.
+ */
+function getLevelStart(numbering: string, abstractNumId: string, level: number): number {
+  const definition = numbering.match(new RegExp(`<w:abstractNum w:abstractNumId="${abstractNumId}"[\\s\\S]*?</w:abstractNum>`))![0];
+  return Number(definition.match(new RegExp(`<w:lvl w:ilvl="${level}"[^>]*><w:start w:val="(\\d+)"/>`))![1]);
+}
+
+/**
+ * Lists the values of an attribute across all elements with the given tag.
+ */
+function getAttributeValues(xml: string, tag: string, attribute: string): string[] {
+  const values: string[] = [];
+  const regex = new RegExp(`<${tag} [^>]*${attribute}="([^"]*)"`, 'g');
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(xml)) !== null) {
+    values.push(match[1]);
+  }
+  return values;
+}
+
+describe('DocxExporter', () => {
+  let settings: PluginSettings;
+
+  beforeEach(() => {
+    settings = { ...DEFAULT_SETTINGS };
+    jest.clearAllMocks();
+  });
+
+  describe('list numbering', () => {
+    it('should restart ordered sub-lists under consecutive bullet items', async () => {
+      const { document, numbering } = await exportParts('- a\n  1. x\n  2. y\n- b\n  1. z', settings);
+      const items = getListNumbering(document);
+      const [first, second] = [items[1][1], items[4][1]];
+
+      expect(items.map(([level]) => level)).toEqual([0, 1, 1, 0, 1]);
+      expect(items[2][1]).toBe(first);
+      expect(getAbstractNumId(numbering, first)).not.toBe(getAbstractNumId(numbering, second));
+      expect(getLevelStart(numbering, getAbstractNumId(numbering, first), 1)).toBe(1);
+      expect(getLevelStart(numbering, getAbstractNumId(numbering, second), 1)).toBe(1);
+    });
+
+    it('should start nested ordered lists at their own number', async () => {
+      const { document, numbering } = await exportParts('- a\n  3. x\n  4. y', settings);
+      const [, [level, numId]] = getListNumbering(document);
+
+      expect(level).toBe(1);
+      expect(getLevelStart(numbering, getAbstractNumId(numbering, numId), 1)).toBe(3);
+    });
+
+    it('should restart separate top-level lists through their own instance', async () => {
+      const { document, numbering } = await exportParts('1. a\n2. b\n\nText\n\n5. c', settings);
+      const [[, first], , [, second]] = getListNumbering(document);
+
+      expect(first).not.toBe(second);
+      expect(numbering).toContain(`<w:num w:numId="${first}"><w:abstractNumId w:val="${getAbstractNumId(numbering, first)}"/><w:lvlOverride w:ilvl="0"><w:startOverride w:val="1"/>`);
+      expect(numbering).toContain(`<w:num w:numId="${second}"><w:abstractNumId w:val="${getAbstractNumId(numbering, second)}"/><w:lvlOverride w:ilvl="0"><w:startOverride w:val="5"/>`);
+    });
+
+    it('should keep ordered sub-lists of ordered items in the parent numbering', async () => {
+      const { document } = await exportParts('1. a\n   1. x\n2. b\n   1. y', settings);
+      const numIds = getListNumbering(document).map(([, numId]) => numId);
+
+      expect(new Set(numIds).size).toBe(1);
+    });
+  });
+
+  describe('task lists', () => {
+    it('should export task items as checked and unchecked Word checkboxes', async () => {
+      const { document } = await exportParts('- [x] Done\n- [ ] Open\n- Plain', settings);
+      const checkboxes = document.match(/<w14:checkbox>[\s\S]*?<\/w14:checkbox>/g)!;
+
+      expect(checkboxes).toHaveLength(2);
+      expect(checkboxes[0]).toContain('<w14:checked w14:val="1"/>');
+      expect(checkboxes[1]).toContain('<w14:checked w14:val="0"/>');
+      expect(document.indexOf('<w14:checked w14:val="1"/>')).toBeLessThan(document.indexOf('Done</w:t>'));
+      expect(document.indexOf('<w14:checked w14:val="0"/>')).toBeLessThan(document.indexOf('Open</w:t>'));
+      expect(document).toContain('<w:sym w:char="2612" w:font="MS Gothic"/>');
+      expect(document).toContain('<w:sym w:char="2610" w:font="MS Gothic"/>');
+    });
+  });
+
+  describe('footnotes', () => {
+    it('should export footnotes as native Word footnotes', async () => {
+      const { document, footnotes } = await exportParts('First[^a] and second[^b].\n\n[^a]: Alpha note.\n[^b]: Beta note.', settings);
+
+      expect(document).toContain('<w:t xml:space="preserve">First</w:t></w:r><w:r><w:rPr><w:rStyle w:val="FootnoteReference"/></w:rPr><w:footnoteReference w:id="1"/></w:r>');
+      expect(document).toContain('<w:footnoteReference w:id="2"/>');
+      expect(document).not.toContain('Alpha note.');
+      expect(footnotes.match(/<w:footnote w:id="1">[\s\S]*?<\/w:footnote>/)![0]).toContain('Alpha note.');
+      expect(footnotes.match(/<w:footnote w:id="2">[\s\S]*?<\/w:footnote>/)![0]).toContain('Beta note.');
+    });
+  });
+
+  describe('math', () => {
+    it('should export inline math as an OMML equation in the paragraph', async () => {
+      const { document } = await exportParts('Area $x^2$ here', settings);
+
+      expect(document).toContain('<w:t xml:space="preserve">Area </w:t></w:r><m:oMath><m:sSup><m:sSupPr/><m:e><m:r><m:t>x</m:t></m:r></m:e><m:sup><m:r><m:t>2</m:t></m:r></m:sup></m:sSup></m:oMath><w:r><w:t xml:space="preserve"> here</w:t>');
+    });
+
+    it('should export block math as a centered OMML equation', async () => {
+      const { document } = await exportParts('$$\n\\frac{a}{b}\n$$', settings);
+
+      expect(document).toContain('<w:jc w:val="center"/></w:pPr><m:oMath><m:f><m:num><m:r><m:t>a</m:t></m:r></m:num><m:den><m:r><m:t>b</m:t></m:r></m:den></m:f></m:oMath></w:p>');
+      expect(document).not.toContain('\\frac');
+    });
+  });
+
+  describe('internal links', () => {
+    it('should point every internal link at a bookmark in the document', async () => {
+      const markdown = 'See [[#Goals]], [[#Goals#Next Steps|steps]], [scope](#Scope) and [[#^key-point]].\n\n'
+        + '## Goals\n\n### Next Steps\n\nA key point. ^key-point\n\n## Scope';
+      const { document } = await exportParts(markdown, settings);
+      const anchors = getAttributeValues(document, 'w:hyperlink', 'w:anchor');
+      const bookmarks = getAttributeValues(document, 'w:bookmarkStart', 'w:name');
+
+      expect(anchors).toHaveLength(4);
+      for (const anchor of anchors) {
+        expect(bookmarks).toContain(anchor);
+      }
+    });
+  });
+
+  describe('table of contents', () => {
+    it('should insert a TOC field and ask Word to update fields on open', async () => {
+      settings.includeToc = true;
+
+      const parts = await exportParts('# Title\n\n## Goals\n\n### Detail', settings);
+
+      expect(parts.document).toContain('<w:instrText xml:space="preserve">TOC \\h \\o &quot;1-3&quot;</w:instrText>');
+      expect(parts.document.indexOf('TOC \\h')).toBeLessThan(parts.document.indexOf('Title</w:t>'));
+      expect(parts.settings).toContain('<w:updateFields/>');
+    });
+
+    it('should leave out the TOC field and field updates without a table of contents', async () => {
+      const parts = await exportParts('# Title\n\n## Goals', settings);
+
+      expect(parts.document).not.toContain('<w:instrText');
+      expect(parts.settings).not.toContain('<w:updateFields');
+    });
+  });
+
+  describe('diagnostics', () => {
+    it('should keep the diagnostics of concurrent exports apart', async () => {
+      settings.mermaidOutput = 'image';
+
+      const [first, second] = await Promise.all([
+        DocxExporter.export('```mermaid\ngraph TD\n  A --> B\n```', 'First', settings),
+        DocxExporter.export('Plain text', 'Second', settings)
+      ]);
+
+      expect(first).toHaveLength(1);
+      expect(first[0].position).toEqual({ startLine: 1, endLine: 4 });
+      expect(second).toEqual([]);
+    });
+  });
+
+  describe('images', () => {
+    it('should embed images on their own line, scaled to the text width', async () => {
+      settings.imageHandling = 'embed';
+      const imageSource = { read: jest.fn(async (url: string) => url === 'chart.png' ? createPng(1200, 300).slice().buffer : null) };
+
+      const { document } = await exportParts('![Chart](chart.png)\n\n![[missing.png]]', settings, { imageSource, sourcePath: 'Note.md' });
+
+      expect(imageSource.read).toHaveBeenCalledWith('chart.png', 'Note.md');
+      expect(document.match(/<w:drawing>/g)).toHaveLength(1);
+      expect(document).toContain('descr="Chart"');
+      expect(document).toContain('<wp:extent cx="5715000" cy="1428750"/>');
+      expect(document).toContain('[Image: missing]');
+    });
+  });
+});
@@ -2,6 +2,7 @@ import {
 	Document,
 	Paragraph,
 	TextRun,
+	ImageRun,
 	HeadingLevel,
 	AlignmentType,
 	Table,
@@ -11,7 +12,28 @@ import {
 	BorderStyle,
 	ShadingType,
 	Packer,
-	ExternalHyperlink
+	ExternalHyperlink,
+	InternalHyperlink,
+	Bookmark,
+	ParagraphChild,
+	CheckBox,
+	TableOfContents,
+	ILevelsOptions,
+	INumberingOptions,
+	FootnoteReferenceRun,
+	Math as DocxMath,
+	MathComponent,
+	MathRun,
+	MathFraction,
+	MathRadical,
+	MathSuperScript,
+	MathSubScript,
+	MathSubSuperScript,
+	MathFunction,
+	MathRoundBrackets,
+	MathSquareBrackets,
+	MathCurlyBrackets,
+	MathAngledBrackets
 } from 'docx';
 import { saveAs } from 'file-saver';
 import {
@@ -25,11 +47,129 @@ import {
 	ListBlock,
 	TableBlock,
 	BlockquoteBlock,
+	CalloutBlock,
 	HorizontalRuleBlock,
 	ImageBlock,
-	PluginSettings
+	ImageContent,
+	MathBlock,
+	TableOfContentsBlock,
+	CustomBlock,
+	ListNumberFormat,
+	PluginSettings,
+	ExportContext,
+	ExportDiagnostic
 } from '../types';
 import { MarkdownParser } from '../utils/markdownParser';
+import { LatexConverter, MathNode } from '../utils/latexConverter';
+import { CalloutStyles } from '../utils/calloutStyles';
+import { ListStyles, MAX_LIST_LEVEL } from '../utils/listStyles';
+import { Anchors } from '../utils/anchors';
+import { Diagnostics } from '../utils/diagnostics';
+import { ExportExtensions } from '../utils/exportExtensions';
+import { ImageLoader, LoadedImage } from '../utils/imageLoader';
+import { MermaidDiagrams, RenderedDiagram } from '../utils/mermaidRenderer';
+import { MermaidEncoder } from '../utils/mermaidEncoder';
+
+/**
+ * Runs that can appear in a paragraph built from inline content.
+ */
+type InlineRun = TextRun | ImageRun | ExternalHyperlink | InternalHyperlink | FootnoteReferenceRun | DocxMath;
+
+/**
+ * Placement of a block nested inside a list item or blockquote.
+ */
+interface BlockLayout {
+	/** Left indentation in twips */
+	indent: number;
+	/** True inside blockquotes, which draw a left border */
+	quoted?: boolean;
+}
+
+/**
+ * Indentation of one list level in twips (matches the numbering definitions).
+ */
+const LIST_INDENT_TWIPS = 720;
+
+/**
+ * Text width of the default page (A4 with 1 inch margins) in twips.
+ */
+const TABLE_WIDTH_TWIPS = 9026;
+
+/**
+ * Height of images inside text in pixels, about the height of an 11pt line.
+ */
+const INLINE_IMAGE_HEIGHT_PX = 16;
+
+/**
+ * Widest image on its own line (rendered Mermaid diagram or image block) in
+ * pixels, about the text width of the page.
+ */
+const IMAGE_MAX_WIDTH_PX = 600;
+
+/**
+ * Word number formats for the list number format setting.
+ */
+const ORDERED_LIST_FORMATS: Record<ListNumberFormat, ILevelsOptions['format']> = {
+	'decimal': 'decimal',
+	'lower-alpha': 'lowerLetter',
+	'upper-alpha': 'upperLetter',
+	'lower-roman': 'lowerRoman',
+	'upper-roman': 'upperRoman',
+	'legal': 'decimal'
+};
+
+/**
+ * Ordered list numbering handed out while building a document.
+ */
+interface ListNumbering {
+	/** Next numbering instance; every ordered list gets its own so it counts from its start */
+	nextInstance: number;
+	/** Lists with a definition of their own (nested, or starting at another number than 1), by numbering reference */
+	starts: Map<string, { level: number; start: number }>;
+}
+
+/**
+ * Numbering reference and instance shared by the items of an ordered list
+ * and the sub-lists that continue its numbering.
+ */
+interface ListNumberingInstance {
+	reference: string;
+	instance: number;
+}
+
+/**
+ * The document being built by one export, created by createDocument and
+ * passed through the build methods.
+ */
+interface BuildState {
+	/** Plugin settings of the export */
+	settings: PluginSettings;
+	/** Renderers for custom blocks */
+	extensions: ExportExtensions | undefined;
+	/** Loaded images by ImageLoader.getKey */
+	images: Map<string, LoadedImage>;
+	/** Rendered Mermaid diagrams by code */
+	diagrams: Map<string, RenderedDiagram>;
+	/** Ordered list numbering handed out so far */
+	listNumbering: ListNumbering;
+	/** Problems found while parsing and building the document */
+	diagnostics: ExportDiagnostic[];
+}
+
+/**
+ * Run formatting accumulated from enclosing inline formats.
+ * Property names match the docx run options so they can be spread into TextRuns.
+ */
+interface InlineFormatting {
+	bold?: boolean;
+	italics?: boolean;
+	strike?: boolean;
+	color?: string;
+	highlight?: string;
+	underline?: Record<string, never>;
+	superScript?: boolean;
+	subScript?: boolean;
+}
 
 /**
  * DocxExporter generates DOCX files from parsed markdown content.
@@ -45,22 +185,35 @@ export class DocxExporter {
 	 * @param markdown - The markdown content to export
 	 * @param filename - The output filename (without extension)
 	 * @param settings - Plugin settings for formatting preferences
+	 * @param context - Runtime information about the exported note
+	 * @returns Problems found while exporting, with their source lines
 	 */
 	static async export(
 		markdown: string,
 		filename: string,
-		settings: PluginSettings
-	): Promise<void> {
+		settings: PluginSettings,
+		context: ExportContext = {}
+	): Promise<ExportDiagnostic[]> {
 		try {
 			// Requirement 7.1: Handle empty note gracefully
 			const content = markdown || '';
 			
 			// Parse markdown into structured content
-			const parser = new MarkdownParser(settings);
+			const parser = new MarkdownParser(settings, { ...context, exportExtension: 'docx' });
 			const parsedContent = parser.parse(content);
 
+			// Read the images of the note so they can be embedded
+			const images = settings.imageHandling === 'embed'
+				? await new ImageLoader(context.imageSource).load(parsedContent, context.sourcePath || '')
+				: new Map<string, LoadedImage>();
+
+			// Render Mermaid diagrams to PNG when they are exported as images
+			const diagrams = settings.mermaidOutput === 'image'
+				? await new MermaidDiagrams(context.mermaidRenderer).render(parsedContent, true)
+				: new Map<string, RenderedDiagram>();
+
 			// Create DOCX document
-			const document = this.createDocument(parsedContent, settings);
+			const { document, diagnostics } = this.createDocument(parsedContent, settings, context.extensions, images, diagrams);
 
 			// Generate blob
 			const blob = await Packer.toBlob(document);
@@ -68,6 +221,8 @@ export class DocxExporter {
 			// Save file
 			const outputFilename = filename.endsWith('.docx') ? filename : `${filename}.docx`;
 			saveAs(blob, outputFilename);
+
+			return diagnostics;
 			
 		} catch (error) {
 			// Re-throw with more context
@@ -81,126 +236,59 @@ export class DocxExporter {
 
 	/**
 	 * Creates a docx Document from ParsedContent.
-	 * Converts all ContentBlocks to docx elements.
+	 * Converts all ContentBlocks to docx elements and applies frontmatter metadata.
 	 * 
 	 * @param content - The parsed content structure
 	 * @param settings - Plugin settings for formatting
-	 * @returns A docx Document object
+	 * @param extensions - Renderers for custom blocks
+	 * @param images - Loaded images by ImageLoader.getKey
+	 * @param diagrams - Rendered Mermaid diagrams by code
+	 * @returns A docx Document object, and the problems found while parsing and building it
 	 */
 	private static createDocument(
 		content: ParsedContent,
-		settings: PluginSettings
-	): Document {
-		const children: (Paragraph | Table)[] = [];
+		settings: PluginSettings,
+		extensions?: ExportExtensions,
+		images: Map<string, LoadedImage> = new Map(),
+		diagrams: Map<string, RenderedDiagram> = new Map()
+	): { document: Document; diagnostics: ExportDiagnostic[] } {
+		const children: (Paragraph | Table | TableOfContents)[] = [];
+		const state: BuildState = {
+			settings,
+			extensions,
+			images,
+			diagrams,
+			listNumbering: { nextInstance: 0, starts: new Map() },
+			diagnostics: content.diagnostics ? [...content.diagnostics] : []
+		};
 
 		// Convert each ContentBlock to docx elements
 		for (const block of content.blocks) {
-			const elements = this.blockToDocx(block, settings);
+			// The TOC field is a document-level element, not a paragraph
+			if (block.type === 'toc') {
+				children.push(...this.createTableOfContents(block));
+				continue;
+			}
+			const elements = this.blockToDocx(block, state);
 			children.push(...elements);
 		}
 
-		return new Document({
+		// Footnotes may hold lists too, so render them before collecting the numbering
+		const footnotes = this.createFootnotes(content, state);
+		const metadata = content.metadata;
+
+		const document = new Document({
+			// Frontmatter metadata becomes the document's core properties
+			title: metadata?.title,
+			creator: metadata?.author,
+			description: metadata?.description,
+			keywords: metadata?.tags?.join(', '),
+			customProperties: metadata?.date ? [{ name: 'date', value: metadata.date }] : undefined,
+			footnotes: footnotes,
+			// Ask Word to fill in the TOC field when the document is opened
+			features: content.blocks.some(block => block.type === 'toc') ? { updateFields: true } : undefined,
 			numbering: {
-				config: [
-					{
-						reference: 'unordered-list',
-						levels: [
-							{
-								level: 0,
-								format: 'bullet',
-								text: '•',
-								alignment: AlignmentType.LEFT,
-								style: {
-									paragraph: {
-										indent: { left: 720, hanging: 360 }
-									}
-								}
-							},
-							{
-								level: 1,
-								format: 'bullet',
-								text: '◦',
-								alignment: AlignmentType.LEFT,
-								style: {
-									paragraph: {
-										indent: { left: 1440, hanging: 360 }
-									}
-								}
-							},
-							{
-								level: 2,
-								format: 'bullet',
-								text: '▪',
-								alignment: AlignmentType.LEFT,
-								style: {
-									paragraph: {
-										indent: { left: 2160, hanging: 360 }
-									}
-								}
-							},
-							{
-								level: 3,
-								format: 'bullet',
-								text: '▫',
-								alignment: AlignmentType.LEFT,
-								style: {
-									paragraph: {
-										indent: { left: 2880, hanging: 360 }
-									}
-								}
-							}
-						]
-					},
-					{
-						reference: 'ordered-list',
-						levels: [
-							{
-								level: 0,
-								format: 'decimal',
-								text: '%1.',
-								alignment: AlignmentType.LEFT,
-								style: {
-									paragraph: {
-										indent: { left: 720, hanging: 360 }
-									}
-								}
-							},
-							{
-								level: 1,
-								format: 'lowerLetter',
-								text: '%2.',
-								alignment: AlignmentType.LEFT,
-								style: {
-									paragraph: {
-										indent: { left: 1440, hanging: 360 }
-									}
-								}
-							},
-							{
-								level: 2,
-								format: 'lowerRoman',
-								text: '%3.',
-								alignment: AlignmentType.LEFT,
-								style: {
-									paragraph: {
-										indent: { left: 2160, hanging: 360 }
-									}
-								}
-							},
-							{
-								level: 3,
-								format: 'decimal',
-								text: '%4.',
-								alignment: AlignmentType.LEFT,
-								style: {
-									paragraph: {
-										indent: { left: 2880, hanging: 360 }
-									}
-								}
-							}
-						]
-					}
-				]
+				config: this.createNumberingConfigs(state)
 			},
 			sections: [
 				{
@@ -209,6 +297,146 @@ export class DocxExporter {
 				}
 			]
 		});
+
+		return { document, diagnostics: state.diagnostics };
+	}
+
+	/**
+	 * Creates the numbering definitions for bullet, ordered and task lists
+	 * with all nine Word levels. Bullets and number formats come from the settings.
+	 * Nested ordered lists and lists starting at another number get their own definition.
+	 * 
+	 * @param state - The document being built, with the plugin settings for the list styles
+	 * @returns Numbering definitions for the document
+	 */
+	private static createNumberingConfigs(state: BuildState): INumberingOptions['config'] {
+		const levels = Array.from({ length: MAX_LIST_LEVEL + 1 }, (_, level) => level);
+		const indent = (level: number) => ({
+			paragraph: {
+				indent: { left: (level + 1) * LIST_INDENT_TWIPS, hanging: 360 }
+			}
+		});
+		const orderedLevels = (startLevel: number, start: number): ILevelsOptions[] => levels.map(level => {
+			const format = ListStyles.getNumberFormat(state.settings, level);
+			return {
+				level: level,
+				format: ORDERED_LIST_FORMATS[format],
+				// Legal numbering shows the numbers of all enclosing levels (1.1.1)
+				text: format === 'legal'
+					? levels.slice(0, level + 1).map(parent => `%${parent + 1}`).join('.') + '.'
+					: `%${level + 1}.`,
+				isLegalNumberingStyle: format === 'legal',
+				start: level === startLevel ? start : 1,
+				alignment: AlignmentType.LEFT,
+				style: indent(level)
+			};
+		});
+
+		return [
+			{
+				reference: 'unordered-list',
+				levels: levels.map(level => ({
+					level: level,
+					format: 'bullet',
+					text: ListStyles.getBullet(state.settings, level),
+					alignment: AlignmentType.LEFT,
+					style: indent(level)
+				}))
+			},
+			{
+				reference: 'ordered-list',
+				levels: orderedLevels(0, 1)
+			},
+			...Array.from(state.listNumbering.starts, ([reference, { level, start }]) => ({
+				reference: reference,
+				levels: orderedLevels(level, start)
+			})),
+			{
+				// Task lists carry a checkbox content control instead of a bullet glyph
+				reference: 'task-list',
+				levels: levels.map(level => ({
+					level: level,
+					format: 'none',
+					text: '',
+					alignment: AlignmentType.LEFT,
+					style: indent(level)
+				}))
+			}
+		];
+	}
+
+	/**
+	 * Returns a new numbering instance for an ordered list, so it counts from its own start.
+	 * docx only restarts the first level of an instance, and Word keeps counting
+	 * deeper levels across instances of one definition, so every nested list
+	 * gets a definition of its own.
+	 * 
+	 * @param state - The document being built, with the list numbering handed out so far
+	 * @param level - Word list level of the list
+	 * @param start - Number of the first item
+	 * @returns Numbering reference and instance for the list items
+	 */
+	private static createListNumbering(state: BuildState, level: number, start: number): ListNumberingInstance {
+		const instance = state.listNumbering.nextInstance++;
+		let reference = 'ordered-list';
+		if (level > 0) {
+			reference = `ordered-list-nested-${instance}`;
+			state.listNumbering.starts.set(reference, { level, start });
+		} else if (start !== 1) {
+			reference = `ordered-list-${level}-${start}`;
+			state.listNumbering.starts.set(reference, { level, start });
+		}
+		return { reference, instance };
+	}
+
+	/**
+	 * Creates a table of contents as a Word TOC field over the heading styles
+	 * up to the block's depth, with entries linking to the headings.
+	 * Word fills the field on open; Google Docs refreshes it from its TOC menu.
+	 * 
+	 * @param block - The TableOfContentsBlock to convert
+	 * @returns The title paragraph and the TOC field
+	 */
+	private static createTableOfContents(block: TableOfContentsBlock): (Paragraph | TableOfContents)[] {
+		return [
+			new Paragraph({
+				children: [new TextRun({ text: 'Contents', bold: true, size: 28 })],
+				spacing: { after: 120 }
+			}),
+			new TableOfContents('Table of Contents', {
+				hyperlink: true,
+				headingStyleRange: `1-${block.maxDepth}`
+			})
+		];
+	}
+
+	/**
+	 * Creates native Word footnotes from the parsed footnote definitions.
+	 * Footnote bodies can only hold paragraphs, so tables are omitted.
+	 * 
+	 * @param content - The parsed content structure
+	 * @param state - The document being built, with the plugin settings for formatting
+	 * @returns Footnote map keyed by footnote number
+	 */
+	private static createFootnotes(
+		content: ParsedContent,
+		state: BuildState
+	): Record<number, { children: Paragraph[] }> {
+		const footnotes: Record<number, { children: Paragraph[] }> = {};
+
+		for (const footnote of content.footnotes || []) {
+			const paragraphs: Paragraph[] = [];
+			for (const block of footnote.content) {
+				for (const element of this.blockToDocx(block, state)) {
+					if (element instanceof Paragraph) {
+						paragraphs.push(element);
+					}
+				}
+			}
+			footnotes[footnote.index] = { children: paragraphs };
+		}
+
+		return footnotes;
 	}
 
 	/**
@@ -218,44 +446,56 @@ export class DocxExporter {
 	 * Requirements: 7.1, 7.2, 7.3, 8.2
 	 * 
 	 * @param block - The ContentBlock to convert
-	 * @param settings - Plugin settings for formatting
+	 * @param state - The document being built, with the plugin settings for formatting
+	 * @param layout - Indentation when nested in a list item or blockquote
 	 * @returns Array of docx elements
 	 */
 	private static blockToDocx(
 		block: ContentBlock,
-		settings: PluginSettings
+		state: BuildState,
+		layout?: BlockLayout
 	): (Paragraph | Table)[] {
 		try {
 			switch (block.type) {
 				case 'heading':
-					return [this.createHeading(block, settings)];
+					return [this.createHeading(block, state, layout)];
 				
 				case 'paragraph':
-					return [this.createParagraph(block, settings)];
+					return [this.createParagraph(block, state, layout)];
 				
 				case 'code':
-					return this.createCodeBlock(block, settings);
+					return this.createCodeBlock(block, state, layout);
 				
 				case 'mermaid':
-					return [this.createMermaidLink(block, settings)];
+					return this.createMermaidDiagram(block, state, layout);
 				
 				case 'list':
-					return this.createList(block, settings);
+					// Nested lists continue at the list level matching the indentation
+					return this.createList(block, state, layout ? Math.round(layout.indent / LIST_INDENT_TWIPS) : 0);
 				
 				case 'table':
-					return this.createTable(block, settings);
+					return this.createTable(block, state, layout);
 				
 				case 'blockquote':
-					return this.createBlockquote(block, settings);
+					return this.createBlockquote(block, state, layout);
+				
+				case 'callout':
+					return this.createCallout(block, state, layout);
 				
 				case 'hr':
-					return [this.createHorizontalRule()];
+					return [this.createHorizontalRule(layout)];
+				
+				case 'math':
+					return this.createMathBlock(block, state, layout);
+				
+				case 'custom':
+					return this.createCustomBlock(block, state, layout);
 				
 				case 'image':
 					// Image handling based on settings.imageHandling (Requirement 3.12)
-					const imageParagraph = this.createImagePlaceholder(block, settings);
+					const imageParagraph = this.createImage(block, state, layout);
 					// Skip empty paragraphs when imageHandling is 'skip'
-					if (settings.imageHandling === 'skip') {
+					if (state.settings.imageHandling === 'skip') {
 						return [];
 					}
 					return [imageParagraph];
@@ -264,13 +504,14 @@ export class DocxExporter {
 					// Unknown block type - skip silently
 					return [];
 			}
-		} catch {
-			// Graceful degradation: return a paragraph with error message
+		} catch (error) {
+			// Graceful degradation: report the block's lines and return a paragraph with error message
+			state.diagnostics.push(Diagnostics.renderError(block, error));
 			return [
 				new Paragraph({
 					children: [
 						new TextRun({
-							text: `[Error rendering ${block.type} block]`,
+							text: Diagnostics.getPlaceholder(block),
 							italics: true,
 							color: '999999'
 						})
@@ -280,20 +521,62 @@ export class DocxExporter {
 		}
 	}
 
+	/**
+	 * Creates the elements of a CustomBlock with the renderer registered for
+	 * its name, falling back to its built-in fallback blocks.
+	 */
+	private static createCustomBlock(
+		block: CustomBlock,
+		state: BuildState,
+		layout?: BlockLayout
+	): (Paragraph | Table)[] {
+		const renderBlocks = (blocks: ContentBlock[]) => blocks.flatMap(contentBlock => this.blockToDocx(contentBlock, state, layout));
+		const renderer = state.extensions?.getRenderer('docx', block.name);
+		if (renderer) {
+			return renderer(block, { settings: state.settings, renderBlocks });
+		}
+
+		if (!block.fallback) {
+			state.diagnostics.push(Diagnostics.missingRenderer(block, 'docx'));
+			return [];
+		}
+		return renderBlocks(block.fallback);
+	}
+
+	/**
+	 * Returns the paragraph options that place a paragraph according to its layout.
+	 */
+	private static getLayoutOptions(layout?: BlockLayout): {
+		indent?: { left: number };
+		border?: { left: { color: string; space: number; style: typeof BorderStyle.SINGLE; size: number } };
+	} {
+		if (!layout) {
+			return {};
+		}
+		return {
+			indent: layout.indent > 0 ? { left: layout.indent } : undefined,
+			border: layout.quoted
+				? { left: { color: '999999', space: 1, style: BorderStyle.SINGLE, size: 12 } }
+				: undefined
+		};
+	}
+
 	/**
 	 * Creates a heading paragraph with appropriate heading level.
 	 */
 	private static createHeading(
 		block: HeadingBlock,
-		settings: PluginSettings
+		state: BuildState,
+		layout?: BlockLayout
 	): Paragraph {
-		const textRuns = this.inlineToTextRuns(block.content, settings);
+		const textRuns = this.inlineToTextRuns(block.content, state);
 		const headingLevel = this.getHeadingLevel(block.level);
 
 		return new Paragraph({
+			...this.getLayoutOptions(layout),
 			text: '',
 			heading: headingLevel,
-			children: textRuns
+			children: this.withBookmark(textRuns, block.id)
 		});
 	}
 
@@ -302,20 +585,35 @@ export class DocxExporter {
 	 */
 	private static createParagraph(
 		block: ParagraphBlock,
-		settings: PluginSettings
+		state: BuildState,
+		layout?: BlockLayout
 	): Paragraph {
-		const textRuns = this.inlineToTextRuns(block.content, settings);
+		const textRuns = this.inlineToTextRuns(block.content, state);
 
 		return new Paragraph({
-			children: textRuns
+			...this.getLayoutOptions(layout),
+			children: this.withBookmark(textRuns, block.id)
 		});
 	}
 
+	/**
+	 * Wraps paragraph runs in a bookmark for heading and block anchors,
+	 * the target of internal hyperlinks.
+	 */
+	private static withBookmark(runs: InlineRun[], id?: string): ParagraphChild[] {
+		if (!id) {
+			return runs;
+		}
+
+		return [new Bookmark({ id: Anchors.toBookmarkName(id), children: runs })];
+	}
+
 	/**
 	 * Creates a horizontal rule using a paragraph with bottom border.
 	 */
-	private static createHorizontalRule(): Paragraph {
+	private static createHorizontalRule(layout?: BlockLayout): Paragraph {
 		return new Paragraph({
+			...this.getLayoutOptions(layout),
 			text: '',
 			border: {
 				bottom: {
@@ -334,22 +632,23 @@ export class DocxExporter {
 
 	/**
 	 * Converts InlineContent array to TextRun array with formatting.
-	 * Handles bold, italic, strikethrough, inline code, and links.
+	 * Handles bold, italic, strikethrough, highlight, underline, super/subscript,
+	 * inline code, keyboard input, links, footnote references, and math.
 	 * 
 	 * Requirements: 3.4, 3.5, 3.6, 3.9, 3.14
 	 * 
 	 * @param content - Array of InlineContent to convert
-	 * @param settings - Plugin settings
+	 * @param state - The document being built, with its plugin settings
 	 * @returns Array of TextRun objects or hyperlinks
 	 */
 	private static inlineToTextRuns(
 		content: InlineContent[],
-		settings: PluginSettings
-	): (TextRun | ExternalHyperlink)[] {
-		const runs: (TextRun | ExternalHyperlink)[] = [];
+		state: BuildState
+	): InlineRun[] {
+		const runs: InlineRun[] = [];
 
 		for (const item of content) {
-			runs.push(...this.inlineContentToTextRuns(item, settings));
+			runs.push(...this.inlineContentToTextRuns(item, state));
 		}
 
 		return runs;
@@ -361,29 +660,23 @@ export class DocxExporter {
 	 */
 	private static inlineContentToTextRuns(
 		item: InlineContent,
-		settings: PluginSettings,
-		inheritedFormatting: {
-			bold?: boolean;
-			italics?: boolean;
-			strike?: boolean;
-		} = {}
-	): (TextRun | ExternalHyperlink)[] {
+		state: BuildState,
+		inheritedFormatting: InlineFormatting = {}
+	): InlineRun[] {
 		switch (item.type) {
 			case 'text':
 				return [
 					new TextRun({
 						text: item.content,
-						bold: inheritedFormatting.bold,
-						italics: inheritedFormatting.italics,
-						strike: inheritedFormatting.strike
+						...inheritedFormatting
 					})
 				];
 			
 			case 'bold':
 				// Recursively process nested content with bold formatting (Requirement 3.4)
-				const boldRuns: (TextRun | ExternalHyperlink)[] = [];
+				const boldRuns: InlineRun[] = [];
 				for (const nestedItem of item.content) {
-					boldRuns.push(...this.inlineContentToTextRuns(nestedItem, settings, {
+					boldRuns.push(...this.inlineContentToTextRuns(nestedItem, state, {
 						...inheritedFormatting,
 						bold: true
 					}));
@@ -392,9 +685,9 @@ export class DocxExporter {
 			
 			case 'italic':
 				// Recursively process nested content with italic formatting (Requirement 3.5)
-				const italicRuns: (TextRun | ExternalHyperlink)[] = [];
+				const italicRuns: InlineRun[] = [];
 				for (const nestedItem of item.content) {
-					italicRuns.push(...this.inlineContentToTextRuns(nestedItem, settings, {
+					italicRuns.push(...this.inlineContentToTextRuns(nestedItem, state, {
 						...inheritedFormatting,
 						italics: true
 					}));
@@ -403,40 +696,74 @@ export class DocxExporter {
 			
 			case 'strikethrough':
 				// Recursively process nested content with strikethrough formatting (Requirement 3.6)
-				const strikeRuns: (TextRun | ExternalHyperlink)[] = [];
+				const strikeRuns: InlineRun[] = [];
 				for (const nestedItem of item.content) {
-					strikeRuns.push(...this.inlineContentToTextRuns(nestedItem, settings, {
+					strikeRuns.push(...this.inlineContentToTextRuns(nestedItem, state, {
 						...inheritedFormatting,
 						strike: true
 					}));
 				}
 				return strikeRuns;
 			
+			case 'highlight':
+				return this.formattedRuns(item.content, state, { ...inheritedFormatting, highlight: 'yellow' });
+			
+			case 'underline':
+				return this.formattedRuns(item.content, state, { ...inheritedFormatting, underline: {} });
+			
+			case 'superscript':
+				return this.formattedRuns(item.content, state, { ...inheritedFormatting, superScript: true, subScript: false });
+			
+			case 'subscript':
+				return this.formattedRuns(item.content, state, { ...inheritedFormatting, subScript: true, superScript: false });
+			
+			case 'keyboard':
+				// Key names in monospace on a light background
+				return [
+					new TextRun({
+						text: item.content,
+						font: state.settings.codeBlockFont,
+						shading: {
+							type: ShadingType.SOLID,
+							color: state.settings.codeBlockBackground.replace('#', '')
+						},
+						...inheritedFormatting
+					})
+				];
+			
 			case 'code':
 				// Inline code with monospace font (Requirement 3.14)
 				return [
 					new TextRun({
 						text: item.content,
-						font: settings.codeBlockFont,
-						bold: inheritedFormatting.bold,
-						italics: inheritedFormatting.italics,
-						strike: inheritedFormatting.strike
+						font: state.settings.codeBlockFont,
+						...inheritedFormatting
 					})
 				];
 			
 			case 'link':
 				// Create hyperlink with formatted text (Requirement 3.9)
-				const linkTextRuns: TextRun[] = [];
+				const linkTextRuns: (TextRun | ImageRun)[] = [];
 				for (const textItem of item.text) {
-					const runs = this.inlineContentToTextRuns(textItem, settings, inheritedFormatting);
-					// Filter to only TextRuns for hyperlink children
+					const runs = this.inlineContentToTextRuns(textItem, state, inheritedFormatting);
+					// Filter to only TextRuns and images (badges) for hyperlink children
 					for (const run of runs) {
-						if (run instanceof TextRun) {
+						if (run instanceof TextRun || run instanceof ImageRun) {
 							linkTextRuns.push(run);
 						}
 					}
 				}
 				
+				// '#anchor' links jump to a bookmark in this document
+				if (item.url.startsWith('#')) {
+					return [
+						new InternalHyperlink({
+							children: linkTextRuns,
+							anchor: Anchors.toBookmarkName(item.url.slice(1))
+						})
+					];
+				}
+
 				return [
 					new ExternalHyperlink({
 						children: linkTextRuns,
@@ -444,11 +771,101 @@ export class DocxExporter {
 					})
 				];
 			
+			case 'footnoteRef':
+				// Native Word footnote reference (Google Docs imports these as footnotes)
+				return [new FootnoteReferenceRun(item.index)];
+			
+			case 'math':
+				// Native Word equation; unsupported LaTeX keeps its source in monospace
+				try {
+					return [new DocxMath({ children: this.mathNodesToDocx(LatexConverter.parse(item.latex)) })];
+				} catch {
+					return [
+						new TextRun({
+							text: item.latex,
+							font: state.settings.codeBlockFont,
+							...inheritedFormatting
+						})
+					];
+				}
+			
+			case 'image':
+				return this.createInlineImage(item, state, inheritedFormatting);
+			
 			default:
 				return [];
 		}
 	}
 
+	/**
+	 * Converts an image within text based on the imageHandling setting.
+	 * Embedded images are scaled to the height of the line; images that
+	 * could not be loaded get the same placeholder as image blocks.
+	 */
+	private static createInlineImage(
+		item: ImageContent,
+		state: BuildState,
+		inheritedFormatting: InlineFormatting
+	): InlineRun[] {
+		switch (state.settings.imageHandling) {
+			case 'embed': {
+				const image = state.images.get(ImageLoader.getKey(item));
+				if (!image) {
+					return [
+						new TextRun({
+							text: `[Image: ${item.alt || 'Untitled'}]`,
+							...inheritedFormatting,
+							italics: true,
+							color: '666666'
+						})
+					];
+				}
+				return [
+					new ImageRun({
+						data: image.data,
+						transformation: {
+							width: Math.max(1, Math.round(image.width * INLINE_IMAGE_HEIGHT_PX / image.height)),
+							height: INLINE_IMAGE_HEIGHT_PX
+						},
+						altText: { name: item.alt, description: item.alt, title: item.alt }
+					})
+				];
+			}
+			
+			case 'link':
+				return [
+					new ExternalHyperlink({
+						children: [
+							new TextRun({
+								text: item.alt || 'Image',
+								style: 'Hyperlink',
+								...inheritedFormatting
+							})
+						],
+						link: item.url
+					})
+				];
+			
+			default:
+				return [];
+		}
+	}
+
+	/**
+	 * Converts nested inline content with additional run formatting.
+	 */
+	private static formattedRuns(
+		content: InlineContent[],
+		state: BuildState,
+		formatting: InlineFormatting
+	): InlineRun[] {
+		const runs: InlineRun[] = [];
+		for (const nestedItem of content) {
+			runs.push(...this.inlineContentToTextRuns(nestedItem, state, formatting));
+		}
+		return runs;
+	}
+
 	/**
 	 * Maps heading level (1-6) to docx HeadingLevel enum.
 	 * 
@@ -483,19 +900,21 @@ export class DocxExporter {
 	 * Requirements: 2.1, 2.2, 2.3, 2.4, 2.5
 	 * 
 	 * @param block - The CodeBlock to format
-	 * @param settings - Plugin settings for font, background, and label preferences
+	 * @param state - The document being built, with the plugin settings for font, background, and label preferences
 	 * @returns Array of Paragraph objects representing the code block
 	 */
 	private static createCodeBlock(
 		block: CodeBlock,
-		settings: PluginSettings
+		state: BuildState,
+		layout?: BlockLayout
 	): Paragraph[] {
 		const paragraphs: Paragraph[] = [];
 
 		// Add language label if enabled and language exists (Requirement 2.4)
-		if (settings.includeLanguageLabel && block.language) {
+		if (state.settings.includeLanguageLabel && block.language) {
 			paragraphs.push(
 				new Paragraph({
+					...this.getLayoutOptions(layout),
 					children: [
 						new TextRun({
 							text: block.language,
@@ -521,15 +940,16 @@ export class DocxExporter {
 			
 			paragraphs.push(
 				new Paragraph({
+					...this.getLayoutOptions(layout),
 					children: [
 						new TextRun({
 							text: line || ' ',  // Use space for empty lines to preserve them
-							font: settings.codeBlockFont  // Requirement 2.2
+							font: state.settings.codeBlockFont  // Requirement 2.2
 						})
 					],
 					shading: {
 						type: ShadingType.SOLID,
-						color: settings.codeBlockBackground.replace('#', '')  // Requirement 2.3
+						color: state.settings.codeBlockBackground.replace('#', '')  // Requirement 2.3
 					},
 					spacing: {
 						line: 240,  // Single line spacing
@@ -543,30 +963,234 @@ export class DocxExporter {
 		return paragraphs;
 	}
 
+	/**
+	 * Creates centered display math as a native Word equation (OMML).
+	 * Alignment environments (aligned, gathered) become one equation per row.
+	 * LaTeX that cannot be converted is shown as its source in monospace.
+	 * 
+	 * @param block - The MathBlock to convert
+	 * @param state - The document being built, with the plugin settings for the fallback font
+	 * @returns Paragraphs holding the equation(s)
+	 */
+	private static createMathBlock(
+		block: MathBlock,
+		state: BuildState,
+		layout?: BlockLayout
+	): Paragraph[] {
+		const spacing = { before: 120, after: 120 };
+
+		try {
+			const nodes = LatexConverter.parse(block.latex);
+			const rows = nodes.length === 1 && nodes[0].type === 'matrix' && nodes[0].aligned
+				? nodes[0].rows.map(row => row.flat())
+				: [nodes];
+
+			return rows.map(row => new Paragraph({
+				...this.getLayoutOptions(layout),
+				alignment: AlignmentType.CENTER,
+				spacing,
+				children: [new DocxMath({ children: this.mathNodesToDocx(row) })]
+			}));
+		} catch {
+			return [
+				new Paragraph({
+					...this.getLayoutOptions(layout),
+					alignment: AlignmentType.CENTER,
+					spacing,
+					children: block.latex.split('\n').map((line, index) => new TextRun({
+						text: line,
+						font: state.settings.codeBlockFont,
+						break: index > 0 ? 1 : undefined
+					}))
+				})
+			];
+		}
+	}
+
+	/**
+	 * Converts math syntax nodes to docx math components.
+	 * Throws for constructs Word equations cannot express through the docx
+	 * library (matrices, multi-character accents, bar-less fractions).
+	 */
+	private static mathNodesToDocx(nodes: MathNode[]): MathComponent[] {
+		const components: MathComponent[] = [];
+
+		for (let i = 0; i < nodes.length; i++) {
+			const node = nodes[i];
+
+			// Function names take the following node as their argument (sin x)
+			if (node.type === 'text' && node.kind === 'function') {
+				const argument = i + 1 < nodes.length ? this.mathNodesToDocx([nodes[++i]]) : [];
+				components.push(new MathFunction({ name: [new MathRun(node.value)], children: argument }));
+				continue;
+			}
+
+			components.push(...this.mathNodeToDocx(node));
+		}
+
+		return components;
+	}
+
+	/**
+	 * Converts a single math syntax node to docx math components.
+	 */
+	private static mathNodeToDocx(node: MathNode): MathComponent[] {
+		switch (node.type) {
+			case 'text':
+				return [new MathRun(node.value)];
+
+			case 'space':
+				return node.width > 0 ? [new MathRun(node.width >= 1 ? '\u2003' : '\u2009')] : [];
+
+			case 'row':
+			case 'style':
+				return this.mathNodesToDocx(node.type === 'row' ? node.children : node.body);
+
+			case 'fraction':
+				if (node.noBar) {
+					throw new Error('Fractions without a bar are not supported');
+				}
+				return [new MathFraction({
+					numerator: this.mathNodesToDocx(node.numerator),
+					denominator: this.mathNodesToDocx(node.denominator)
+				})];
+
+			case 'radical':
+				return [new MathRadical({
+					children: this.mathNodesToDocx(node.body),
+					degree: node.degree ? this.mathNodesToDocx(node.degree) : undefined
+				})];
+
+			case 'scripts': {
+				const children = this.mathNodesToDocx(node.base);
+				if (node.sub && node.sup) {
+					return [new MathSubSuperScript({
+						children,
+						subScript: this.mathNodesToDocx(node.sub),
+						superScript: this.mathNodesToDocx(node.sup)
+					})];
+				}
+				if (node.sub) {
+					return [new MathSubScript({ children, subScript: this.mathNodesToDocx(node.sub) })];
+				}
+				return [new MathSuperScript({ children, superScript: this.mathNodesToDocx(node.sup || []) })];
+			}
+
+			case 'fenced': {
+				const children = this.mathNodesToDocx(node.body);
+				const delimiters = `${node.open}${node.close}`;
+				switch (delimiters) {
+					case '()':
+						return [new MathRoundBrackets({ children })];
+					case '[]':
+						return [new MathSquareBrackets({ children })];
+					case '{}':
+						return [new MathCurlyBrackets({ children })];
+					case '⟨⟩':
+						return [new MathAngledBrackets({ children })];
+					default:
+						// Other or one-sided delimiters are written as plain characters
+						return [
+							...(node.open ? [new MathRun(node.open)] : []),
+							...children,
+							...(node.close ? [new MathRun(node.close)] : [])
+						];
+				}
+			}
+
+			case 'accent': {
+				const base = node.body.length === 1 ? node.body[0] : null;
+				if (!base || base.type !== 'text' || Array.from(base.value).length !== 1) {
+					throw new Error('Accents are only supported on single characters');
+				}
+				return [new MathRun(base.value + node.combining)];
+			}
+
+			case 'matrix':
+				throw new Error('Matrices are not supported in Word equations');
+		}
+	}
+
+	/**
+	 * Creates a Mermaid diagram as a rendered PNG image when diagrams are
+	 * exported as images, with the Mermaid Live link as an optional caption.
+	 * Otherwise, or when the diagram could not be rendered, creates the link.
+	 *
+	 * @param block - The MermaidBlock to convert
+	 * @param state - The document being built, with the plugin settings for the Mermaid output mode
+	 * @returns The image and caption paragraphs, or the link paragraph
+	 */
+	private static createMermaidDiagram(
+		block: MermaidBlock,
+		state: BuildState,
+		layout?: BlockLayout
+	): Paragraph[] {
+		if (state.settings.mermaidOutput !== 'image') {
+			return [this.createMermaidLink(block, state, layout)];
+		}
+
+		const image = state.diagrams.get(block.code)?.png;
+		if (!image) {
+			state.diagnostics.push(Diagnostics.diagramNotRendered(block));
+			return [this.createMermaidLink(block, state, layout)];
+		}
+
+		// Scale wide diagrams down to the text width
+		const scale = Math.min(1, IMAGE_MAX_WIDTH_PX / image.width);
+		const paragraphs = [
+			new Paragraph({
+				...this.getLayoutOptions(layout),
+				alignment: AlignmentType.CENTER,
+				children: [
+					new ImageRun({
+						data: image.data,
+						transformation: {
+							width: Math.round(image.width * scale),
+							height: Math.round(image.height * scale)
+						},
+						altText: { name: block.diagramType, description: block.code, title: block.diagramType }
+					})
+				],
+				spacing: { before: 200, after: state.settings.mermaidImageCaption ? 0 : 200 }
+			})
+		];
+
+		if (state.settings.mermaidImageCaption) {
+			paragraphs.push(new Paragraph({
+				...this.getLayoutOptions(layout),
+				alignment: AlignmentType.CENTER,
+				children: [
+					new ExternalHyperlink({
+						children: [new TextRun({ text: MermaidEncoder.formatLinkText(block, state.settings), style: 'Hyperlink', size: 18 })],
+						link: block.url
+					})
+				],
+				spacing: { after: 200 }
+			}));
+		}
+
+		return paragraphs;
+	}
+
 	/**
 	 * Creates a Mermaid link paragraph with emoji and hyperlink.
-	 * Formats the link text using settings.mermaidLinkText and optionally includes diagram type.
+	 * Formats the link text from settings.mermaidLinkText (see MermaidEncoder.formatLinkText).
 	 * Applies spacing before and after the paragraph.
 	 * 
 	 * @param block - The MermaidBlock containing diagram info and URL
-	 * @param settings - Plugin settings for link text and diagram type inclusion
+	 * @param state - The document being built, with the plugin settings for link text and diagram type inclusion
 	 * @returns A Paragraph with formatted Mermaid link
 	 */
 	private static createMermaidLink(
 		block: MermaidBlock,
-		settings: PluginSettings
+		state: BuildState,
+		layout?: BlockLayout
 	): Paragraph {
-		// Build link text: base text + optional diagram type
-		let linkText = settings.mermaidLinkText;
-		if (settings.includeMermaidType && block.diagramType) {
-			linkText = `${linkText} (${block.diagramType})`;
-		}
-
 		// Create hyperlink with the formatted text
 		const hyperlink = new ExternalHyperlink({
 			children: [
 				new TextRun({
-					text: linkText,
+					text: MermaidEncoder.formatLinkText(block, state.settings),
 					style: 'Hyperlink'
 				})
 			],
@@ -575,6 +1199,7 @@ export class DocxExporter {
 
 		// Create paragraph with spacing
 		return new Paragraph({
+			...this.getLayoutOptions(layout),
 			children: [hyperlink],
 			spacing: {
 				before: 200,  // 10pt spacing before
@@ -586,38 +1211,77 @@ export class DocxExporter {
 	/**
 	 * Creates list paragraphs with proper numbering/bullets and nesting.
 	 * Handles both ordered and unordered lists with nested children.
+	 * Task items (- [ ] / - [x]) render as checkbox content controls.
+	 * Further blocks of an item (code, paragraphs, tables) are indented under it.
+	 * Levels beyond Word's ninth reuse the ninth level.
 	 * 
 	 * Requirements: 3.7, 3.8
 	 * 
 	 * @param block - The ListBlock to convert
-	 * @param settings - Plugin settings
+	 * @param state - The document being built, with its plugin settings
 	 * @param level - Current nesting level (0-based)
-	 * @returns Array of Paragraph objects representing the list
+	 * @param numbering - Numbering of the parent list when this list continues it
+	 * @returns Paragraphs (and tables from item blocks) representing the list
 	 */
 	private static createList(
 		block: ListBlock,
-		settings: PluginSettings,
-		level: number = 0
-	): Paragraph[] {
-		const paragraphs: Paragraph[] = [];
+		state: BuildState,
+		level: number = 0,
+		numbering?: ListNumberingInstance
+	): (Paragraph | Table)[] {
+		const paragraphs: (Paragraph | Table)[] = [];
+		const wordLevel = Math.min(level, MAX_LIST_LEVEL);
+
+		// Each ordered list gets its own numbering instance, so separate lists
+		// restart counting and begin at their own start number
+		const listNumbering = block.ordered
+			? numbering ?? this.createListNumbering(state, wordLevel, block.start ?? 1)
+			: undefined;
 
 		for (const item of block.items) {
 			// Create paragraph for this list item
-			const textRuns = this.inlineToTextRuns(item.content, settings);
-			
-			paragraphs.push(
-				new Paragraph({
-					children: textRuns,
-					numbering: {
-						reference: block.ordered ? 'ordered-list' : 'unordered-list',
-						level: level
-					}
-				})
-			);
+			const textRuns = this.inlineToTextRuns(item.content, state);
 
-			// Recursively process nested lists
+			// Task items get a Word checkbox content control in place of the bullet
+			if (item.checked !== undefined) {
+				paragraphs.push(
+					new Paragraph({
+						children: [
+							new CheckBox({ checked: item.checked }),
+							new TextRun({ text: ' ' }),
+							...textRuns
+						],
+						numbering: {
+							reference: 'task-list',
+							level: wordLevel
+						}
+					})
+				);
+			} else {
+				paragraphs.push(
+					new Paragraph({
+						children: textRuns,
+						numbering: listNumbering
+							? { ...listNumbering, level: wordLevel }
+							: { reference: 'unordered-list', level: wordLevel }
+					})
+				);
+			}
+
+			// Further blocks of the item, indented to the item text. They use no
+			// numbering, so the list keeps counting after them.
+			if (item.blocks) {
+				const itemLayout: BlockLayout = { indent: (level + 1) * LIST_INDENT_TWIPS };
+				for (const itemBlock of item.blocks) {
+					paragraphs.push(...this.blockToDocx(itemBlock, state, itemLayout));
+				}
+			}
+
+			// Recursively process nested lists; ordered sub-lists continue this
+			// list's numbering as its next level (1.1, 1.2 with legal numbering)
 			if (item.children) {
-				const nestedParagraphs = this.createList(item.children, settings, level + 1);
+				const continued = ListStyles.continuesNumbering(block, item.children) ? listNumbering : undefined;
+				const nestedParagraphs = this.createList(item.children, state, level + 1, continued);
 				paragraphs.push(...nestedParagraphs);
 			}
 		}
@@ -627,54 +1291,63 @@ export class DocxExporter {
 
 	/**
 	 * Creates a table with header row (shaded) and data rows.
+	 * Applies per-column alignment and width hints when present.
 	 * 
 	 * Requirements: 3.15
 	 * 
 	 * @param block - The TableBlock to convert
-	 * @param settings - Plugin settings
+	 * @param state - The document being built, with its plugin settings
+	 * @param layout - Indentation when nested in a list item or blockquote
 	 * @returns Array containing the Table object
 	 */
 	private static createTable(
 		block: TableBlock,
-		settings: PluginSettings
+		state: BuildState,
+		layout?: BlockLayout
 	): Table[] {
 		const rows: TableRow[] = [];
+		const columnWidths = block.columnWidths;
 
 		// Create header row with shading
 		const headerCells: TableCell[] = [];
-		for (const headerContent of block.headers) {
-			const textRuns = this.inlineToTextRuns(headerContent, settings);
+		block.headers.forEach((headerContent, column) => {
+			const textRuns = this.inlineToTextRuns(headerContent, state);
 			headerCells.push(
 				new TableCell({
 					children: [
 						new Paragraph({
-							children: textRuns
+							children: textRuns,
+							alignment: this.getTableAlignment(block, column)
 						})
 					],
 					shading: {
 						type: ShadingType.SOLID,
 						color: 'D3D3D3'  // Light gray for header
-					}
+					},
+					width: columnWidths && columnWidths[column] !== undefined
+						? { size: columnWidths[column], type: WidthType.PERCENTAGE }
+						: undefined
 				})
 			);
-		}
+		});
 		rows.push(new TableRow({ children: headerCells }));
 
 		// Create data rows
 		for (const row of block.rows) {
 			const dataCells: TableCell[] = [];
-			for (const cellContent of row) {
-				const textRuns = this.inlineToTextRuns(cellContent, settings);
+			row.forEach((cellContent, column) => {
+				const textRuns = this.inlineToTextRuns(cellContent, state);
 				dataCells.push(
 					new TableCell({
 						children: [
 							new Paragraph({
-								children: textRuns
+								children: textRuns,
+								alignment: this.getTableAlignment(block, column)
 							})
 						]
 					})
 				);
-			}
+			});
 			rows.push(new TableRow({ children: dataCells }));
 		}
 
@@ -684,11 +1357,36 @@ export class DocxExporter {
 				width: {
 					size: 100,
 					type: WidthType.PERCENTAGE
-				}
+				},
+				// Grid widths in twips, used by Word and Google Docs for column sizing
+				columnWidths: columnWidths
+					? columnWidths.map(width => Math.round(((TABLE_WIDTH_TWIPS - (layout?.indent || 0)) * width) / 100))
+					: undefined,
+				indent: layout?.indent ? { size: layout.indent, type: WidthType.DXA } : undefined
 			})
 		];
 	}
 
+	/**
+	 * Maps a table column's markdown alignment to a paragraph alignment.
+	 * Unaligned columns keep the default (left) alignment.
+	 */
+	private static getTableAlignment(
+		block: TableBlock,
+		column: number
+	): typeof AlignmentType[keyof typeof AlignmentType] | undefined {
+		switch (block.align?.[column]) {
+			case 'left':
+				return AlignmentType.LEFT;
+			case 'center':
+				return AlignmentType.CENTER;
+			case 'right':
+				return AlignmentType.RIGHT;
+			default:
+				return undefined;
+		}
+	}
+
 	/**
 	 * Creates blockquote paragraphs with indentation and left border.
 	 * Recursively processes nested ContentBlocks within the blockquote.
@@ -696,73 +1394,149 @@ export class DocxExporter {
 	 * Requirements: 3.10
 	 * 
 	 * @param block - The BlockquoteBlock to convert
-	 * @param settings - Plugin settings
-	 * @returns Array of Paragraph objects with blockquote formatting
+	 * @param state - The document being built, with its plugin settings
+	 * @param layout - Indentation of the enclosing list item or blockquote
+	 * @returns Paragraphs and tables with blockquote formatting
 	 */
 	private static createBlockquote(
 		block: BlockquoteBlock,
-		settings: PluginSettings
-	): Paragraph[] {
-		const paragraphs: Paragraph[] = [];
+		state: BuildState,
+		layout?: BlockLayout
+	): (Paragraph | Table)[] {
+		const elements: (Paragraph | Table)[] = [];
+		const quoteLayout: BlockLayout = {
+			indent: (layout?.indent || 0) + 720,  // 0.5 inch indentation
+			quoted: true
+		};
 
-		// Recursively process each ContentBlock in the blockquote
+		// Recursively process each ContentBlock with blockquote indentation and left border
 		for (const contentBlock of block.content) {
-			const elements = this.blockToDocx(contentBlock, settings);
-			
-			// Apply blockquote formatting to each element
-			for (const element of elements) {
-				if (element instanceof Paragraph) {
-					// Add indentation and left border to paragraphs
-					const modifiedParagraph = new Paragraph({
-						...element,
-						indent: {
-							left: 720  // 0.5 inch indentation
-						},
-						border: {
-							left: {
-								color: '999999',
-								space: 1,
-								style: BorderStyle.SINGLE,
-								size: 12
-							}
-						}
-					});
-					paragraphs.push(modifiedParagraph);
-				} else {
-					// Tables can't have borders/indentation, so just add them as-is
-					// This is a limitation of the docx format
-					paragraphs.push(
-						new Paragraph({
-							text: '[Table in blockquote - formatting limited]'
-						})
-					);
-				}
-			}
+			elements.push(...this.blockToDocx(contentBlock, state, quoteLayout));
 		}
 
-		return paragraphs;
+		return elements;
+	}
+
+	/**
+	 * Creates a callout as a single-cell table: shaded with the callout color's
+	 * tint, a thick left border, and a bold colored title with the type icon.
+	 * Word has no folding for body content, so collapsed callouts are expanded.
+	 * 
+	 * @param block - The CalloutBlock to convert
+	 * @param state - The document being built, with its plugin settings
+	 * @param layout - Indentation when nested in a list item or blockquote
+	 * @returns The callout table followed by a spacer paragraph
+	 */
+	private static createCallout(
+		block: CalloutBlock,
+		state: BuildState,
+		layout?: BlockLayout
+	): (Paragraph | Table)[] {
+		const style = CalloutStyles.get(block.calloutType);
+		const color = style.color.replace('#', '');
+		const border = { style: BorderStyle.SINGLE, size: 4, color };
+
+		const titleRuns: InlineRun[] = [new TextRun({ text: `${style.icon} `, bold: true })];
+		for (const item of block.title) {
+			titleRuns.push(...this.inlineContentToTextRuns(item, state, { bold: true, color }));
+		}
+
+		const children: (Paragraph | Table)[] = [
+			new Paragraph({
+				children: titleRuns,
+				spacing: { after: block.content.length > 0 ? 80 : 0 }
+			})
+		];
+		for (const contentBlock of block.content) {
+			children.push(...this.blockToDocx(contentBlock, state));
+		}
+
+		// A table cell must end with a paragraph
+		if (children[children.length - 1] instanceof Table) {
+			children.push(new Paragraph({}));
+		}
+
+		return [
+			new Table({
+				width: {
+					size: 100,
+					type: WidthType.PERCENTAGE
+				},
+				indent: layout?.indent ? { size: layout.indent, type: WidthType.DXA } : undefined,
+				rows: [
+					new TableRow({
+						children: [
+							new TableCell({
+								children,
+								shading: {
+									type: ShadingType.SOLID,
+									color: style.background.replace('#', '')
+								},
+								borders: {
+									top: border,
+									bottom: border,
+									right: border,
+									left: { style: BorderStyle.SINGLE, size: 24, color }
+								},
+								margins: {
+									top: 80,
+									bottom: 80,
+									left: 160,
+									right: 160
+								}
+							})
+						]
+					})
+				]
+			}),
+			// Keeps consecutive callouts from merging into one table
+			new Paragraph({})
+		];
 	}
 
 	/**
 	 * Creates image representation based on imageHandling setting.
-	 * Supports embed mode (placeholder text), link mode (hyperlink), and skip mode (omit).
+	 * Supports embed mode (the loaded image, or placeholder text if it could not
+	 * be read), link mode (hyperlink), and skip mode (omit).
 	 * 
 	 * Requirement 3.12: Handle markdown image syntax with configurable behavior
 	 * 
 	 * @param block - The ImageBlock to convert
-	 * @param settings - Plugin settings for image handling mode
+	 * @param state - The document being built, with the plugin settings for image handling mode
 	 * @returns Paragraph with image representation or empty array if skipped
 	 */
-	private static createImagePlaceholder(
+	private static createImage(
 		block: ImageBlock,
-		settings: PluginSettings
+		state: BuildState,
+		layout?: BlockLayout
 	): Paragraph {
-		switch (settings.imageHandling) {
-			case 'embed':
-				// Embed mode: Create a placeholder paragraph with image info
-				// Note: Actual image embedding would require fetching and encoding the image
-				// For now, we provide a descriptive placeholder that indicates the image location
+		switch (state.settings.imageHandling) {
+			case 'embed': {
+				const image = state.images.get(ImageLoader.getKey(block));
+				if (image) {
+					// Scale wide images down to the text width
+					const scale = Math.min(1, IMAGE_MAX_WIDTH_PX / image.width);
+					return new Paragraph({
+						...this.getLayoutOptions(layout),
+						children: [
+							new ImageRun({
+								data: image.data,
+								transformation: {
+									width: Math.max(1, Math.round(image.width * scale)),
+									height: Math.max(1, Math.round(image.height * scale))
+								},
+								altText: { name: block.alt, description: block.alt, title: block.alt }
+							})
+						],
+						spacing: {
+							before: 100,
+							after: 100
+						}
+					});
+				}
+				// Images that could not be read keep a placeholder with the image info
 				return new Paragraph({
+					...this.getLayoutOptions(layout),
 					children: [
 						new TextRun({
 							text: `[Image: ${block.alt || 'Untitled'}]`,
@@ -775,11 +1549,13 @@ export class DocxExporter {
 						after: 100
 					}
 				});
+			}
 			
 			case 'link':
 				// Link mode: Convert image to a hyperlink
 				const linkText = block.alt || 'Image';
 				return new Paragraph({
+					...this.getLayoutOptions(layout),
 					children: [
 						new ExternalHyperlink({
 							children: [
@@ -800,12 +1576,14 @@ export class DocxExporter {
 			case 'skip':
 				// Skip mode: Return empty paragraph (will be filtered out)
 				return new Paragraph({
+					...this.getLayoutOptions(layout),
 					text: ''
 				});
 			
 			default:
 				// Default to embed behavior
 				return new Paragraph({
+					...this.getLayoutOptions(layout),
 					children: [
 						new TextRun({
 							text: `[Image: ${block.alt || 'Untitled'}]`,
@@ -1,6 +1,8 @@
 import { HtmlExporter } from './htmlExporter';
 import { ParsedContent, PluginSettings } from '../types';
 import { DEFAULT_SETTINGS } from '../settings';
+import { MarkdownParser } from '../utils/markdownParser';
+import { ExportExtensions } from '../utils/exportExtensions';
 
 // Mock file-saver
 jest.mock('file-saver', () => ({
@@ -128,6 +130,35 @@ describe('HtmlExporter', () => {
       expect(html).toContain('(Flowchart)');
     });
 
+    it('should embed rendered mermaid diagrams as inline SVG with the link as caption', () => {
+      settings.mermaidOutput = 'image';
+      const block = { type: 'mermaid' as const, diagramType: 'Flowchart', code: 'graph TD', url: 'https://mermaid.live/edit#test' };
+      const diagrams = new Map([['graph TD', { svg: '<svg viewBox="0 0 100 50"></svg>' }]]);
+
+      const html = HtmlExporter.contentToHtml({ blocks: [block] }, settings, undefined, diagrams);
+      expect(html).toContain('<figure class="mermaid-diagram">\n<svg viewBox="0 0 100 50"></svg>\n<figcaption><a href="https://mermaid.live/edit#test">');
+
+      settings.mermaidImageCaption = false;
+      expect(HtmlExporter.contentToHtml({ blocks: [block] }, settings, undefined, diagrams)).not.toContain('<figcaption>');
+    });
+
+    it('should render diagrams through the renderer and fall back to the link when it fails', async () => {
+      settings.mermaidOutput = 'image';
+      const renderSvg = jest.fn(async (code: string) => {
+        if (code.startsWith('pie')) {
+          throw new Error('Parse error');
+        }
+        return '<svg viewBox="0 0 10 10"></svg>';
+      });
+      const mermaidRenderer = { renderSvg, renderPng: jest.fn() };
+
+      const diagnostics = await HtmlExporter.export('```mermaid\ngraph TD\n```\n\n```mermaid\npie\n```', 'note', settings, { mermaidRenderer });
+
+      expect(renderSvg).toHaveBeenCalledTimes(2);
+      expect(mermaidRenderer.renderPng).not.toHaveBeenCalled();
+      expect(diagnostics).toEqual([{ message: 'Could not render Pie Chart; exported as a link', position: { startLine: 5, endLine: 7 } }]);
+    });
+
     it('should convert unordered lists', () => {
       const content: ParsedContent = {
         blocks: [
@@ -143,12 +174,66 @@ describe('HtmlExporter', () => {
       };
       const html = HtmlExporter.contentToHtml(content, settings);
 
-      expect(html).toContain('<ul>');
+      expect(html).toContain('<ul style="list-style-type: disc;">');
       expect(html).toContain('<li>Item 1</li>');
       expect(html).toContain('<li>Item 2</li>');
       expect(html).toContain('</ul>');
     });
 
+    it('should add anchors to headings and blocks for fragment links', () => {
+      const content: ParsedContent = {
+        blocks: [
+          { type: 'heading', level: 2, content: [{ type: 'text', content: 'Intro' }], id: 'intro' },
+          { type: 'paragraph', content: [{ type: 'text', content: 'Key point' }], id: '^abc' },
+          { type: 'paragraph', content: [{ type: 'link', text: [{ type: 'text', content: 'back' }], url: '#intro' }] }
+        ]
+      };
+      const html = HtmlExporter.contentToHtml(content, settings);
+
+      expect(html).toContain('<h2 id="intro">Intro</h2>');
+      expect(html).toContain('<p id="^abc">Key point</p>');
+      expect(html).toContain('<a href="#intro">back</a>');
+    });
+
+    it('should render the table of contents as nested links', () => {
+      const content: ParsedContent = {
+        blocks: [
+          {
+            type: 'toc',
+            maxDepth: 3,
+            entries: [
+              { level: 1, text: 'Design', id: 'design' },
+              { level: 3, text: 'Detail', id: 'detail' },
+              { level: 2, text: 'Goals & <Scope>', id: 'goals--scope' },
+              { level: 1, text: 'Appendix', id: 'appendix' }
+            ]
+          }
+        ]
+      };
+      const html = HtmlExporter.contentToHtml(content, settings);
+
+      expect(html).toContain('<body>');
+      expect(html).toContain(
+        '<nav class="toc">\n<p class="toc-title">Contents</p>\n'
+        + '<ul>\n<li><a href="#design">Design</a><ul>\n<li><a href="#detail">Detail</a></li>\n</ul>\n'
+        + '<ul>\n<li><a href="#goals--scope">Goals &amp; &lt;Scope&gt;</a></li>\n</ul>\n</li>\n'
+        + '<li><a href="#appendix">Appendix</a></li>\n</ul>\n</nav>'
+      );
+    });
+
+    it('should render the table of contents as a sidebar when enabled', () => {
+      settings.tocSidebar = true;
+      const content: ParsedContent = {
+        blocks: [
+          { type: 'toc', maxDepth: 3, entries: [{ level: 1, text: 'Design', id: 'design' }] }
+        ]
+      };
+      const html = HtmlExporter.contentToHtml(content, settings);
+
+      expect(html).toContain('<body class="has-toc-sidebar">');
+      expect(html).toContain('<nav class="toc toc-sidebar">');
+    });
+
     it('should convert ordered lists', () => {
       const content: ParsedContent = {
         blocks: [
@@ -164,12 +249,92 @@ describe('HtmlExporter', () => {
       };
       const html = HtmlExporter.contentToHtml(content, settings);
 
-      expect(html).toContain('<ol>');
+      expect(html).toContain('<ol style="list-style-type: decimal;">');
       expect(html).toContain('<li>First</li>');
       expect(html).toContain('<li>Second</li>');
       expect(html).toContain('</ol>');
     });
 
+    it('should style list levels from the list settings', () => {
+      settings.listNumberFormats = ['upper-roman', 'legal'];
+      settings.listBulletGlyphs = ['➤'];
+      const content: ParsedContent = {
+        blocks: [
+          {
+            type: 'list',
+            ordered: true,
+            start: 2,
+            items: [
+              {
+                content: [{ type: 'text', content: 'Parent' }],
+                children: { type: 'list', ordered: true, items: [{ content: [{ type: 'text', content: 'Child' }] }] }
+              }
+            ]
+          },
+          { type: 'list', ordered: false, items: [{ content: [{ type: 'text', content: 'Bullet' }] }] }
+        ]
+      };
+      const html = HtmlExporter.contentToHtml(content, settings);
+
+      expect(html).toContain('<ol start="2" style="list-style-type: upper-roman;">');
+      expect(html).toContain('<li style="list-style-type: &#039;2.1. &#039;;">Child</li>');
+      expect(html).toContain('<ul style="list-style-type: &#039;➤ &#039;;">');
+    });
+
+    it('should keep the start number of ordered lists', () => {
+      const content: ParsedContent = {
+        blocks: [
+          { type: 'list', ordered: true, start: 5, items: [{ content: [{ type: 'text', content: 'Five' }] }] },
+          { type: 'list', ordered: true, start: 1, items: [{ content: [{ type: 'text', content: 'One' }] }] }
+        ]
+      };
+      const html = HtmlExporter.contentToHtml(content, settings);
+
+      expect(html).toContain('<ol start="5" style="list-style-type: decimal;">');
+      expect(html).toContain('<ol style="list-style-type: decimal;">');
+    });
+
+    it('should convert task list items to checkboxes', () => {
+      const content: ParsedContent = {
+        blocks: [
+          {
+            type: 'list',
+            ordered: false,
+            items: [
+              { content: [{ type: 'text', content: 'Open' }], checked: false },
+              { content: [{ type: 'text', content: 'Done' }], checked: true }
+            ]
+          }
+        ]
+      };
+      const html = HtmlExporter.contentToHtml(content, settings);
+
+      expect(html).toContain('<ul class="contains-task-list" style="list-style-type: disc;">');
+      expect(html).toContain('<li class="task-list-item"><input type="checkbox" disabled> Open</li>');
+      expect(html).toContain('<li class="task-list-item"><input type="checkbox" disabled checked> Done</li>');
+    });
+
+    it('should keep the list style for normal items in a mixed task list', () => {
+      const content: ParsedContent = {
+        blocks: [
+          {
+            type: 'list',
+            ordered: true,
+            items: [
+              { content: [{ type: 'text', content: 'Open' }], checked: false },
+              { content: [{ type: 'text', content: 'Plain' }] }
+            ]
+          }
+        ]
+      };
+      settings.listNumberFormats = ['lower-roman'];
+      const html = HtmlExporter.contentToHtml(content, settings);
+
+      expect(html).toContain('<ol class="contains-task-list" style="list-style-type: lower-roman;">');
+      expect(html).toContain('<li class="task-list-item"><input type="checkbox" disabled> Open</li>');
+      expect(html).toContain('<li>Plain</li>');
+    });
+
     it('should convert nested lists', () => {
       const content: ParsedContent = {
         blocks: [
@@ -195,7 +360,30 @@ describe('HtmlExporter', () => {
 
       expect(html).toContain('Parent');
       expect(html).toContain('Child');
-      expect((html.match(/<ul>/g) || []).length).toBe(2);
+      expect((html.match(/<ul[ >]/g) || []).length).toBe(2);
+      expect(html).toContain('<ul style="list-style-type: circle;">');
+    });
+
+    it('should render further blocks of a list item inside the item', () => {
+      const content: ParsedContent = {
+        blocks: [
+          {
+            type: 'list',
+            ordered: true,
+            items: [
+              {
+                content: [{ type: 'text', content: 'Step' }],
+                blocks: [{ type: 'code', language: null, content: 'npm install' }]
+              },
+              { content: [{ type: 'text', content: 'Next' }] }
+            ]
+          }
+        ]
+      };
+      const html = HtmlExporter.contentToHtml(content, settings);
+
+      expect(html).toMatch(/<li>Step\n?<pre[^>]*><code>npm install<\/code><\/pre>\n?<\/li>/);
+      expect((html.match(/<ol[ >]/g) || []).length).toBe(1);
     });
 
     it('should convert tables', () => {
@@ -228,6 +416,61 @@ describe('HtmlExporter', () => {
       expect(html).toContain('</table>');
     });
 
+    it('should apply table column alignment and widths', () => {
+      const content: ParsedContent = {
+        blocks: [
+          {
+            type: 'table',
+            headers: [
+              [{ type: 'text', content: 'Item' }],
+              [{ type: 'text', content: 'Qty' }]
+            ],
+            rows: [
+              [
+                [{ type: 'text', content: 'Apples' }],
+                [{ type: 'text', content: '3' }]
+              ]
+            ],
+            align: [null, 'right'],
+            columnWidths: [70, 30]
+          }
+        ]
+      };
+      const html = HtmlExporter.contentToHtml(content, settings);
+
+      expect(html).toContain('<colgroup><col style="width: 70%;"><col style="width: 30%;"></colgroup>');
+      expect(html).toContain('<th style="text-align: right;">Qty</th>');
+      expect(html).toContain('<td style="text-align: right;">3</td>');
+    });
+
+    it('should convert callouts', () => {
+      const content: ParsedContent = {
+        blocks: [
+          {
+            type: 'callout',
+            calloutType: 'caution',
+            title: [{ type: 'text', content: 'Careful' }],
+            content: [{ type: 'paragraph', content: [{ type: 'text', content: 'Body' }] }]
+          },
+          {
+            type: 'callout',
+            calloutType: 'note',
+            title: [{ type: 'text', content: 'Folded' }],
+            collapsed: true,
+            content: []
+          }
+        ]
+      };
+      const html = HtmlExporter.contentToHtml(content, settings);
+
+      expect(html).toContain('<aside class="callout callout-warning" data-callout="caution">');
+      expect(html).toContain('<p class="callout-title">⚠️ Careful</p>');
+      expect(html).toContain('<p>Body</p>');
+      expect(html).toContain('<details class="callout callout-note" data-callout="note">');
+      expect(html).toContain('<summary class="callout-title">📝 Folded</summary>');
+      expect(html).toContain('.callout-warning { border-color: #ff9100;');
+    });
+
     it('should convert blockquotes', () => {
       const content: ParsedContent = {
         blocks: [
@@ -291,9 +534,157 @@ describe('HtmlExporter', () => {
       expect(html).not.toContain('<img');
       expect(html).not.toContain('My Image');
     });
+
+    it('should convert images within text in each image handling mode', () => {
+      const content: ParsedContent = {
+        blocks: [{
+          type: 'paragraph',
+          content: [
+            { type: 'text', content: 'Build ' },
+            { type: 'image', alt: 'passing', url: 'https://example.com/badge.svg' }
+          ]
+        }]
+      };
+
+      settings.imageHandling = 'embed';
+      expect(HtmlExporter.contentToHtml(content, settings))
+        .toContain('<p>Build <img src="https://example.com/badge.svg" alt="passing" class="inline-image"></p>');
+
+      settings.imageHandling = 'link';
+      expect(HtmlExporter.contentToHtml(content, settings))
+        .toContain('<p>Build <a href="https://example.com/badge.svg">passing</a></p>');
+
+      settings.imageHandling = 'skip';
+      expect(HtmlExporter.contentToHtml(content, settings)).toContain('<p>Build </p>');
+    });
+  });
+
+  describe('metadata', () => {
+    it('should use frontmatter metadata for title and meta tags', () => {
+      const content: ParsedContent = {
+        blocks: [],
+        metadata: {
+          title: 'Design <Doc>',
+          author: 'Jane',
+          description: 'Summary',
+          tags: ['a', 'b'],
+          date: '2024-01-15',
+          properties: {}
+        }
+      };
+      const html = HtmlExporter.contentToHtml(content, settings);
+
+      expect(html).toContain('<title>Design &lt;Doc&gt;</title>');
+      expect(html).toContain('<meta name="author" content="Jane">');
+      expect(html).toContain('<meta name="description" content="Summary">');
+      expect(html).toContain('<meta name="keywords" content="a, b">');
+      expect(html).toContain('<meta name="date" content="2024-01-15">');
+    });
+  });
+
+  describe('footnotes', () => {
+    it('should render footnote references and numbered endnotes with back-links', () => {
+      const content: ParsedContent = {
+        blocks: [
+          {
+            type: 'paragraph',
+            content: [
+              { type: 'text', content: 'Claim' },
+              { type: 'footnoteRef', id: 'src', index: 1 }
+            ]
+          }
+        ],
+        footnotes: [
+          {
+            id: 'src',
+            index: 1,
+            content: [{ type: 'paragraph', content: [{ type: 'text', content: 'Source' }] }]
+          }
+        ]
+      };
+      const html = HtmlExporter.contentToHtml(content, settings);
+
+      expect(html).toMatch(/<sup[^>]*><a href="#fn-1" id="fnref-1">1<\/a><\/sup>/);
+      expect(html).toContain('<li id="fn-1">');
+      expect(html).toMatch(/Source <a href="#fnref-1"[^>]*>↩<\/a><\/p>/);
+    });
+
+    it('should give repeated references distinct ids and link back to the first', () => {
+      const ref = { type: 'footnoteRef' as const, id: 'src', index: 1 };
+      const content: ParsedContent = {
+        blocks: [{ type: 'paragraph', content: [ref, { type: 'text', content: ' and ' }, ref] }],
+        footnotes: [{ id: 'src', index: 1, content: [{ type: 'paragraph', content: [{ type: 'text', content: 'Source' }] }] }]
+      };
+      const html = HtmlExporter.contentToHtml(content, settings);
+
+      expect(html.match(/id="fnref-1"/g)).toHaveLength(1);
+      expect(html).toContain('id="fnref-1-2"');
+      expect(html).toMatch(/Source <a href="#fnref-1"[^>]*>↩<\/a><\/p>/);
+    });
+
+    it('should not render an endnotes section without footnotes', () => {
+      const content: ParsedContent = { blocks: [] };
+      const html = HtmlExporter.contentToHtml(content, settings);
+
+      expect(html).not.toContain('fn-');
+    });
+  });
+
+  describe('math', () => {
+    it('should render inline and block math as MathML', () => {
+      const content: ParsedContent = {
+        blocks: [
+          { type: 'paragraph', content: [{ type: 'math', latex: 'x^2' }] },
+          { type: 'math', latex: '\\frac{a}{b}' }
+        ]
+      };
+      const html = HtmlExporter.contentToHtml(content, settings);
+
+      expect(html).toContain('<math xmlns="http://www.w3.org/1998/Math/MathML"><semantics><mrow><msup><mi>x</mi><mn>2</mn></msup></mrow>');
+      expect(html).toContain('<math xmlns="http://www.w3.org/1998/Math/MathML" display="block">');
+      expect(html).toContain('<mfrac><mi>a</mi><mi>b</mi></mfrac>');
+    });
+
+    it('should fall back to the LaTeX source for unsupported commands', () => {
+      const content: ParsedContent = {
+        blocks: [
+          { type: 'paragraph', content: [{ type: 'math', latex: '\\unknown{x}' }] },
+          { type: 'math', latex: '\\unknown<y>' }
+        ]
+      };
+      const html = HtmlExporter.contentToHtml(content, settings);
+
+      expect(html).not.toContain('<math');
+      expect(html).toMatch(/<code[^>]*>\\unknown\{x\}<\/code>/);
+      expect(html).toMatch(/<pre[^>]*><code>\\unknown&lt;y&gt;<\/code><\/pre>/);
+    });
   });
 
   describe('inline content conversion', () => {
+    it('should convert highlight, underline, superscript, subscript, and keyboard input', () => {
+      const content: ParsedContent = {
+        blocks: [
+          {
+            type: 'paragraph',
+            content: [
+              { type: 'highlight', content: [{ type: 'text', content: 'hl' }] },
+              { type: 'underline', content: [{ type: 'text', content: 'ul' }] },
+              { type: 'superscript', content: [{ type: 'text', content: 'up' }] },
+              { type: 'subscript', content: [{ type: 'text', content: 'down' }] },
+              { type: 'keyboard', content: 'Ctrl' }
+            ]
+          }
+        ]
+      };
+      const html = HtmlExporter.contentToHtml(content, settings);
+
+      expect(html).toMatch(/<mark[^>]*>hl<\/mark>/);
+      expect(html).toContain('<u>ul</u>');
+      expect(html).toContain('<sup>up</sup>');
+      expect(html).toContain('<sub>down</sub>');
+      expect(html).toMatch(/<kbd[^>]*>Ctrl<\/kbd>/);
+    });
+
     it('should convert bold text', () => {
       const content: ParsedContent = {
         blocks: [
@@ -434,6 +825,43 @@ describe('HtmlExporter', () => {
     });
   });
 
+  describe('custom blocks', () => {
+    const risk = { type: 'custom' as const, name: 'risk', data: { level: 'high' }, position: { startLine: 2, endLine: 4 } };
+
+    it('should render custom blocks with the registered renderer', () => {
+      const extensions = new ExportExtensions();
+      extensions.registerRenderer('html', 'risk', (block, context) => [
+        `<div class="risk">${(block.data as any).level}</div>`,
+        ...context.renderBlocks([{ type: 'paragraph', content: [{ type: 'text', content: 'Mitigate' }] }])
+      ]);
+
+      const html = HtmlExporter.contentToHtml({ blocks: [risk] }, settings, extensions);
+
+      expect(html).toContain('<div class="risk">high</div><p>Mitigate</p>');
+    });
+
+    it('should export the fallback blocks without a renderer', () => {
+      const html = HtmlExporter.contentToHtml({
+        blocks: [{ ...risk, fallback: [{ type: 'paragraph', content: [{ type: 'text', content: 'Risk: high' }] }] }]
+      }, settings);
+
+      expect(html).toContain('<p>Risk: high</p>');
+    });
+
+    it('should report custom blocks it cannot draw', async () => {
+      const parse = jest.spyOn(MarkdownParser.prototype, 'parse').mockReturnValue({ blocks: [risk] });
+
+      try {
+        expect(await HtmlExporter.export('ignored', 'note', settings)).toEqual([{
+          message: "No html renderer for custom block 'risk'",
+          position: { startLine: 2, endLine: 4 }
+        }]);
+      } finally {
+        parse.mockRestore();
+      }
+    });
+  });
+
   describe('graceful degradation', () => {
     it('should handle unknown block types gracefully', () => {
       const content: ParsedContent = {
@@ -447,5 +875,49 @@ describe('HtmlExporter', () => {
       expect(html).toContain('<!DOCTYPE html>');
       expect(html).toContain('</html>');
     });
+
+    it('should name the source lines of blocks that fail to render', () => {
+      const content: ParsedContent = {
+        blocks: [
+          { type: 'table', headers: null, rows: [], position: { startLine: 3, endLine: 5 } } as any
+        ]
+      };
+      const html = HtmlExporter.contentToHtml(content, settings);
+
+      expect(html).toContain('[Error rendering table block at lines 3-5]');
+    });
+
+    it('should return the problems found while exporting', async () => {
+      const parse = jest.spyOn(MarkdownParser.prototype, 'parse').mockReturnValue({
+        blocks: [
+          { type: 'paragraph', content: [{ type: 'text', content: 'Fine' }], position: { startLine: 1, endLine: 1 } },
+          { type: 'table', headers: null, rows: [], position: { startLine: 3, endLine: 5 } } as any
+        ]
+      });
+
+      try {
+        const diagnostics = await HtmlExporter.export('ignored', 'note', settings);
+
+        expect(diagnostics).toEqual([{
+          message: expect.stringMatching(/^Could not render table block/),
+          position: { startLine: 3, endLine: 5 }
+        }]);
+      } finally {
+        parse.mockRestore();
+      }
+
+      expect(await HtmlExporter.export('Fine', 'note', settings)).toEqual([]);
+    });
+
+    it('should include the problems found while parsing', async () => {
+      const extensions = new ExportExtensions();
+      extensions.registerFenceHandler('adr', () => { throw new Error('Bad ADR'); });
+
+      const diagnostics = await HtmlExporter.export('Intro\n\n```adr\ny\n```', 'note', settings, { extensions });
+
+      expect(diagnostics).toEqual([
+        { message: 'Could not render adr block: Bad ADR; exported as code', position: { startLine: 3, endLine: 5 } }
+      ]);
+    });
   });
 });
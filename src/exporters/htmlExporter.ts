@@ -10,10 +10,44 @@ import {
 	ListBlock,
 	TableBlock,
 	BlockquoteBlock,
+	CalloutBlock,
 	ImageBlock,
-	PluginSettings
+	ImageContent,
+	MathBlock,
+	TableOfContentsBlock,
+	CustomBlock,
+	TocEntry,
+	FootnoteDefinition,
+	DocumentMetadata,
+	PluginSettings,
+	ExportContext,
+	ExportDiagnostic
 } from '../types';
 import { MarkdownParser } from '../utils/markdownParser';
+import { LatexConverter } from '../utils/latexConverter';
+import { CalloutStyles } from '../utils/calloutStyles';
+import { ListStyles } from '../utils/listStyles';
+import { Diagnostics } from '../utils/diagnostics';
+import { ExportExtensions } from '../utils/exportExtensions';
+import { MermaidDiagrams, RenderedDiagram } from '../utils/mermaidRenderer';
+import { MermaidEncoder } from '../utils/mermaidEncoder';
+
+/**
+ * The document being rendered by one export, created by render and passed
+ * through the render methods.
+ */
+interface RenderState {
+	/** Plugin settings of the export */
+	settings: PluginSettings;
+	/** Registered block renderers for custom blocks */
+	extensions: ExportExtensions | undefined;
+	/** Rendered Mermaid diagrams by code */
+	diagrams: Map<string, RenderedDiagram>;
+	/** Number of references to each footnote so far */
+	footnoteRefs: Map<number, number>;
+	/** Problems found while parsing and rendering the document */
+	diagnostics: ExportDiagnostic[];
+}
 
 /**
  * HtmlExporter generates HTML files from parsed markdown content.
@@ -28,27 +62,37 @@ export class HtmlExporter {
 	 * @param markdown - The markdown content to export
 	 * @param filename - The output filename (without extension)
 	 * @param settings - Plugin settings for formatting preferences
+	 * @param context - Runtime information about the exported note
+	 * @returns Problems found while exporting, with their source lines
 	 */
 	static async export(
 		markdown: string,
 		filename: string,
-		settings: PluginSettings
-	): Promise<void> {
+		settings: PluginSettings,
+		context: ExportContext = {}
+	): Promise<ExportDiagnostic[]> {
 		try {
 			// Requirement 7.1: Handle empty note gracefully
 			const content = markdown || '';
 			
 			// Parse markdown into structured content
-			const parser = new MarkdownParser(settings);
+			const parser = new MarkdownParser(settings, { ...context, exportExtension: 'html' });
 			const parsedContent = parser.parse(content);
 
+			// Render Mermaid diagrams to SVG when they are exported as images
+			const diagrams = settings.mermaidOutput === 'image'
+				? await new MermaidDiagrams(context.mermaidRenderer).render(parsedContent, false)
+				: new Map<string, RenderedDiagram>();
+
 			// Convert to HTML with proper styling
-			const html = this.contentToHtml(parsedContent, settings);
+			const { html, diagnostics } = this.render(parsedContent, settings, context.extensions, diagrams);
 
 			// Create blob and save file
 			const blob = new Blob([html], { type: 'text/html;charset=utf-8' });
 			const outputFilename = filename.endsWith('.html') ? filename : `${filename}.html`;
 			saveAs(blob, outputFilename);
+
+			return diagnostics;
 			
 		} catch (error) {
 			// Re-throw with more context
@@ -66,32 +110,96 @@ export class HtmlExporter {
 	 * 
 	 * @param content - The parsed content structure
 	 * @param settings - Plugin settings for formatting
+	 * @param extensions - Registered block renderers for custom blocks
+	 * @param diagrams - Rendered Mermaid diagrams by code
 	 * @returns Complete HTML document string
 	 */
 	static contentToHtml(
 		content: ParsedContent,
-		settings: PluginSettings
+		settings: PluginSettings,
+		extensions?: ExportExtensions,
+		diagrams: Map<string, RenderedDiagram> = new Map()
 	): string {
+		return this.render(content, settings, extensions, diagrams).html;
+	}
+
+	/**
+	 * Renders ParsedContent to an HTML document, collecting the problems
+	 * found on the way.
+	 *
+	 * @param content - The parsed content structure
+	 * @param settings - Plugin settings for formatting
+	 * @param extensions - Registered block renderers for custom blocks
+	 * @param diagrams - Rendered Mermaid diagrams by code
+	 * @returns The HTML document, and the problems found while parsing and rendering it
+	 */
+	private static render(
+		content: ParsedContent,
+		settings: PluginSettings,
+		extensions: ExportExtensions | undefined,
+		diagrams: Map<string, RenderedDiagram>
+	): { html: string; diagnostics: ExportDiagnostic[] } {
+		const state: RenderState = {
+			settings,
+			extensions,
+			diagrams,
+			footnoteRefs: new Map(),
+			diagnostics: content.diagnostics ? [...content.diagnostics] : []
+		};
+
 		// Build HTML with proper document structure and styling
 		let html = '<!DOCTYPE html>\n';
 		html += '<html lang="en">\n';
 		html += '<head>\n';
 		html += '  <meta charset="utf-8">\n';
 		html += '  <meta name="viewport" content="width=device-width, initial-scale=1.0">\n';
-		html += '  <title>Exported Document</title>\n';
+		html += this.metadataToHtml(content.metadata);
 		html += '  <style>\n';
-		html += this.getEmbeddedStyles(settings);
+		html += this.getEmbeddedStyles(state);
 		html += '  </style>\n';
 		html += '</head>\n';
-		html += '<body>\n';
+
+		// The sidebar table of contents needs room next to the content
+		const hasSidebar = settings.tocSidebar && content.blocks.some(block => block.type === 'toc');
+		html += hasSidebar ? '<body class="has-toc-sidebar">\n' : '<body>\n';
 
 		// Convert each block to HTML
 		for (const block of content.blocks) {
-			html += this.blockToHtml(block, settings);
+			html += this.blockToHtml(block, state);
+		}
+
+		// Numbered endnotes for footnote definitions
+		if (content.footnotes && content.footnotes.length > 0) {
+			html += this.footnotesToHtml(content.footnotes, state);
 		}
 
 		html += '</body>\n';
 		html += '</html>';
+		return { html, diagnostics: state.diagnostics };
+	}
+
+	/**
+	 * Generates the <title> and <meta> tags from frontmatter metadata.
+	 * 
+	 * @param metadata - Document metadata, if the note has frontmatter
+	 * @returns HTML head elements
+	 */
+	private static metadataToHtml(metadata: DocumentMetadata | undefined): string {
+		const title = metadata?.title || 'Exported Document';
+		let html = `  <title>${this.escapeHtml(title)}</title>\n`;
+
+		const metaTags: [string, string | undefined][] = [
+			['author', metadata?.author],
+			['description', metadata?.description],
+			['keywords', metadata?.tags?.join(', ')],
+			['date', metadata?.date]
+		];
+		for (const [name, value] of metaTags) {
+			if (value) {
+				html += `  <meta name="${name}" content="${this.escapeHtml(value)}">\n`;
+			}
+		}
+
 		return html;
 	}
 
@@ -99,10 +207,10 @@ export class HtmlExporter {
 	 * Generates embedded CSS styles for the HTML document.
 	 * Provides clean, readable styling for all content types.
 	 * 
-	 * @param settings - Plugin settings for code block styling
+	 * @param state - The document being rendered, with the plugin settings for code block styling
 	 * @returns CSS string
 	 */
-	private static getEmbeddedStyles(settings: PluginSettings): string {
+	private static getEmbeddedStyles(state: RenderState): string {
 		return `
     body {
       font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;
@@ -136,15 +244,15 @@ export class HtmlExporter {
       text-decoration: underline;
     }
     code {
-      font-family: ${settings.codeBlockFont}, 'Courier New', monospace;
+      font-family: ${state.settings.codeBlockFont}, 'Courier New', monospace;
       background-color: rgba(27, 31, 35, 0.05);
       padding: 0.2em 0.4em;
       border-radius: 3px;
       font-size: 85%;
     }
     pre {
-      font-family: ${settings.codeBlockFont}, 'Courier New', monospace;
-      background-color: ${settings.codeBlockBackground};
+      font-family: ${state.settings.codeBlockFont}, 'Courier New', monospace;
+      background-color: ${state.settings.codeBlockBackground};
       padding: 16px;
       overflow: auto;
       border-radius: 6px;
@@ -191,6 +299,13 @@ export class HtmlExporter {
     li {
       margin-bottom: 4px;
     }
+    .task-list-item {
+      list-style-type: none;
+    }
+    .task-list-item input[type="checkbox"] {
+      margin: 0 0.4em 0 -1.4em;
+      vertical-align: middle;
+    }
     hr {
       height: 0.25em;
       padding: 0;
@@ -204,10 +319,111 @@ export class HtmlExporter {
       display: block;
       margin: 16px 0;
     }
+    img.inline-image {
+      display: inline;
+      height: 1.2em;
+      width: auto;
+      margin: 0;
+      vertical-align: middle;
+    }
+    kbd {
+      font-family: ${state.settings.codeBlockFont}, monospace;
+      font-size: 0.85em;
+      padding: 0.1em 0.4em;
+      border: 1px solid #d1d5da;
+      border-radius: 3px;
+      background-color: ${state.settings.codeBlockBackground};
+    }
     .mermaid-link {
       margin: 16px 0;
     }
-`;
+    .mermaid-diagram {
+      margin: 16px 0;
+      text-align: center;
+    }
+    .mermaid-diagram svg {
+      max-width: 100%;
+      height: auto;
+    }
+    .mermaid-diagram figcaption {
+      font-size: 0.85em;
+    }
+    .math-block {
+      margin: 16px 0;
+      text-align: center;
+      overflow-x: auto;
+    }
+    .footnotes {
+      font-size: 0.875em;
+      color: #6a737d;
+    }
+    .footnote-ref a,
+    .footnote-backref {
+      text-decoration: none;
+    }
+    .callout {
+      margin: 16px 0;
+      padding: 12px 16px;
+      border: 1px solid;
+      border-left-width: 4px;
+      border-radius: 4px;
+    }
+    .callout-title {
+      margin: 0 0 8px 0;
+      font-weight: 600;
+    }
+    .callout > :last-child {
+      margin-bottom: 0;
+    }
+    details.callout > summary {
+      cursor: pointer;
+    }
+    details.callout:not([open]) > summary {
+      margin-bottom: 0;
+    }
+    .toc {
+      margin-bottom: 24px;
+      padding: 12px 16px;
+      background-color: #f6f8fa;
+      border-radius: 6px;
+    }
+    .toc-title {
+      margin-bottom: 8px;
+      font-weight: 600;
+    }
+    .toc ul {
+      list-style-type: none;
+      margin: 0;
+      padding-left: 1.2em;
+    }
+    .toc > ul {
+      padding-left: 0;
+    }
+    .toc-sidebar {
+      position: fixed;
+      top: 0;
+      bottom: 0;
+      left: 0;
+      width: 240px;
+      margin: 0;
+      overflow-y: auto;
+      border-radius: 0;
+      border-right: 1px solid #eaecef;
+    }
+    body.has-toc-sidebar {
+      margin-left: 300px;
+    }
+    @media (max-width: 900px) {
+      .toc-sidebar {
+        position: static;
+        width: auto;
+        border-right: none;
+      }
+      body.has-toc-sidebar {
+        margin-left: auto;
+      }
+    }
+${this.getCalloutStyles()}`;
 	}
 
 	/**
@@ -216,61 +432,95 @@ export class HtmlExporter {
 	 * Requirements: 7.1, 7.2, 7.3, 8.2
 	 * 
 	 * @param block - The ContentBlock to convert
-	 * @param settings - Plugin settings for formatting
+	 * @param state - The document being rendered, with the plugin settings for formatting
 	 * @returns HTML string
 	 */
 	private static blockToHtml(
 		block: ContentBlock,
-		settings: PluginSettings
+		state: RenderState
 	): string {
 		try {
 			switch (block.type) {
 				case 'heading':
-					return this.headingToHtml(block, settings);
+					return this.headingToHtml(block, state);
 				
 				case 'paragraph':
-					return this.paragraphToHtml(block, settings);
+					return this.paragraphToHtml(block, state);
 				
 				case 'code':
-					return this.codeBlockToHtml(block, settings);
+					return this.codeBlockToHtml(block, state);
 				
 				case 'mermaid':
-					return this.mermaidToHtml(block, settings);
+					return this.mermaidToHtml(block, state);
 				
 				case 'list':
-					return this.listToHtml(block, settings);
+					return this.listToHtml(block, state);
 				
 				case 'table':
-					return this.tableToHtml(block, settings);
+					return this.tableToHtml(block, state);
 				
 				case 'blockquote':
-					return this.blockquoteToHtml(block, settings);
+					return this.blockquoteToHtml(block, state);
+				
+				case 'callout':
+					return this.calloutToHtml(block, state);
 				
 				case 'hr':
 					return '<hr>\n';
 				
 				case 'image':
-					return this.imageToHtml(block, settings);
+					return this.imageToHtml(block, state);
+				
+				case 'math':
+					return this.mathBlockToHtml(block);
+				
+				case 'toc':
+					return this.tocToHtml(block, state);
+				
+				case 'custom':
+					return this.customBlockToHtml(block, state);
 				
 				default:
 					// Unknown block type - skip silently
 					return '';
 			}
-		} catch {
-			// Graceful degradation: return paragraph with error message
-			return `<p style="color: #999; font-style: italic;">[Error rendering ${block.type} block]</p>\n`;
+		} catch (error) {
+			// Graceful degradation: report the block's lines and return paragraph with error message
+			state.diagnostics.push(Diagnostics.renderError(block, error));
+			return `<p style="color: #999; font-style: italic;">${this.escapeHtml(Diagnostics.getPlaceholder(block))}</p>\n`;
 		}
 	}
 
+	/**
+	 * Converts a CustomBlock to HTML with the renderer registered for its name,
+	 * falling back to its built-in fallback blocks.
+	 */
+	private static customBlockToHtml(
+		block: CustomBlock,
+		state: RenderState
+	): string {
+		const renderBlocks = (blocks: ContentBlock[]) => blocks.map(contentBlock => this.blockToHtml(contentBlock, state));
+		const renderer = state.extensions?.getRenderer('html', block.name);
+		if (renderer) {
+			return renderer(block, { settings: state.settings, renderBlocks }).join('');
+		}
+
+		if (!block.fallback) {
+			state.diagnostics.push(Diagnostics.missingRenderer(block, 'html'));
+			return '';
+		}
+		return renderBlocks(block.fallback).join('');
+	}
+
 	/**
 	 * Converts a HeadingBlock to HTML.
 	 */
 	private static headingToHtml(
 		block: HeadingBlock,
-		settings: PluginSettings
+		state: RenderState
 	): string {
-		const content = this.inlineToHtml(block.content, settings);
-		return `<h${block.level}>${content}</h${block.level}>\n`;
+		const content = this.inlineToHtml(block.content, state);
+		return `<h${block.level}${this.idToHtml(block.id)}>${content}</h${block.level}>\n`;
 	}
 
 	/**
@@ -278,10 +528,17 @@ export class HtmlExporter {
 	 */
 	private static paragraphToHtml(
 		block: ParagraphBlock,
-		settings: PluginSettings
+		state: RenderState
 	): string {
-		const content = this.inlineToHtml(block.content, settings);
-		return `<p>${content}</p>\n`;
+		const content = this.inlineToHtml(block.content, state);
+		return `<p${this.idToHtml(block.id)}>${content}</p>\n`;
+	}
+
+	/**
+	 * Returns the id attribute for a heading or block anchor, the target of '#anchor' links.
+	 */
+	private static idToHtml(id?: string): string {
+		return id ? ` id="${this.escapeHtml(id)}"` : '';
 	}
 
 	/**
@@ -289,12 +546,12 @@ export class HtmlExporter {
 	 */
 	private static codeBlockToHtml(
 		block: CodeBlock,
-		settings: PluginSettings
+		state: RenderState
 	): string {
 		let html = '';
 
 		// Add language label if enabled and language exists
-		if (settings.includeLanguageLabel && block.language) {
+		if (state.settings.includeLanguageLabel && block.language) {
 			html += `<div class="code-language-label">${this.escapeHtml(block.language)}</div>\n`;
 		}
 
@@ -305,38 +562,162 @@ export class HtmlExporter {
 	}
 
 	/**
-	 * Converts a MermaidBlock to HTML hyperlink.
+	 * Converts a MermaidBlock to HTML hyperlink, or to the rendered diagram as
+	 * inline SVG with the link as an optional caption when diagrams are
+	 * exported as images.
 	 */
 	private static mermaidToHtml(
 		block: MermaidBlock,
-		settings: PluginSettings
+		state: RenderState
+	): string {
+		const linkText = MermaidEncoder.formatLinkText(block, state.settings);
+		const link = `<a href="${this.escapeHtml(block.url)}">${this.escapeHtml(linkText)}</a>`;
+
+		if (state.settings.mermaidOutput === 'image') {
+			const diagram = state.diagrams.get(block.code);
+			if (diagram) {
+				const caption = state.settings.mermaidImageCaption ? `\n<figcaption>${link}</figcaption>` : '';
+				return `<figure class="mermaid-diagram">\n${diagram.svg}${caption}\n</figure>\n`;
+			}
+			state.diagnostics.push(Diagnostics.diagramNotRendered(block));
+		}
+
+		return `<p class="mermaid-link">${link}</p>\n`;
+	}
+
+	/**
+	 * Converts a MathBlock to display MathML, or to its LaTeX source in a
+	 * code block if it cannot be converted.
+	 */
+	private static mathBlockToHtml(block: MathBlock): string {
+		try {
+			return `<div class="math-block">${LatexConverter.toMathML(block.latex, true)}</div>\n`;
+		} catch {
+			return `<pre class="math-source"><code>${this.escapeHtml(block.latex)}</code></pre>\n`;
+		}
+	}
+
+	/**
+	 * Builds the per-type callout color rules.
+	 */
+	private static getCalloutStyles(): string {
+		return CalloutStyles.getTypes()
+			.map(type => {
+				const style = CalloutStyles.get(type);
+				return `    .callout-${type} { border-color: ${style.color}; background-color: ${style.background}; }\n`
+					+ `    .callout-${type} > .callout-title { color: ${style.color}; }\n`;
+			})
+			.join('');
+	}
+
+	/**
+	 * Returns the start attribute for ordered lists that don't count from 1.
+	 */
+	private static listStartToHtml(block: ListBlock): string {
+		return block.ordered && block.start !== undefined && block.start !== 1
+			? ` start="${block.start}"`
+			: '';
+	}
+
+	/**
+	 * Converts a TableOfContentsBlock to a nav of nested links to the headings.
+	 * With settings.tocSidebar the nav stays fixed beside the content.
+	 */
+	private static tocToHtml(
+		block: TableOfContentsBlock,
+		state: RenderState
 	): string {
-		// Build link text: base text + optional diagram type
-		let linkText = settings.mermaidLinkText;
-		if (settings.includeMermaidType && block.diagramType) {
-			linkText = `${linkText} (${block.diagramType})`;
+		let html = `<nav class="toc${state.settings.tocSidebar ? ' toc-sidebar' : ''}">\n<p class="toc-title">Contents</p>\n`;
+		html += this.tocEntriesToHtml(block.entries, '\n');
+		html += '</nav>\n';
+		return html;
+	}
+
+	/**
+	 * Nests table of contents entries into lists by heading level.
+	 * Skipped levels (H1 followed by H3) nest one list deeper.
+	 */
+	private static tocEntriesToHtml(entries: TocEntry[], newline: string): string {
+		let html = '';
+		const levels: number[] = [];
+
+		for (const entry of entries) {
+			// Close the lists of deeper headings
+			while (levels.length > 0 && entry.level < levels[levels.length - 1]) {
+				html += `</li>${newline}</ul>${newline}`;
+				levels.pop();
+			}
+
+			if (levels.length === 0 || entry.level > levels[levels.length - 1]) {
+				html += `<ul>${newline}`;
+				levels.push(entry.level);
+			} else {
+				html += `</li>${newline}`;
+			}
+
+			html += `<li><a href="#${this.escapeHtml(entry.id)}">${this.escapeHtml(entry.text)}</a>`;
+		}
+
+		for (let i = 0; i < levels.length; i++) {
+			html += `</li>${newline}</ul>${newline}`;
 		}
 
-		return `<p class="mermaid-link"><a href="${this.escapeHtml(block.url)}">${this.escapeHtml(linkText)}</a></p>\n`;
+		return html;
 	}
 
 	/**
 	 * Converts a ListBlock to HTML (ul or ol).
+	 * Task items are rendered with a disabled checkbox input.
+	 * Bullets and numbering follow the list style settings for the nesting level.
+	 * 
+	 * @param block - The ListBlock to convert
+	 * @param state - The document being rendered, with its plugin settings
+	 * @param level - Current nesting level (0-based)
+	 * @param parents - Item numbers of the enclosing levels, for legal numbering
 	 */
 	private static listToHtml(
 		block: ListBlock,
-		settings: PluginSettings
+		state: RenderState,
+		level: number = 0,
+		parents: number[] = []
 	): string {
 		const tag = block.ordered ? 'ol' : 'ul';
-		let html = `<${tag}>\n`;
-
-		for (const item of block.items) {
-			html += '<li>';
-			html += this.inlineToHtml(item.content, settings);
+		const hasTasks = block.items.some(item => item.checked !== undefined);
+		const start = this.listStartToHtml(block);
+		const legal = block.ordered && ListStyles.getNumberFormat(state.settings, level) === 'legal';
+		const styleType = this.escapeHtml(ListStyles.getListStyleType(state.settings, block.ordered, level));
+		// Task items hide their own marker, so normal items in a mixed list keep the list style
+		const className = hasTasks ? ' class="contains-task-list"' : '';
+		let html = `<${tag}${start}${className} style="list-style-type: ${styleType};">\n`;
+
+		for (const [index, item] of block.items.entries()) {
+			const numbers = [...parents, (block.start ?? 1) + index];
+			if (item.checked !== undefined) {
+				// Task item: render a disabled checkbox reflecting its state
+				html += '<li class="task-list-item">';
+				html += `<input type="checkbox" disabled${item.checked ? ' checked' : ''}> `;
+			} else if (legal) {
+				// Legal numbering: label each item with the numbers of its enclosing items
+				html += `<li style="list-style-type: ${this.escapeHtml(ListStyles.getLegalStyleType(numbers))};">`;
+			} else {
+				html += '<li>';
+			}
+			html += this.inlineToHtml(item.content, state);
 			
-			// Handle nested lists
+			// Further blocks of the item (paragraphs, code, tables, quotes)
+			if (item.blocks) {
+				html += '\n';
+				for (const itemBlock of item.blocks) {
+					html += this.blockToHtml(itemBlock, state);
+				}
+			}
+
+			// Handle nested lists; sub-lists that start over count from 1 at the enclosing levels
 			if (item.children) {
-				html += '\n' + this.listToHtml(item.children, settings);
+				const childParents = ListStyles.continuesNumbering(block, item.children)
+					? numbers
+					: new Array<number>(level + 1).fill(1);
+				html += '\n' + this.listToHtml(item.children, state, level + 1, childParents);
 			}
 			
 			html += '</li>\n';
@@ -351,28 +732,29 @@ export class HtmlExporter {
 	 */
 	private static tableToHtml(
 		block: TableBlock,
-		settings: PluginSettings
+		state: RenderState
 	): string {
 		let html = '<table>\n';
+		html += this.columnWidthsToHtml(block);
 
 		// Header row
 		html += '<thead>\n<tr>\n';
-		for (const headerCell of block.headers) {
-			html += '<th>';
-			html += this.inlineToHtml(headerCell, settings);
+		block.headers.forEach((headerCell, column) => {
+			html += `<th${this.tableAlignmentToHtml(block, column)}>`;
+			html += this.inlineToHtml(headerCell, state);
 			html += '</th>\n';
-		}
+		});
 		html += '</tr>\n</thead>\n';
 
 		// Data rows
 		html += '<tbody>\n';
 		for (const row of block.rows) {
 			html += '<tr>\n';
-			for (const cell of row) {
-				html += '<td>';
-				html += this.inlineToHtml(cell, settings);
+			row.forEach((cell, column) => {
+				html += `<td${this.tableAlignmentToHtml(block, column)}>`;
+				html += this.inlineToHtml(cell, state);
 				html += '</td>\n';
-			}
+			});
 			html += '</tr>\n';
 		}
 		html += '</tbody>\n';
@@ -381,31 +763,78 @@ export class HtmlExporter {
 		return html;
 	}
 
+	/**
+	 * Builds a colgroup with the table's column width hints.
+	 */
+	private static columnWidthsToHtml(block: TableBlock): string {
+		if (!block.columnWidths) {
+			return '';
+		}
+		const cols = block.columnWidths.map(width => `<col style="width: ${width}%;">`).join('');
+		return `<colgroup>${cols}</colgroup>\n`;
+	}
+
+	/**
+	 * Returns the style attribute aligning a table column, or '' if unaligned.
+	 */
+	private static tableAlignmentToHtml(block: TableBlock, column: number): string {
+		const align = block.align?.[column];
+		return align ? ` style="text-align: ${align};"` : '';
+	}
+
 	/**
 	 * Converts a BlockquoteBlock to HTML blockquote.
 	 */
 	private static blockquoteToHtml(
 		block: BlockquoteBlock,
-		settings: PluginSettings
+		state: RenderState
 	): string {
 		let html = '<blockquote>\n';
 
 		for (const contentBlock of block.content) {
-			html += this.blockToHtml(contentBlock, settings);
+			html += this.blockToHtml(contentBlock, state);
 		}
 
 		html += '</blockquote>\n';
 		return html;
 	}
 
+	/**
+	 * Converts a CalloutBlock to an <aside>, or to a <details> element when
+	 * the callout is foldable so readers can expand and collapse it.
+	 */
+	private static calloutToHtml(
+		block: CalloutBlock,
+		state: RenderState
+	): string {
+		const style = CalloutStyles.get(block.calloutType);
+		const classes = `callout callout-${this.escapeHtml(style.type)}`;
+		const dataType = this.escapeHtml(block.calloutType);
+		const title = `${style.icon} ${this.inlineToHtml(block.title, state)}`;
+
+		let body = '';
+		for (const contentBlock of block.content) {
+			body += this.blockToHtml(contentBlock, state);
+		}
+
+		if (block.collapsed !== undefined) {
+			const open = block.collapsed ? '' : ' open';
+			return `<details class="${classes}" data-callout="${dataType}"${open}>\n`
+				+ `<summary class="callout-title">${title}</summary>\n${body}</details>\n`;
+		}
+
+		return `<aside class="${classes}" data-callout="${dataType}">\n`
+			+ `<p class="callout-title">${title}</p>\n${body}</aside>\n`;
+	}
+
 	/**
 	 * Converts an ImageBlock to HTML based on imageHandling setting.
 	 */
 	private static imageToHtml(
 		block: ImageBlock,
-		settings: PluginSettings
+		state: RenderState
 	): string {
-		switch (settings.imageHandling) {
+		switch (state.settings.imageHandling) {
 			case 'embed':
 				return `<img src="${this.escapeHtml(block.url)}" alt="${this.escapeHtml(block.alt)}">\n`;
 			
@@ -420,17 +849,67 @@ export class HtmlExporter {
 		}
 	}
 
+	/**
+	 * Converts an image within text, sized to the height of the line.
+	 */
+	private static inlineImageToHtml(
+		item: ImageContent,
+		state: RenderState
+	): string {
+		switch (state.settings.imageHandling) {
+			case 'embed':
+				return `<img src="${this.escapeHtml(item.url)}" alt="${this.escapeHtml(item.alt)}" class="inline-image">`;
+			
+			case 'link':
+				return `<a href="${this.escapeHtml(item.url)}">${this.escapeHtml(item.alt || 'Image')}</a>`;
+			
+			default:
+				return '';
+		}
+	}
+
+	/**
+	 * Converts footnote definitions to a numbered endnotes section.
+	 * Each endnote links back to its reference in the text.
+	 */
+	private static footnotesToHtml(
+		footnotes: FootnoteDefinition[],
+		state: RenderState
+	): string {
+		let html = '<section class="footnotes">\n<hr>\n<ol>\n';
+
+		for (const footnote of footnotes) {
+			let body = '';
+			for (const contentBlock of footnote.content) {
+				body += this.blockToHtml(contentBlock, state);
+			}
+
+			// Place the back-link inside the last paragraph when possible
+			const backLink = `<a href="#fnref-${footnote.index}" class="footnote-backref">↩</a>`;
+			if (body.endsWith('</p>\n')) {
+				body = body.slice(0, -'</p>\n'.length) + ` ${backLink}</p>\n`;
+			} else {
+				body += backLink + '\n';
+			}
+
+			html += `<li id="fn-${footnote.index}">\n${body}</li>\n`;
+		}
+
+		html += '</ol>\n</section>\n';
+		return html;
+	}
+
 	/**
 	 * Converts InlineContent array to HTML string.
 	 */
 	private static inlineToHtml(
 		content: InlineContent[],
-		settings: PluginSettings
+		state: RenderState
 	): string {
 		let html = '';
 
 		for (const item of content) {
-			html += this.inlineContentToHtml(item, settings);
+			html += this.inlineContentToHtml(item, state);
 		}
 
 		return html;
@@ -441,28 +920,62 @@ export class HtmlExporter {
 	 */
 	private static inlineContentToHtml(
 		item: InlineContent,
-		settings: PluginSettings
+		state: RenderState
 	): string {
 		switch (item.type) {
 			case 'text':
 				return this.escapeHtml(item.content);
 			
 			case 'bold':
-				return `<strong>${this.inlineToHtml(item.content, settings)}</strong>`;
+				return `<strong>${this.inlineToHtml(item.content, state)}</strong>`;
 			
 			case 'italic':
-				return `<em>${this.inlineToHtml(item.content, settings)}</em>`;
+				return `<em>${this.inlineToHtml(item.content, state)}</em>`;
 			
 			case 'strikethrough':
-				return `<del>${this.inlineToHtml(item.content, settings)}</del>`;
+				return `<del>${this.inlineToHtml(item.content, state)}</del>`;
+			
+			case 'highlight':
+				return `<mark>${this.inlineToHtml(item.content, state)}</mark>`;
+			
+			case 'underline':
+				return `<u>${this.inlineToHtml(item.content, state)}</u>`;
+			
+			case 'superscript':
+				return `<sup>${this.inlineToHtml(item.content, state)}</sup>`;
+			
+			case 'subscript':
+				return `<sub>${this.inlineToHtml(item.content, state)}</sub>`;
 			
 			case 'code':
 				return `<code>${this.escapeHtml(item.content)}</code>`;
 			
+			case 'keyboard':
+				return `<kbd>${this.escapeHtml(item.content)}</kbd>`;
+			
 			case 'link':
-				const linkText = this.inlineToHtml(item.text, settings);
+				const linkText = this.inlineToHtml(item.text, state);
 				return `<a href="${this.escapeHtml(item.url)}">${linkText}</a>`;
 			
+			case 'footnoteRef': {
+				// Repeated references get their own ids; the back-link returns to the first
+				const count = (state.footnoteRefs.get(item.index) || 0) + 1;
+				state.footnoteRefs.set(item.index, count);
+				const id = count === 1 ? `fnref-${item.index}` : `fnref-${item.index}-${count}`;
+				return `<sup class="footnote-ref"><a href="#fn-${item.index}" id="${id}">${item.index}</a></sup>`;
+			}
+			
+			case 'math':
+				try {
+					return LatexConverter.toMathML(item.latex, false);
+				} catch {
+					// Unsupported LaTeX: keep the source readable
+					return `<code class="math-source">${this.escapeHtml(item.latex)}</code>`;
+				}
+			
+			case 'image':
+				return this.inlineImageToHtml(item, state);
+			
 			default:
 				return '';
 		}
@@ -1,11 +1,18 @@
-import { Plugin, TFile, Notice, addIcon } from 'obsidian';
-import { PluginSettings } from './types';
-import { DEFAULT_SETTINGS } from './settings';
+import { Plugin, TFile, Notice, Menu, Editor, MarkdownView, MarkdownFileInfo, addIcon, requestUrl, loadMermaid } from 'obsidian';
+import { PluginSettings, ExportContext, ExportScope, ExportDiagnostic } from './types';
+import { DEFAULT_SETTINGS, migrateSettings } from './settings';
 import { ExportModal } from './ui/ExportModal';
 import { SettingsTab } from './ui/SettingsTab';
 import { DocxExporter } from './exporters/docxExporter';
 import { ClipboardExporter } from './exporters/clipboardExporter';
 import { HtmlExporter } from './exporters/htmlExporter';
+import { EmbedResolver, EmbedSource } from './utils/embedResolver';
+import { NoteSections } from './utils/noteSections';
+import { Diagnostics } from './utils/diagnostics';
+import { ExportExtensions } from './utils/exportExtensions';
+import { ImageSource } from './utils/imageLoader';
+import { MermaidDiagrams, MermaidRenderer } from './utils/mermaidRenderer';
+import { MermaidLinks } from './utils/mermaidLinks';
 
 /**
  * GoogleDocsExporterPlugin is the main plugin class that integrates with Obsidian.
@@ -16,6 +23,12 @@ import { HtmlExporter } from './exporters/htmlExporter';
 export default class GoogleDocsExporterPlugin extends Plugin {
 	settings!: PluginSettings;
 
+	/**
+	 * Extension API for other plugins and snippets: markdown preprocessors,
+	 * fenced-code-language handlers and custom block renderers per exporter.
+	 */
+	readonly extensions = new ExportExtensions();
+
 	/**
 	 * Called when the plugin is loaded.
 	 * Registers all commands, ribbon icon, context menu, and settings tab.
@@ -86,6 +99,87 @@ export default class GoogleDocsExporterPlugin extends Plugin {
 			}
 		});
 
+		// Export only the selected text of the editor
+		this.addCommand({
+			id: 'export-selection',
+			name: 'Export selection to Google Docs...',
+			editorCheckCallback: (checking: boolean, editor: Editor, info: MarkdownView | MarkdownFileInfo) => {
+				const scope = NoteSections.getSelection(editor.getValue(), editor.getSelection(), editor.getCursor('from').line);
+
+				if (scope && info.file) {
+					if (!checking) {
+						this.openExportModal(info.file, scope);
+					}
+					return true;
+				}
+
+				return false;
+			}
+		});
+
+		// Export the section under the heading the cursor is in
+		this.addCommand({
+			id: 'export-section',
+			name: 'Export current section to Google Docs...',
+			editorCheckCallback: (checking: boolean, editor: Editor, info: MarkdownView | MarkdownFileInfo) => {
+				const scope = NoteSections.getSection(editor.getValue(), editor.getCursor().line);
+
+				if (scope && info.file) {
+					if (!checking) {
+						this.openExportModal(info.file, scope);
+					}
+					return true;
+				}
+
+				return false;
+			}
+		});
+
+		// Turn Mermaid Live links (e.g., from a Google Doc) back into diagrams,
+		// in the selection or else the whole note
+		this.addCommand({
+			id: 'convert-mermaid-links-to-code',
+			name: 'Convert Mermaid Live links to code blocks',
+			editorCallback: (editor: Editor) => {
+				const selection = editor.getSelection();
+				const result = MermaidLinks.toCodeBlocks(selection || editor.getValue());
+
+				const skipped = result.skipped > 0
+					? ` (${result.skipped} in table rows left as links)`
+					: '';
+				if (result.count === 0) {
+					new Notice(`No Mermaid Live links converted${skipped}`);
+					return;
+				}
+
+				if (selection) {
+					editor.replaceSelection(result.content);
+				} else {
+					editor.transaction({
+						changes: result.replacements.map(replacement => ({
+							from: { line: replacement.startLine, ch: 0 },
+							to: { line: replacement.endLine, ch: editor.getLine(replacement.endLine).length },
+							text: replacement.text
+						}))
+					});
+				}
+				new Notice(`✅ Converted ${result.count} Mermaid link${result.count !== 1 ? 's' : ''} to code blocks${skipped}`);
+			}
+		});
+
+		// Register commands to replace Mermaid blocks with Mermaid Live links
+		this.addCommand({
+			id: 'convert-mermaid-blocks-to-links',
+			name: 'Convert Mermaid blocks to links',
+			editorCallback: (editor: Editor) => this.convertMermaidBlocks(editor, false)
+		});
+
+		this.addCommand({
+			id: 'convert-mermaid-blocks-to-links-keep-source',
+			name: 'Convert Mermaid blocks to links (keep source)',
+			editorCallback: (editor: Editor) => this.convertMermaidBlocks(editor, true)
+		});
+
 		// Requirement 5.4: Add ribbon icon that opens export modal
 		this.addRibbonIcon('file-up', 'Export to Google Docs', () => {
 			const activeFile = this.app.workspace.getActiveFile();
@@ -115,6 +209,37 @@ export default class GoogleDocsExporterPlugin extends Plugin {
 			})
 		);
 
+		// Editor context menu: export the selection, or the section at the cursor
+		this.registerEvent(
+			this.app.workspace.on('editor-menu', (menu, editor, info) => {
+				const file = info.file;
+				if (!file) {
+					return;
+				}
+
+				const content = editor.getValue();
+				const selection = NoteSections.getSelection(content, editor.getSelection(), editor.getCursor('from').line);
+				const scope = selection || NoteSections.getSection(content, editor.getCursor().line);
+				if (scope) {
+					menu.addItem((item) => {
+						item
+							.setTitle(selection ? 'Export selection to Google Docs' : 'Export section to Google Docs')
+							.setIcon('file-up')
+							.onClick(() => {
+								this.openExportModal(file, scope);
+							});
+					});
+				}
+			})
+		);
+
+		// Outline view context menu: export the section of the clicked heading.
+		// The outline has no menu event, so the item joins the menu of the
+		// right-click through Menu.forEvent; the event is left to the outline.
+		this.registerDomEvent(document, 'contextmenu', (evt: MouseEvent) => {
+			this.addOutlineMenuItem(evt);
+		}, { capture: true });
+
 		// Register settings tab
 		this.addSettingTab(new SettingsTab(this.app, this));
 	}
@@ -134,7 +259,7 @@ export default class GoogleDocsExporterPlugin extends Plugin {
 	 * Requirement 6.10: Settings persistence
 	 */
 	async loadSettings() {
-		const loadedData = await this.loadData();
+		const loadedData = migrateSettings(await this.loadData());
 		this.settings = Object.assign({}, DEFAULT_SETTINGS, loadedData);
 	}
 
@@ -147,21 +272,198 @@ export default class GoogleDocsExporterPlugin extends Plugin {
 		await this.saveData(this.settings);
 	}
 
+	/**
+	 * Replaces the ```mermaid blocks of the note in the editor with Mermaid Live
+	 * links, as a single undoable change.
+	 *
+	 * @param editor - The editor of the note
+	 * @param keepSource - Whether to keep the code in a collapsed callout below each link
+	 */
+	private convertMermaidBlocks(editor: Editor, keepSource: boolean): void {
+		const replacements = MermaidLinks.toLinks(editor.getValue(), this.settings, keepSource);
+
+		if (replacements.length === 0) {
+			new Notice('No Mermaid blocks found');
+			return;
+		}
+
+		editor.transaction({
+			changes: replacements.map(replacement => ({
+				from: { line: replacement.startLine, ch: 0 },
+				to: { line: replacement.endLine, ch: editor.getLine(replacement.endLine).length },
+				text: replacement.text
+			}))
+		});
+		new Notice(`✅ Converted ${replacements.length} Mermaid block${replacements.length !== 1 ? 's' : ''} to links`);
+	}
+
 	/**
 	 * Opens the export modal for the specified file.
 	 * 
 	 * @param file - The file to export
+	 * @param scope - Part of the file to export instead of the whole note
 	 */
-	private openExportModal(file: TFile) {
+	private openExportModal(file: TFile, scope?: ExportScope) {
 		const modal = new ExportModal(
 			this.app,
 			file,
 			this.settings,
-			(file, format) => this.exportNote(file, format)
+			(file, format) => this.exportNote(file, format, scope),
+			scope
 		);
 		modal.open();
 	}
 
+	/**
+	 * Adds the section export item to the context menu of a heading in the
+	 * outline view. The heading is found by its place in the outline tree of
+	 * the note the outline shows, not by its text.
+	 *
+	 * @param evt - The contextmenu event
+	 */
+	private addOutlineMenuItem(evt: MouseEvent) {
+		const item = (evt.target as HTMLElement | null)?.closest('.tree-item-self');
+		const leaf = item
+			? this.app.workspace.getLeavesOfType('outline').find(candidate => candidate.view.containerEl.contains(item))
+			: undefined;
+		// The outline keeps the note it shows in its (undocumented) file property
+		const file = (leaf?.view as { file?: unknown } | undefined)?.file;
+		if (!item || !(file instanceof TFile)) {
+			return;
+		}
+
+		const path = this.getOutlinePath(item);
+		const addItem = (menu: Menu) => menu.addItem((menuItem) => {
+			menuItem
+				.setTitle('Export section to Google Docs')
+				.setIcon('file-up')
+				.onClick(async () => {
+					const content = await this.app.vault.cachedRead(file);
+					const heading = NoteSections.getOutlineHeading(NoteSections.getHeadings(content), path);
+					const scope = heading ? NoteSections.getSection(content, heading.line) : null;
+					if (scope) {
+						this.openExportModal(file, scope);
+					} else {
+						new Notice('Could not find the heading in the note');
+					}
+				});
+		});
+
+		// Menu.forEvent (Obsidian 1.6+) shares one menu per event with the outline's own items
+		if (typeof Menu.forEvent === 'function') {
+			addItem(Menu.forEvent(evt));
+		} else {
+			const menu = new Menu();
+			addItem(menu);
+			menu.showAtMouseEvent(evt);
+		}
+	}
+
+	/**
+	 * Returns the place of an outline entry in the outline tree: its index
+	 * among its siblings at each depth, from the top level down.
+	 *
+	 * @param item - The clicked outline entry
+	 */
+	private getOutlinePath(item: Element): number[] {
+		const path: number[] = [];
+		let node = item.closest('.tree-item');
+		while (node) {
+			const siblings = Array.from(node.parentElement?.children || []).filter(child => child.classList.contains('tree-item'));
+			path.unshift(siblings.indexOf(node));
+			node = node.parentElement?.closest('.tree-item') || null;
+		}
+		return path;
+	}
+
+	/**
+	 * Creates an EmbedSource that resolves embed targets through the metadata cache
+	 * and reads them from the vault.
+	 */
+	private createEmbedSource(): EmbedSource {
+		return {
+			read: async (linkpath: string, sourcePath: string) => {
+				const target = this.app.metadataCache.getFirstLinkpathDest(linkpath, sourcePath);
+				if (!target || target.extension !== 'md') {
+					return null;
+				}
+				return {
+					path: target.path,
+					content: await this.app.vault.cachedRead(target)
+				};
+			}
+		};
+	}
+
+	/**
+	 * Creates an ImageSource that downloads remote images and reads vault
+	 * images through the metadata cache.
+	 */
+	private createImageSource(): ImageSource {
+		return {
+			read: async (url: string, sourcePath: string) => {
+				if (/^https?:\/\//i.test(url)) {
+					return (await requestUrl({ url })).arrayBuffer;
+				}
+				const target = this.app.metadataCache.getFirstLinkpathDest(decodeURI(url), sourcePath);
+				return target ? await this.app.vault.readBinary(target) : null;
+			}
+		};
+	}
+
+	/**
+	 * Creates a MermaidRenderer that renders diagrams with Obsidian's bundled
+	 * Mermaid and converts them to PNG through a canvas.
+	 */
+	private createMermaidRenderer(): MermaidRenderer {
+		let diagramCount = 0;
+		return {
+			renderSvg: async (code: string) => {
+				const mermaid = await loadMermaid();
+				// Plain SVG labels: HTML labels (foreignObject) cannot be drawn on a canvas.
+				// The directive goes after the frontmatter, which must come first.
+				const directive = '%%{init: {"htmlLabels": false, "flowchart": {"htmlLabels": false}}}%%\n';
+				const source = code.replace(/^(\s*---[ \t]*\r?\n[\s\S]*?\r?\n[ \t]*---[ \t]*\r?\n)?/, `$1${directive}`);
+				const { svg } = await mermaid.render(`gdocs-export-mermaid-${diagramCount++}`, source);
+				return svg;
+			},
+			renderPng: (svg: string) => new Promise((resolve, reject) => {
+				const size = MermaidDiagrams.getSvgSize(svg) || { width: 800, height: 600 };
+				const image = new Image(size.width, size.height);
+				image.onload = () => {
+					try {
+						// Draw at twice the size so the diagram stays sharp when zoomed or printed
+						const canvas = document.createElement('canvas');
+						canvas.width = Math.ceil(size.width * 2);
+						canvas.height = Math.ceil(size.height * 2);
+						const context = canvas.getContext('2d');
+						if (!context) {
+							reject(new Error('Canvas is not available'));
+							return;
+						}
+						context.fillStyle = '#ffffff';
+						context.fillRect(0, 0, canvas.width, canvas.height);
+						context.drawImage(image, 0, 0, canvas.width, canvas.height);
+						// toBlob throws on a tainted canvas (e.g., foreignObject labels)
+						canvas.toBlob(blob => {
+							if (!blob) {
+								reject(new Error('Could not convert the diagram to PNG'));
+								return;
+							}
+							blob.arrayBuffer()
+								.then(data => resolve({ data: new Uint8Array(data), width: size.width, height: size.height }))
+								.catch(reject);
+						}, 'image/png');
+					} catch (error) {
+						reject(error);
+					}
+				};
+				image.onerror = () => reject(new Error('Could not load the rendered diagram'));
+				image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+			})
+		};
+	}
+
 	/**
 	 * Orchestrates the export process based on the selected format.
 	 * Handles all error cases and displays appropriate notifications.
@@ -170,49 +472,67 @@ export default class GoogleDocsExporterPlugin extends Plugin {
 	 * 
 	 * @param file - The file to export
 	 * @param format - The export format (docx, clipboard, or html)
+	 * @param scope - Part of the file to export instead of the whole note
+	 * @returns Problems found while exporting, with their lines in the note
 	 */
-	async exportNote(file: TFile, format: 'docx' | 'clipboard' | 'html'): Promise<void> {
+	async exportNote(file: TFile, format: 'docx' | 'clipboard' | 'html', scope?: ExportScope): Promise<ExportDiagnostic[]> {
 		let progressNotice: Notice | null = null;
+		let diagnostics: ExportDiagnostic[] = [];
 		
 		try {
 			// Requirement 8.3: Handle notes without active file
 			if (!file) {
 				new Notice('❌ No file selected. Please open a markdown file first.');
-				return;
+				return [];
 			}
 
 			// Requirement 5.8: Show progress indicator
 			progressNotice = new Notice('Exporting...', 0);
 
-			// Read file content
-			const content = await this.app.vault.read(file);
+			// Read file content, or take the selected part of it
+			const content = scope ? scope.content : await this.app.vault.read(file);
+			const filename = scope ? NoteSections.getFilename(file.basename, scope) : file.basename;
 
 			// Requirement 7.1: Handle empty note gracefully - export proceeds with empty content
 
+			const context: ExportContext = {
+				vaultName: this.app.vault.getName(),
+				sourcePath: file.path,
+				extensions: this.extensions,
+				imageSource: this.createImageSource(),
+				mermaidRenderer: this.createMermaidRenderer()
+			};
+
+			// Read embedded notes before parsing; the parser transcludes them
+			if (this.settings.transcludeEmbeds) {
+				const resolver = new EmbedResolver(this.createEmbedSource(), this.settings.maxEmbedDepth);
+				context.embeds = await resolver.resolve(content, file.path);
+			}
+
 			// Export based on format
 			switch (format) {
 				case 'docx':
-					await DocxExporter.export(content, file.basename, this.settings);
+					diagnostics = this.toNoteDiagnostics(await DocxExporter.export(content, filename, this.settings, context), scope);
 					
 					// Requirement 4.4: Display success notification with filename
 					progressNotice.hide();
-					new Notice(`✅ Exported to ${file.basename}.docx`);
+					new Notice(`✅ Exported to ${filename}.docx${this.formatWarnings(diagnostics)}`);
 					break;
 
 				case 'clipboard':
-					await ClipboardExporter.export(content, this.settings);
+					diagnostics = this.toNoteDiagnostics(await ClipboardExporter.export(content, this.settings, context), scope);
 					
 					// Requirement 4.5: Display success notification with paste instruction
 					progressNotice.hide();
-					new Notice('✅ Copied to clipboard! Paste into Google Docs with Ctrl+V (Cmd+V on Mac)');
+					new Notice(`✅ Copied to clipboard! Paste into Google Docs with Ctrl+V (Cmd+V on Mac)${this.formatWarnings(diagnostics)}`);
 					break;
 
 				case 'html':
-					await HtmlExporter.export(content, file.basename, this.settings);
+					diagnostics = this.toNoteDiagnostics(await HtmlExporter.export(content, filename, this.settings, context), scope);
 					
 					// Display success notification with filename
 					progressNotice.hide();
-					new Notice(`✅ Exported to ${file.basename}.html`);
+					new Notice(`✅ Exported to ${filename}.html${this.formatWarnings(diagnostics)}`);
 					break;
 
 				default:
@@ -230,5 +550,37 @@ export default class GoogleDocsExporterPlugin extends Plugin {
 			const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
 			new Notice(`❌ Export failed: ${errorMessage}`);
 		}
+
+		return diagnostics;
+	}
+
+	/**
+	 * Maps the source lines of diagnostics from an exported part to the note.
+	 *
+	 * @param diagnostics - Problems reported by an exporter
+	 * @param scope - The exported part, if not the whole note
+	 */
+	private toNoteDiagnostics(diagnostics: ExportDiagnostic[], scope?: ExportScope): ExportDiagnostic[] {
+		if (!scope) {
+			return diagnostics;
+		}
+		return diagnostics.map(diagnostic => ({
+			...diagnostic,
+			position: diagnostic.position && NoteSections.toNoteRange(scope, diagnostic.position)
+		}));
+	}
+
+	/**
+	 * Summarizes diagnostics for the success notification.
+	 *
+	 * @returns Text such as ' (1 warning: line 12)', or an empty string
+	 */
+	private formatWarnings(diagnostics: ExportDiagnostic[]): string {
+		if (diagnostics.length === 0) {
+			return '';
+		}
+		const lines = diagnostics.map(diagnostic => Diagnostics.formatLines(diagnostic.position)).filter(text => text);
+		const count = `${diagnostics.length} warning${diagnostics.length !== 1 ? 's' : ''}`;
+		return lines.length > 0 ? ` (${count}: ${lines.join(', ')})` : ` (${count})`;
 	}
 }
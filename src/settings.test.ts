@@ -1,4 +1,4 @@
-import { DEFAULT_SETTINGS } from './settings';
+import { DEFAULT_SETTINGS, migrateSettings } from './settings';
 import { PluginSettings } from './types';
 
 describe('DEFAULT_SETTINGS', () => {
@@ -9,11 +9,25 @@ describe('DEFAULT_SETTINGS', () => {
     expect(settings).toHaveProperty('exportLocation');
     expect(settings).toHaveProperty('mermaidLinkText');
     expect(settings).toHaveProperty('includeMermaidType');
+    expect(settings).toHaveProperty('mermaidBaseUrl');
+    expect(settings).toHaveProperty('mermaidLinkMode');
+    expect(settings).toHaveProperty('mermaidTheme');
+    expect(settings).toHaveProperty('mermaidOutput');
+    expect(settings).toHaveProperty('mermaidImageCaption');
     expect(settings).toHaveProperty('codeBlockFont');
     expect(settings).toHaveProperty('codeBlockBackground');
     expect(settings).toHaveProperty('includeLanguageLabel');
     expect(settings).toHaveProperty('imageHandling');
-    expect(settings).toHaveProperty('removeObsidianLinks');
+    expect(settings).toHaveProperty('wikiLinkStrategy');
+    expect(settings).toHaveProperty('wikiLinkBaseUrl');
+    expect(settings).toHaveProperty('transcludeEmbeds');
+    expect(settings).toHaveProperty('maxEmbedDepth');
+    expect(settings).toHaveProperty('includePropertiesTable');
+    expect(settings).toHaveProperty('includeToc');
+    expect(settings).toHaveProperty('tocMaxDepth');
+    expect(settings).toHaveProperty('tocSidebar');
+    expect(settings).toHaveProperty('listBulletGlyphs');
+    expect(settings).toHaveProperty('listNumberFormats');
     expect(settings).toHaveProperty('openAfterExport');
   });
 
@@ -48,6 +62,22 @@ describe('DEFAULT_SETTINGS', () => {
     });
   });
 
+  describe('Mermaid links', () => {
+    it('should link to the public Mermaid Live editor with the default theme', () => {
+      expect(DEFAULT_SETTINGS.mermaidBaseUrl).toBe('https://mermaid.live');
+      expect(DEFAULT_SETTINGS.mermaidImageBaseUrl).toBe('https://mermaid.ink');
+      expect(DEFAULT_SETTINGS.mermaidLinkMode).toBe('edit');
+      expect(DEFAULT_SETTINGS.mermaidTheme).toBe('default');
+    });
+  });
+
+  describe('Mermaid output', () => {
+    it('should export diagrams as links by default, with captions for rendered images', () => {
+      expect(DEFAULT_SETTINGS.mermaidOutput).toBe('link');
+      expect(DEFAULT_SETTINGS.mermaidImageCaption).toBe(true);
+    });
+  });
+
   describe('Requirement 6.4: Code block font', () => {
     it('should have Consolas as default code font', () => {
       expect(DEFAULT_SETTINGS.codeBlockFont).toBe('Consolas');
@@ -90,13 +120,65 @@ describe('DEFAULT_SETTINGS', () => {
     });
   });
 
-  describe('Requirement 6.8: Remove Obsidian links', () => {
-    it('should have removeObsidianLinks enabled by default', () => {
-      expect(DEFAULT_SETTINGS.removeObsidianLinks).toBe(true);
+  describe('Requirement 6.8: Obsidian link strategy', () => {
+    it('should convert links to plain text by default', () => {
+      expect(DEFAULT_SETTINGS.wikiLinkStrategy).toBe('text');
     });
 
-    it('should be a boolean', () => {
-      expect(typeof DEFAULT_SETTINGS.removeObsidianLinks).toBe('boolean');
+    it('should have a valid link strategy value', () => {
+      expect(['text', 'obsidian-uri', 'base-url', 'relative']).toContain(DEFAULT_SETTINGS.wikiLinkStrategy);
+    });
+
+    it('should have an empty base URL by default', () => {
+      expect(DEFAULT_SETTINGS.wikiLinkBaseUrl).toBe('');
+    });
+  });
+
+  describe('Embed transclusion', () => {
+    it('should transclude embeds by default', () => {
+      expect(DEFAULT_SETTINGS.transcludeEmbeds).toBe(true);
+    });
+
+    it('should have a positive embed depth limit', () => {
+      expect(Number.isInteger(DEFAULT_SETTINGS.maxEmbedDepth)).toBe(true);
+      expect(DEFAULT_SETTINGS.maxEmbedDepth).toBeGreaterThan(0);
+    });
+  });
+
+  describe('Properties table', () => {
+    it('should have includePropertiesTable disabled by default', () => {
+      expect(DEFAULT_SETTINGS.includePropertiesTable).toBe(false);
+    });
+  });
+
+  describe('Heading numbering', () => {
+    it('should leave headings unnumbered by default', () => {
+      expect(DEFAULT_SETTINGS.numberHeadings).toBe(false);
+    });
+
+    it('should start numbering at H1 by default', () => {
+      expect(DEFAULT_SETTINGS.headingNumberingStartLevel).toBe(1);
+    });
+  });
+
+  describe('Table of contents', () => {
+    it('should have the table of contents disabled by default', () => {
+      expect(DEFAULT_SETTINGS.includeToc).toBe(false);
+      expect(DEFAULT_SETTINGS.tocSidebar).toBe(false);
+    });
+
+    it('should list headings down to H3 by default', () => {
+      expect(DEFAULT_SETTINGS.tocMaxDepth).toBe(3);
+    });
+  });
+
+  describe('List styles', () => {
+    it('should default to disc, circle, and square bullets', () => {
+      expect(DEFAULT_SETTINGS.listBulletGlyphs).toEqual(['•', '◦', '▪']);
+    });
+
+    it('should default to decimal, letter, and roman numbering', () => {
+      expect(DEFAULT_SETTINGS.listNumberFormats).toEqual(['decimal', 'lower-alpha', 'lower-roman']);
     });
   });
 
@@ -122,7 +204,8 @@ describe('DEFAULT_SETTINGS', () => {
           typeof settings.codeBlockBackground === 'string' &&
           typeof settings.includeLanguageLabel === 'boolean' &&
           typeof settings.imageHandling === 'string' &&
-          typeof settings.removeObsidianLinks === 'boolean' &&
+          typeof settings.wikiLinkStrategy === 'string' &&
+          typeof settings.wikiLinkBaseUrl === 'string' &&
           typeof settings.openAfterExport === 'boolean'
         );
       };
@@ -147,3 +230,19 @@ describe('DEFAULT_SETTINGS', () => {
     });
   });
 });
+
+describe('migrateSettings', () => {
+  it('should map the legacy removeObsidianLinks toggle to a wiki link strategy', () => {
+    expect(migrateSettings({ removeObsidianLinks: true, codeBlockFont: 'Monaco' })).toEqual({ wikiLinkStrategy: 'text', codeBlockFont: 'Monaco' });
+    expect(migrateSettings({ removeObsidianLinks: false })).toEqual({ wikiLinkStrategy: 'obsidian-uri' });
+  });
+
+  it('should keep a wiki link strategy that was already saved', () => {
+    expect(migrateSettings({ removeObsidianLinks: false, wikiLinkStrategy: 'relative' })).toEqual({ wikiLinkStrategy: 'relative' });
+  });
+
+  it('should pass current settings through unchanged', () => {
+    expect(migrateSettings(null)).toEqual({});
+    expect(migrateSettings({ wikiLinkStrategy: 'base-url' })).toEqual({ wikiLinkStrategy: 'base-url' });
+  });
+});
@@ -17,6 +17,16 @@ export const DEFAULT_SETTINGS: PluginSettings = {
 	// Requirement 6.3: Include diagram type in Mermaid links (default enabled)
 	includeMermaidType: true,
 	
+	// Mermaid Live editor links with the default theme; image links use mermaid.ink
+	mermaidBaseUrl: 'https://mermaid.live',
+	mermaidImageBaseUrl: 'https://mermaid.ink',
+	mermaidLinkMode: 'edit',
+	mermaidTheme: 'default',
+	
+	// Mermaid diagrams as Mermaid Live links; rendered images keep the link as a caption
+	mermaidOutput: 'link',
+	mermaidImageCaption: true,
+	
 	// Requirement 6.4: Code block font
 	codeBlockFont: 'Consolas',
 	
@@ -29,9 +39,50 @@ export const DEFAULT_SETTINGS: PluginSettings = {
 	// Requirement 6.7: Image handling mode
 	imageHandling: 'embed',
 	
-	// Requirement 6.8: Convert Obsidian internal links to plain text (default enabled)
-	removeObsidianLinks: true,
+	// Requirement 6.8: Convert Obsidian internal links to plain text by default
+	wikiLinkStrategy: 'text',
+	wikiLinkBaseUrl: '',
+	
+	// Transclude embedded notes (![[note]]) with a nesting limit
+	transcludeEmbeds: true,
+	maxEmbedDepth: 5,
+	
+	// Render frontmatter properties as a table (default disabled)
+	includePropertiesTable: false,
+	
+	// Heading numbering (default disabled), starting at H1
+	numberHeadings: false,
+	headingNumberingStartLevel: 1,
+	
+	// Table of contents (default disabled, frontmatter `toc: true` turns it on)
+	includeToc: false,
+	tocMaxDepth: 3,
+	tocSidebar: false,
+	
+	// Bullets and numbering per list level (repeated for deeper levels)
+	listBulletGlyphs: ['•', '◦', '▪'],
+	listNumberFormats: ['decimal', 'lower-alpha', 'lower-roman'],
 	
 	// Requirement 6.9: Automatically open files after export (default disabled)
 	openAfterExport: false,
 };
+
+/**
+ * Maps settings saved by older plugin versions onto the current ones.
+ * The removeObsidianLinks toggle became wikiLinkStrategy: true converted
+ * wiki links to plain text, false kept them as links into the vault.
+ * 
+ * @param data - Settings as loaded from data.json (null on first run)
+ * @returns The settings without legacy keys
+ */
+export function migrateSettings(data: Record<string, unknown> | null): Partial<PluginSettings> {
+	if (!data || !('removeObsidianLinks' in data)) {
+		return (data ?? {}) as Partial<PluginSettings>;
+	}
+
+	const { removeObsidianLinks, ...settings } = data;
+	if (!('wikiLinkStrategy' in settings)) {
+		settings.wikiLinkStrategy = removeObsidianLinks === false ? 'obsidian-uri' : 'text';
+	}
+	return settings as Partial<PluginSettings>;
+}
@@ -11,6 +11,11 @@
  * ParsedContent → ContentBlock[] → InlineContent[]
  */
 
+import { EmbedMap } from './utils/embedResolver';
+import { ExportExtensions } from './utils/exportExtensions';
+import { ImageSource } from './utils/imageLoader';
+import { MermaidRenderer } from './utils/mermaidRenderer';
+
 // ============================================================================
 // Plugin Settings
 // ============================================================================
@@ -33,6 +38,32 @@ export interface PluginSettings {
 	
 	/** Whether to include diagram type in Mermaid links - Requirement 6.3 */
 	includeMermaidType: boolean;
+
+	/** Base URL of the Mermaid Live editor, for self-hosted instances */
+	mermaidBaseUrl: string;
+
+	/** Base URL of the Mermaid image service used by img and svg links */
+	mermaidImageBaseUrl: string;
+
+	/**
+	 * Style of Mermaid links
+	 * - edit / view: open the diagram in the editor, or in its view-only page
+	 * - img / svg: link to the rendered PNG or SVG image
+	 */
+	mermaidLinkMode: MermaidLinkMode;
+
+	/** Mermaid theme stored in the links */
+	mermaidTheme: MermaidTheme;
+
+	/**
+	 * How Mermaid diagrams are exported
+	 * - link: Mermaid Live link
+	 * - image: rendered diagram (PNG in DOCX, SVG in HTML); clipboard exports keep the link
+	 */
+	mermaidOutput: MermaidOutputMode;
+
+	/** Whether rendered diagrams keep the Mermaid Live link as a caption */
+	mermaidImageCaption: boolean;
 	
 	/** Font family for code blocks - Requirement 6.4 */
 	codeBlockFont: string;
@@ -46,13 +77,113 @@ export interface PluginSettings {
 	/** How to handle images: embed, link, or skip - Requirement 6.7 */
 	imageHandling: 'embed' | 'link' | 'skip';
 	
-	/** Whether to convert Obsidian [[links]] to plain text - Requirement 6.8 */
-	removeObsidianLinks: boolean;
+	/**
+	 * How Obsidian [[links]] are exported - Requirement 6.8
+	 * - text: plain text (display text or link target)
+	 * - obsidian-uri: obsidian://open link into the vault
+	 * - base-url: link below wikiLinkBaseUrl (Obsidian Publish or a static site)
+	 * - relative: relative link to the sibling exported file
+	 */
+	wikiLinkStrategy: WikiLinkStrategy;
+
+	/** Base URL for the 'base-url' wiki link strategy */
+	wikiLinkBaseUrl: string;
+
+	/** Whether to transclude embedded notes (![[note]]) into the export */
+	transcludeEmbeds: boolean;
+
+	/** Maximum nesting depth for transcluded embeds */
+	maxEmbedDepth: number;
 	
+	/** Whether to render frontmatter properties as a table at the top of the document */
+	includePropertiesTable: boolean;
+
+	/** Whether to prefix headings with hierarchical numbers (1, 1.1, 1.1.1) */
+	numberHeadings: boolean;
+
+	/** First heading level that gets a number (1-6), so an H1 title can stay unnumbered */
+	headingNumberingStartLevel: number;
+
+	/** Whether to insert a table of contents (overridden by frontmatter `toc`) */
+	includeToc: boolean;
+
+	/** Deepest heading level listed in the table of contents (1-6) */
+	tocMaxDepth: number;
+
+	/** Whether HTML exports show the table of contents as a sticky sidebar */
+	tocSidebar: boolean;
+
+	/** Bullet glyphs per list nesting level, repeated for deeper levels */
+	listBulletGlyphs: string[];
+
+	/** Number formats per ordered list nesting level, repeated for deeper levels */
+	listNumberFormats: ListNumberFormat[];
+
 	/** Whether to automatically open files after export - Requirement 6.9 */
 	openAfterExport: boolean;
 }
 
+/**
+ * Link styles for Mermaid diagrams.
+ */
+export type MermaidLinkMode = 'edit' | 'view' | 'img' | 'svg';
+
+/**
+ * Built-in Mermaid themes.
+ */
+export type MermaidTheme = 'default' | 'dark' | 'forest' | 'neutral';
+
+/**
+ * Export modes for Mermaid diagrams.
+ */
+export type MermaidOutputMode = 'link' | 'image';
+
+/**
+ * Export strategies for Obsidian [[wiki links]].
+ */
+export type WikiLinkStrategy = 'text' | 'obsidian-uri' | 'base-url' | 'relative';
+
+/**
+ * Number formats for ordered list levels.
+ * 'legal' numbers items with the numbers of all enclosing items (1.1.1).
+ */
+export type ListNumberFormat = 'decimal' | 'lower-alpha' | 'upper-alpha' | 'lower-roman' | 'upper-roman' | 'legal';
+
+/**
+ * Runtime information about the note being exported.
+ * Supplied by the plugin; the parser and exporters work without it.
+ */
+export interface ExportContext {
+	/** Name of the vault containing the note (used for obsidian:// links) */
+	vaultName?: string;
+	/** Vault path of the note being exported */
+	sourcePath?: string;
+	/** Extension of the exported file (e.g., 'docx'), set by file exporters */
+	exportExtension?: string;
+	/** Preprocessors, fence handlers and block renderers registered by other plugins */
+	extensions?: ExportExtensions;
+	/** Reads images shown inside paragraphs, for exporters that embed them (DOCX) */
+	imageSource?: ImageSource;
+	/** Renders Mermaid diagrams when they are exported as images */
+	mermaidRenderer?: MermaidRenderer;
+	/** Note embeds to transclude, read by EmbedResolver before parsing */
+	embeds?: EmbedMap;
+}
+
+/**
+ * Part of a note exported instead of the whole file (selection or heading section).
+ */
+export interface ExportScope {
+	/** Name of the part, appended to the export file name (e.g., the heading text) */
+	label: string;
+	/** Markdown of the part, preceded by the note's frontmatter */
+	content: string;
+	/** Line of the note the part starts at (0-based) */
+	startLine: number;
+	/** Number of frontmatter lines preceding the part in content */
+	frontmatterLines: number;
+}
+
 // ============================================================================
 // Inline Content Types
 // ============================================================================
@@ -100,6 +231,38 @@ export interface StrikethroughContent {
 	content: InlineContent[];
 }
 
+/**
+ * Highlighted text (==text== or <mark>).
+ */
+export interface HighlightContent {
+	type: 'highlight';
+	content: InlineContent[];
+}
+
+/**
+ * Underlined text (<u> or <ins>).
+ */
+export interface UnderlineContent {
+	type: 'underline';
+	content: InlineContent[];
+}
+
+/**
+ * Superscript text (<sup>).
+ */
+export interface SuperscriptContent {
+	type: 'superscript';
+	content: InlineContent[];
+}
+
+/**
+ * Subscript text (<sub>).
+ */
+export interface SubscriptContent {
+	type: 'subscript';
+	content: InlineContent[];
+}
+
 /**
  * Inline code formatted text (`code`).
  * Requirement 3.14: Inline code formatting support
@@ -109,6 +272,14 @@ export interface CodeContent {
 	content: string;
 }
 
+/**
+ * Keyboard input (<kbd>Ctrl</kbd>).
+ */
+export interface KeyboardContent {
+	type: 'keyboard';
+	content: string;
+}
+
 /**
  * Hyperlink with text and URL ([text](url)).
  * Requirement 3.9: Hyperlink conversion support
@@ -116,9 +287,45 @@ export interface CodeContent {
 export interface LinkContent {
 	type: 'link';
 	text: InlineContent[];
+	/** Target URL; '#anchor' links to a heading or block in the same document */
 	url: string;
 }
 
+/**
+ * Footnote reference marker ([^id]).
+ * Footnotes are numbered in order of their first reference in the document.
+ */
+export interface FootnoteReferenceContent {
+	type: 'footnoteRef';
+	/** Footnote identifier as written in the markdown (e.g., '1', 'note') */
+	id: string;
+	/** 1-based footnote number */
+	index: number;
+}
+
+/**
+ * Inline LaTeX math ($x^2$).
+ */
+export interface MathContent {
+	type: 'math';
+	/** LaTeX source without the $ delimiters */
+	latex: string;
+}
+
+/**
+ * Image inside a paragraph, list item or table cell (![alt](url)).
+ * A paragraph holding only an image becomes an ImageBlock instead.
+ */
+export interface ImageContent {
+	type: 'image';
+	/** Alt text for the image */
+	alt: string;
+	/** Image URL or file path */
+	url: string;
+	/** Vault path of the embedded note showing the image, for images of transcluded notes */
+	sourcePath?: string;
+}
+
 /**
  * Union type of all inline content types.
  * Allows nested formatting (e.g., bold within italic).
@@ -131,8 +338,16 @@ export type InlineContent =
 	| BoldContent
 	| ItalicContent
 	| StrikethroughContent
+	| HighlightContent
+	| UnderlineContent
+	| SuperscriptContent
+	| SubscriptContent
 	| CodeContent
-	| LinkContent;
+	| KeyboardContent
+	| LinkContent
+	| FootnoteReferenceContent
+	| MathContent
+	| ImageContent;
 
 // ============================================================================
 // Content Block Types
@@ -145,32 +360,58 @@ export type InlineContent =
  * Requirements: 3.1, 3.2, 3.3, 3.7, 3.8, 3.10, 3.11, 3.12, 3.15, 9.3
  */
 
+/**
+ * Lines of the note a block was parsed from, 1-based and inclusive.
+ */
+export interface SourceRange {
+	/** First line of the block */
+	startLine: number;
+	/** Last line of the block */
+	endLine: number;
+	/** Vault path of the note the lines belong to, for blocks transcluded from another note */
+	sourcePath?: string;
+}
+
+/**
+ * Properties shared by all content blocks.
+ */
+export interface BlockBase {
+	/** Source lines of the block; absent for generated blocks such as the table of contents */
+	position?: SourceRange;
+}
+
 /**
  * Heading block (# Heading).
  * Requirements 3.1, 3.2, 3.3: Heading level conversion (H1-H6)
  */
-export interface HeadingBlock {
+export interface HeadingBlock extends BlockBase {
 	type: 'heading';
 	/** Heading level from 1 (H1) to 6 (H6) */
 	level: 1 | 2 | 3 | 4 | 5 | 6;
 	/** Heading text with inline formatting */
 	content: InlineContent[];
+	/** Anchor for links to this heading (slug of the text, unique in the document) */
+	id?: string;
+	/** Section number when heading numbering is enabled (e.g., '1.2'), also prefixed to content */
+	number?: string;
 }
 
 /**
  * Paragraph block containing inline content.
  * Requirement 9.3: ContentBlock type correctness
  */
-export interface ParagraphBlock {
+export interface ParagraphBlock extends BlockBase {
 	type: 'paragraph';
 	content: InlineContent[];
+	/** Anchor for block references, from a trailing ^block-id (e.g., '^abc123') */
+	id?: string;
 }
 
 /**
  * Code block with optional language identifier (```language).
  * Requirements 2.1, 2.2, 2.3, 2.4, 2.5: Code block preservation and formatting
  */
-export interface CodeBlock {
+export interface CodeBlock extends BlockBase {
 	type: 'code';
 	/** Language identifier (e.g., 'python', 'javascript') or null if not specified */
 	language: string | null;
@@ -182,7 +423,7 @@ export interface CodeBlock {
  * Mermaid diagram block converted to interactive link.
  * Requirements 1.1, 1.2, 1.3, 1.4, 1.5, 1.6: Mermaid diagram conversion
  */
-export interface MermaidBlock {
+export interface MermaidBlock extends BlockBase {
 	type: 'mermaid';
 	/** Formatted diagram type name (e.g., 'Flowchart', 'Sequence Diagram') */
 	diagramType: string;
@@ -190,6 +431,10 @@ export interface MermaidBlock {
 	code: string;
 	/** Generated Mermaid Live URL with encoded diagram */
 	url: string;
+	/** 1-based number of the diagram in the document */
+	index?: number;
+	/** Diagram title from its frontmatter or title statement */
+	title?: string;
 }
 
 /**
@@ -199,7 +444,17 @@ export interface MermaidBlock {
 export interface ListItem {
 	/** Item content with inline formatting */
 	content: InlineContent[];
-	/** Optional nested list (for hierarchical lists) */
+	/**
+	 * Task state for checklist items (- [ ] / - [x]).
+	 * Undefined for regular list items.
+	 */
+	checked?: boolean;
+	/**
+	 * Further blocks of the item below its first line (paragraphs, code,
+	 * tables, quotes), in source order. Rendered indented under the item.
+	 */
+	blocks?: ContentBlock[];
+	/** Optional nested list (for hierarchical lists), rendered after blocks */
 	children?: ListBlock;
 }
 
@@ -207,41 +462,71 @@ export interface ListItem {
  * List block (ordered or unordered).
  * Requirements 3.7, 3.8: List structure conversion
  */
-export interface ListBlock {
+export interface ListBlock extends BlockBase {
 	type: 'list';
 	/** True for ordered lists (1. 2. 3.), false for unordered (- * +) */
 	ordered: boolean;
+	/** Number of the first item of an ordered list (e.g., 5 for a list starting at "5.") */
+	start?: number;
 	/** List items with optional nesting */
 	items: ListItem[];
 }
 
+/**
+ * Horizontal alignment of a table column (:--, :-:, --:), null if unspecified.
+ */
+export type TableAlignment = 'left' | 'center' | 'right' | null;
+
 /**
  * Table block with headers and data rows.
  * Requirement 3.15: Table structure preservation
  */
-export interface TableBlock {
+export interface TableBlock extends BlockBase {
 	type: 'table';
 	/** Header row cells (array of cell content) */
 	headers: InlineContent[][];
 	/** Data rows (array of rows, each row is array of cells) */
 	rows: InlineContent[][][];
+	/** Per-column alignment from the delimiter row */
+	align?: TableAlignment[];
+	/** Per-column width hints in percent of the table width, sized from content length */
+	columnWidths?: number[];
 }
 
 /**
  * Blockquote block (> quoted text).
  * Requirement 3.10: Blockquote formatting
  */
-export interface BlockquoteBlock {
+export interface BlockquoteBlock extends BlockBase {
 	type: 'blockquote';
 	/** Blockquote content (can contain any block types) */
 	content: ContentBlock[];
 }
 
+/**
+ * Obsidian callout (> [!type] Title).
+ * Foldable callouts ([!type]+ / [!type]-) carry their initial fold state.
+ */
+export interface CalloutBlock extends BlockBase {
+	type: 'callout';
+	/** Callout type as written, lowercased (e.g., 'note', 'warning', 'tldr') */
+	calloutType: string;
+	/** Title with inline formatting; defaults to the capitalized type */
+	title: InlineContent[];
+	/**
+	 * True if the callout starts collapsed ([!type]-), false if it is foldable
+	 * but expanded ([!type]+). Undefined for callouts that cannot be folded.
+	 */
+	collapsed?: boolean;
+	/** Callout body (can contain any block types, including nested callouts) */
+	content: ContentBlock[];
+}
+
 /**
  * Horizontal rule block (--- or ***).
  * Requirement 3.11: Horizontal rule conversion
  */
-export interface HorizontalRuleBlock {
+export interface HorizontalRuleBlock extends BlockBase {
 	type: 'hr';
 }
 
@@ -249,12 +534,62 @@ export interface HorizontalRuleBlock {
  * Image block (![alt](url)).
  * Requirement 3.12: Image handling
  */
-export interface ImageBlock {
+export interface ImageBlock extends BlockBase {
 	type: 'image';
 	/** Alt text for the image */
 	alt: string;
 	/** Image URL or file path */
 	url: string;
+	/** Vault path of the embedded note showing the image, for images of transcluded notes */
+	sourcePath?: string;
+}
+
+/**
+ * Display math block ($$...$$).
+ */
+export interface MathBlock extends BlockBase {
+	type: 'math';
+	/** LaTeX source without the $$ delimiters */
+	latex: string;
+}
+
+/**
+ * Heading listed in a table of contents.
+ */
+export interface TocEntry {
+	/** Heading level from 1 (H1) to 6 (H6) */
+	level: 1 | 2 | 3 | 4 | 5 | 6;
+	/** Plain heading text */
+	text: string;
+	/** Anchor of the heading (HeadingBlock.id) */
+	id: string;
+}
+
+/**
+ * Table of contents built from the document's headings.
+ * DOCX renders a TOC field that Word and Google Docs can refresh.
+ */
+export interface TableOfContentsBlock extends BlockBase {
+	type: 'toc';
+	/** Deepest heading level listed */
+	maxDepth: number;
+	/** Top-level headings up to maxDepth, in document order */
+	entries: TocEntry[];
+}
+
+/**
+ * Block created by an extension (see ExportExtensions).
+ * Drawn by the renderers registered for its name; exporters without one
+ * export the fallback blocks instead.
+ */
+export interface CustomBlock extends BlockBase {
+	type: 'custom';
+	/** Name the renderers are registered under (e.g., 'risk') */
+	name: string;
+	/** Data for the renderers */
+	data?: unknown;
+	/** Built-in blocks exported when an exporter has no renderer for the name */
+	fallback?: ContentBlock[];
 }
 
 /**
@@ -271,13 +606,28 @@ export type ContentBlock =
 	| ListBlock
 	| TableBlock
 	| BlockquoteBlock
+	| CalloutBlock
 	| HorizontalRuleBlock
-	| ImageBlock;
+	| ImageBlock
+	| MathBlock
+	| TableOfContentsBlock
+	| CustomBlock;
 
 // ============================================================================
 // Parsed Content
 // ============================================================================
 
+/**
+ * A problem found while exporting, such as a block that could not be rendered.
+ * Listed in the export modal with a link to the source lines.
+ */
+export interface ExportDiagnostic {
+	/** Description of the problem */
+	message: string;
+	/** Source lines of the block concerned, if known */
+	position?: SourceRange;
+}
+
 /**
  * Parsed content representation.
  * The result of parsing markdown into a structured format.
@@ -291,4 +641,44 @@ export type ContentBlock =
 export interface ParsedContent {
 	/** Array of top-level content blocks representing the document structure */
 	blocks: ContentBlock[];
+	/** Referenced footnote definitions, ordered by footnote number */
+	footnotes?: FootnoteDefinition[];
+	/** Document metadata from YAML frontmatter, if the note has any */
+	metadata?: DocumentMetadata;
+	/** Problems found while parsing (e.g., failing fence handlers), with their source lines */
+	diagnostics?: ExportDiagnostic[];
+}
+
+/**
+ * Document metadata read from YAML frontmatter.
+ * Used for DOCX core properties, HTML <title>/<meta>, and the properties table.
+ */
+export interface DocumentMetadata {
+	/** Document title (title) */
+	title?: string;
+	/** Document author (author or authors) */
+	author?: string;
+	/** Short description (description or summary) */
+	description?: string;
+	/** Tags without the leading '#' (tags or tag) */
+	tags?: string[];
+	/** Date as written in the frontmatter (date or created) */
+	date?: string;
+	/** Whether to insert a table of contents (toc: true/false) */
+	toc?: boolean;
+	/** All frontmatter properties; list values are kept as arrays */
+	properties: Record<string, string | string[]>;
+}
+
+/**
+ * Footnote definition ([^id]: text).
+ * Only definitions that are referenced from the document are kept.
+ */
+export interface FootnoteDefinition {
+	/** Footnote identifier as written in the markdown */
+	id: string;
+	/** 1-based footnote number, matching FootnoteReferenceContent.index */
+	index: number;
+	/** Footnote body (can contain any block types) */
+	content: ContentBlock[];
 }
@@ -1,5 +1,7 @@
-import { App, Modal, Setting, TFile, Notice } from 'obsidian';
-import { PluginSettings } from '../types';
+import { App, Modal, Setting, TFile, Notice, MarkdownView } from 'obsidian';
+import { ExportDiagnostic, ExportScope, PluginSettings, SourceRange } from '../types';
+import { Diagnostics } from '../utils/diagnostics';
+import { MarkdownParser } from '../utils/markdownParser';
 
 /**
  * ExportModal provides a UI for selecting export format and initiating export.
@@ -11,21 +13,25 @@ export class ExportModal extends Modal {
 	private file: TFile;
 	private settings: PluginSettings;
 	private selectedFormat: 'docx' | 'clipboard' | 'html';
-	private onExport: (file: TFile, format: 'docx' | 'clipboard' | 'html') => Promise<void>;
+	private onExport: (file: TFile, format: 'docx' | 'clipboard' | 'html') => Promise<ExportDiagnostic[]>;
+	private exportScope: ExportScope | undefined;
 	private isExporting: boolean = false;
 	private exportButton: HTMLButtonElement | null = null;
+	private diagnosticsContainer: HTMLElement | null = null;
 
 	constructor(
 		app: App,
 		file: TFile,
 		settings: PluginSettings,
-		onExport: (file: TFile, format: 'docx' | 'clipboard' | 'html') => Promise<void>
+		onExport: (file: TFile, format: 'docx' | 'clipboard' | 'html') => Promise<ExportDiagnostic[]>,
+		scope?: ExportScope
 	) {
 		super(app);
 		this.file = file;
 		this.settings = settings;
 		this.selectedFormat = settings.defaultFormat;
 		this.onExport = onExport;
+		this.exportScope = scope;
 	}
 
 	/**
@@ -45,6 +51,14 @@ export class ExportModal extends Modal {
 			cls: 'export-modal-note-title'
 		});
 
+		// Display the exported part for selection and section exports
+		if (this.exportScope) {
+			contentEl.createEl('p', {
+				text: `Part: ${this.exportScope.label}`,
+				cls: 'export-modal-scope'
+			});
+		}
+
 		// Format selection dropdown
 		new Setting(contentEl)
 			.setName('Export format')
@@ -64,6 +78,9 @@ export class ExportModal extends Modal {
 		const previewContainer = contentEl.createDiv({ cls: 'export-modal-preview' });
 		this.updatePreview(previewContainer);
 
+		// Diagnostics of the last export, filled in by handleExport
+		this.diagnosticsContainer = contentEl.createDiv({ cls: 'export-modal-diagnostics' });
+
 		// Button container
 		const buttonContainer = contentEl.createDiv({ cls: 'export-modal-buttons' });
 
@@ -83,7 +100,7 @@ export class ExportModal extends Modal {
 
 	/**
 	 * Updates the preview section with content statistics.
-	 * Counts Mermaid diagrams and code blocks in the note.
+	 * Counts Mermaid diagrams and code blocks in the note, or in the exported part of it.
 	 * 
 	 * @param el - The container element for the preview
 	 */
@@ -92,18 +109,11 @@ export class ExportModal extends Modal {
 		el.createEl('h3', { text: 'Content Preview' });
 
 		try {
-			// Read file content
-			const content = await this.app.vault.read(this.file);
+			// Read file content, or take the exported part
+			const content = this.exportScope ? this.exportScope.content : await this.app.vault.read(this.file);
 
-			// Count Mermaid diagrams
-			const mermaidRegex = /```mermaid\n[\s\S]*?```/g;
-			const mermaidMatches = content.match(mermaidRegex);
-			const mermaidCount = mermaidMatches ? mermaidMatches.length : 0;
-
-			// Count code blocks (excluding Mermaid)
-			const codeBlockRegex = /```(?!mermaid)[\s\S]*?```/g;
-			const codeMatches = content.match(codeBlockRegex);
-			const codeBlockCount = codeMatches ? codeMatches.length : 0;
+			// Count Mermaid diagrams and other code blocks, including nested ones
+			const { mermaid: mermaidCount, code: codeBlockCount } = MarkdownParser.countCodeBlocks(content);
 
 			// Display statistics
 			const statsContainer = el.createDiv({ cls: 'export-modal-stats' });
@@ -135,9 +145,73 @@ export class ExportModal extends Modal {
 		}
 	}
 
+	/**
+	 * Lists the problems of the last export with their source lines.
+	 * Each entry jumps to its lines in the note.
+	 *
+	 * @param diagnostics - Problems reported by the export
+	 */
+	private showDiagnostics(diagnostics: ExportDiagnostic[]) {
+		const el = this.diagnosticsContainer;
+		if (!el) {
+			return;
+		}
+
+		el.empty();
+		el.createEl('h3', { text: 'Export Warnings' });
+
+		const list = el.createEl('ul');
+		for (const diagnostic of diagnostics) {
+			const item = list.createEl('li');
+			const position = diagnostic.position;
+			if (position) {
+				const lines = Diagnostics.formatLines(position);
+				const link = item.createEl('a', {
+					text: lines.charAt(0).toUpperCase() + lines.slice(1),
+					href: '#',
+					cls: 'export-modal-diagnostic-lines'
+				});
+				link.addEventListener('click', (event) => {
+					event.preventDefault();
+					this.jumpToSource(position);
+				});
+				item.appendText(': ');
+			}
+			item.appendText(diagnostic.message);
+		}
+	}
+
+	/**
+	 * Opens the note with the cursor on the given lines and closes the modal.
+	 * Lines of a transcluded note open that note.
+	 *
+	 * @param position - Source lines to reveal
+	 */
+	private async jumpToSource(position: SourceRange) {
+		const file = position.sourcePath
+			? this.app.vault.getAbstractFileByPath(position.sourcePath)
+			: this.file;
+		if (!(file instanceof TFile)) {
+			return;
+		}
+
+		const leaf = this.app.workspace.getLeaf(false);
+		await leaf.openFile(file);
+
+		if (leaf.view instanceof MarkdownView) {
+			const from = { line: position.startLine - 1, ch: 0 };
+			const to = { line: position.endLine - 1, ch: 0 };
+			leaf.view.editor.setCursor(from);
+			leaf.view.editor.scrollIntoView({ from, to }, true);
+		}
+
+		this.close();
+	}
+
 	/**
 	 * Handles the export button click.
 	 * Calls the plugin's exportNote method and manages loading state.
+	 * The modal stays open to list warnings if the export reported any.
 	 */
 	private async handleExport() {
 		if (this.isExporting) {
@@ -154,10 +228,14 @@ export class ExportModal extends Modal {
 
 		try {
 			// Call the export function provided by the plugin
-			await this.onExport(this.file, this.selectedFormat);
+			const diagnostics = await this.onExport(this.file, this.selectedFormat);
 			
-			// Close modal on success
-			this.close();
+			// Close modal on success, or keep it open to show the warnings
+			if (diagnostics.length > 0) {
+				this.showDiagnostics(diagnostics);
+			} else {
+				this.close();
+			}
 		} catch {
 			// Error handling is done in the plugin's exportNote method
 			// Just reset the button state here
@@ -1,5 +1,7 @@
 import { App, Plugin, PluginSettingTab, Setting } from 'obsidian';
-import { PluginSettings } from '../types';
+import { MermaidLinkMode, MermaidOutputMode, MermaidTheme, PluginSettings, WikiLinkStrategy } from '../types';
+import { ListStyles, MAX_LIST_LEVEL } from '../utils/listStyles';
+import { MERMAID_INK_URL, MERMAID_LIVE_URL } from '../utils/mermaidEncoder';
 
 /**
  * Interface for the plugin that uses this settings tab.
@@ -56,7 +58,7 @@ export class SettingsTab extends PluginSettingTab {
 		// Requirement 6.2: Mermaid link text with validation
 		new Setting(containerEl)
 			.setName('Mermaid link text')
-			.setDesc('Text to display for Mermaid diagram links (e.g., "📊 View Diagram")')
+			.setDesc('Text to display for Mermaid diagram links (e.g., "📊 View Diagram"). Use {type}, {index} and {title} to insert the diagram type, number and title')
 			.addText(text => {
 				text
 					.setPlaceholder('📊 View Diagram')
@@ -86,6 +88,90 @@ export class SettingsTab extends PluginSettingTab {
 					});
 			});
 
+		new Setting(containerEl)
+			.setName('Mermaid editor URL')
+			.setDesc('Base URL of the Mermaid Live editor, e.g. a self-hosted instance')
+			.addText(text => {
+				text
+					.setPlaceholder(MERMAID_LIVE_URL)
+					.setValue(this.plugin.settings.mermaidBaseUrl)
+					.onChange(async (value) => {
+						this.plugin.settings.mermaidBaseUrl = value.trim();
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('Mermaid link style')
+			.setDesc('Where Mermaid links point. Image links point to the Mermaid image service')
+			.addDropdown(dropdown => {
+				dropdown
+					.addOption('edit', 'Editor')
+					.addOption('view', 'View-only page')
+					.addOption('img', 'PNG image')
+					.addOption('svg', 'SVG image')
+					.setValue(this.plugin.settings.mermaidLinkMode)
+					.onChange(async (value) => {
+						this.plugin.settings.mermaidLinkMode = value as MermaidLinkMode;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('Mermaid image service URL')
+			.setDesc('Base URL of the service that renders PNG and SVG image links, e.g. a self-hosted mermaid.ink')
+			.addText(text => {
+				text
+					.setPlaceholder(MERMAID_INK_URL)
+					.setValue(this.plugin.settings.mermaidImageBaseUrl)
+					.onChange(async (value) => {
+						this.plugin.settings.mermaidImageBaseUrl = value.trim();
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('Mermaid theme')
+			.setDesc('Theme of diagrams opened from Mermaid links')
+			.addDropdown(dropdown => {
+				dropdown
+					.addOption('default', 'Default')
+					.addOption('dark', 'Dark')
+					.addOption('forest', 'Forest')
+					.addOption('neutral', 'Neutral')
+					.setValue(this.plugin.settings.mermaidTheme)
+					.onChange(async (value) => {
+						this.plugin.settings.mermaidTheme = value as MermaidTheme;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('Mermaid output')
+			.setDesc('Export diagrams as Mermaid Live links, or render them as images in DOCX and HTML files')
+			.addDropdown(dropdown => {
+				dropdown
+					.addOption('link', 'Link (Mermaid Live)')
+					.addOption('image', 'Image (rendered diagram)')
+					.setValue(this.plugin.settings.mermaidOutput)
+					.onChange(async (value) => {
+						this.plugin.settings.mermaidOutput = value as MermaidOutputMode;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('Link under rendered diagrams')
+			.setDesc('Show the Mermaid Live link as a caption below diagrams exported as images')
+			.addToggle(toggle => {
+				toggle
+					.setValue(this.plugin.settings.mermaidImageCaption)
+					.onChange(async (value) => {
+						this.plugin.settings.mermaidImageCaption = value;
+						await this.plugin.saveSettings();
+					});
+			});
+
 		// Code Block Settings Section
 		containerEl.createEl('h3', { text: 'Code Block Settings' });
 
@@ -140,6 +226,137 @@ export class SettingsTab extends PluginSettingTab {
 					});
 			});
 
+		// Heading Numbering Section
+		containerEl.createEl('h3', { text: 'Heading Numbering' });
+
+		// Heading numbering toggle
+		new Setting(containerEl)
+			.setName('Number headings')
+			.setDesc('Prefix headings with section numbers (1, 1.1, 1.1.1), also used in the table of contents and links to headings')
+			.addToggle(toggle => {
+				toggle
+					.setValue(this.plugin.settings.numberHeadings)
+					.onChange(async (value) => {
+						this.plugin.settings.numberHeadings = value;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		// First numbered heading level with validation
+		new Setting(containerEl)
+			.setName('First numbered heading level')
+			.setDesc('Highest heading level to number (1-6); use 2 to leave an H1 title unnumbered')
+			.addText(text => {
+				text
+					.setPlaceholder('1')
+					.setValue(String(this.plugin.settings.headingNumberingStartLevel))
+					.onChange(async (value) => {
+						// Validate: whole number within range
+						const level = Number(value);
+						if (Number.isInteger(level) && level >= 1 && level <= 6) {
+							this.plugin.settings.headingNumberingStartLevel = level;
+							await this.plugin.saveSettings();
+							text.inputEl.removeClass('is-invalid');
+						} else {
+							text.inputEl.addClass('is-invalid');
+						}
+					});
+			});
+
+		// Table of Contents Section
+		containerEl.createEl('h3', { text: 'Table of Contents' });
+
+		// Table of contents toggle
+		new Setting(containerEl)
+			.setName('Include table of contents')
+			.setDesc('Insert a table of contents built from the headings (frontmatter "toc: true" or "toc: false" overrides this per note)')
+			.addToggle(toggle => {
+				toggle
+					.setValue(this.plugin.settings.includeToc)
+					.onChange(async (value) => {
+						this.plugin.settings.includeToc = value;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		// Deepest heading level in the table of contents with validation
+		new Setting(containerEl)
+			.setName('Table of contents depth')
+			.setDesc('Deepest heading level listed in the table of contents (1-6)')
+			.addText(text => {
+				text
+					.setPlaceholder('3')
+					.setValue(String(this.plugin.settings.tocMaxDepth))
+					.onChange(async (value) => {
+						// Validate: whole number within range
+						const depth = Number(value);
+						if (Number.isInteger(depth) && depth >= 1 && depth <= 6) {
+							this.plugin.settings.tocMaxDepth = depth;
+							await this.plugin.saveSettings();
+							text.inputEl.removeClass('is-invalid');
+						} else {
+							text.inputEl.addClass('is-invalid');
+						}
+					});
+			});
+
+		// Sticky sidebar toggle for HTML exports
+		new Setting(containerEl)
+			.setName('Table of contents sidebar')
+			.setDesc('Show the table of contents of HTML exports as a sidebar that stays visible while scrolling')
+			.addToggle(toggle => {
+				toggle
+					.setValue(this.plugin.settings.tocSidebar)
+					.onChange(async (value) => {
+						this.plugin.settings.tocSidebar = value;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		// List Settings Section
+		containerEl.createEl('h3', { text: 'List Settings' });
+
+		// Bullet glyphs per level, separated by spaces
+		new Setting(containerEl)
+			.setName('Bullet glyphs')
+			.setDesc('Bullets for each nesting level, separated by spaces (repeated for deeper levels)')
+			.addText(text => {
+				text
+					.setPlaceholder('• ◦ ▪')
+					.setValue(this.plugin.settings.listBulletGlyphs.join(' '))
+					.onChange(async (value) => {
+						// Validate: one to nine glyphs
+						const glyphs = value.trim().split(/\s+/).filter(glyph => glyph.length > 0);
+						if (glyphs.length >= 1 && glyphs.length <= MAX_LIST_LEVEL + 1) {
+							this.plugin.settings.listBulletGlyphs = glyphs;
+							await this.plugin.saveSettings();
+							text.inputEl.removeClass('is-invalid');
+						} else {
+							text.inputEl.addClass('is-invalid');
+						}
+					});
+			});
+
+		// Number formats per level, separated by commas
+		new Setting(containerEl)
+			.setName('Number formats')
+			.setDesc('Numbering for each ordered list level, separated by commas: decimal, lower-alpha, upper-alpha, lower-roman, upper-roman, or legal (1.1.1)')
+			.addText(text => {
+				text
+					.setPlaceholder('decimal, lower-alpha, lower-roman')
+					.setValue(this.plugin.settings.listNumberFormats.join(', '))
+					.onChange(async (value) => {
+						const formats = ListStyles.parseNumberFormats(value);
+						if (formats) {
+							this.plugin.settings.listNumberFormats = formats;
+							await this.plugin.saveSettings();
+							text.inputEl.removeClass('is-invalid');
+						} else {
+							text.inputEl.addClass('is-invalid');
+						}
+					});
+			});
+
 		// Image and Link Settings Section
 		containerEl.createEl('h3', { text: 'Image and Link Settings' });
 
@@ -159,15 +376,86 @@ export class SettingsTab extends PluginSettingTab {
 					});
 			});
 
-		// Requirement 6.8: Remove Obsidian links toggle
+		// Requirement 6.8: Obsidian link strategy dropdown
+		new Setting(containerEl)
+			.setName('Internal links')
+			.setDesc('How [[internal links]] appear in exported documents')
+			.addDropdown(dropdown => {
+				dropdown
+					.addOption('text', 'Plain text')
+					.addOption('obsidian-uri', 'Obsidian link (obsidian://open)')
+					.addOption('base-url', 'Web link (base URL below)')
+					.addOption('relative', 'Relative link to exported file')
+					.setValue(this.plugin.settings.wikiLinkStrategy)
+					.onChange(async (value) => {
+						this.plugin.settings.wikiLinkStrategy = value as WikiLinkStrategy;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		// Base URL for web links with URL validation
+		new Setting(containerEl)
+			.setName('Internal link base URL')
+			.setDesc('Site that hosts your notes, e.g. Obsidian Publish (https://publish.obsidian.md/my-site)')
+			.addText(text => {
+				text
+					.setPlaceholder('https://publish.obsidian.md/my-site')
+					.setValue(this.plugin.settings.wikiLinkBaseUrl)
+					.onChange(async (value) => {
+						// Validate: empty or an http(s) URL
+						if (value.trim().length === 0 || /^https?:\/\/\S+$/.test(value.trim())) {
+							this.plugin.settings.wikiLinkBaseUrl = value.trim();
+							await this.plugin.saveSettings();
+							text.inputEl.removeClass('is-invalid');
+						} else {
+							text.inputEl.addClass('is-invalid');
+						}
+					});
+			});
+
+		// Transclude embeds toggle
+		new Setting(containerEl)
+			.setName('Transclude embeds')
+			.setDesc('Replace ![[embedded notes]] with their content (whole notes, headings, and block references)')
+			.addToggle(toggle => {
+				toggle
+					.setValue(this.plugin.settings.transcludeEmbeds)
+					.onChange(async (value) => {
+						this.plugin.settings.transcludeEmbeds = value;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		// Embed depth limit with validation
+		new Setting(containerEl)
+			.setName('Maximum embed depth')
+			.setDesc('How many levels of embeds inside embedded notes to resolve (1-20)')
+			.addText(text => {
+				text
+					.setPlaceholder('5')
+					.setValue(String(this.plugin.settings.maxEmbedDepth))
+					.onChange(async (value) => {
+						// Validate: whole number within range
+						const depth = Number(value);
+						if (Number.isInteger(depth) && depth >= 1 && depth <= 20) {
+							this.plugin.settings.maxEmbedDepth = depth;
+							await this.plugin.saveSettings();
+							text.inputEl.removeClass('is-invalid');
+						} else {
+							text.inputEl.addClass('is-invalid');
+						}
+					});
+			});
+
+		// Frontmatter properties table toggle
 		new Setting(containerEl)
-			.setName('Remove Obsidian links')
-			.setDesc('Convert [[internal links]] to plain text')
+			.setName('Include properties table')
+			.setDesc('Render frontmatter properties as a table at the top of the document')
 			.addToggle(toggle => {
 				toggle
-					.setValue(this.plugin.settings.removeObsidianLinks)
+					.setValue(this.plugin.settings.includePropertiesTable)
 					.onChange(async (value) => {
-						this.plugin.settings.removeObsidianLinks = value;
+						this.plugin.settings.includePropertiesTable = value;
 						await this.plugin.saveSettings();
 					});
 			});
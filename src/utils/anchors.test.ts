@@ -0,0 +1,50 @@
+import { Anchors } from './anchors';
+
+describe('Anchors', () => {
+  describe('slugify', () => {
+    it('should lowercase text and join words with dashes', () => {
+      expect(Anchors.slugify('Getting Started!')).toBe('getting-started');
+      expect(Anchors.slugify('  API: v2 (beta) ')).toBe('api-v2-beta');
+    });
+
+    it('should keep letters of any script', () => {
+      expect(Anchors.slugify('Überblick & Ziele')).toBe('überblick-ziele');
+    });
+
+    it('should leave slugs unchanged', () => {
+      expect(Anchors.slugify('getting-started')).toBe('getting-started');
+    });
+  });
+
+  describe('fromSubpath', () => {
+    it('should slugify headings and decode URL fragments', () => {
+      expect(Anchors.fromSubpath('Getting Started')).toBe('getting-started');
+      expect(Anchors.fromSubpath('Getting%20Started')).toBe('getting-started');
+    });
+
+    it('should use the last heading of nested paths', () => {
+      expect(Anchors.fromSubpath('Setup#Linux')).toBe('linux');
+    });
+
+    it('should keep block references', () => {
+      expect(Anchors.fromSubpath('^abc123')).toBe('^abc123');
+    });
+  });
+
+  describe('toBookmarkName', () => {
+    it('should build valid Word bookmark names', () => {
+      for (const anchor of ['getting-started', '^abc123', 'überblick', 'a'.repeat(80)]) {
+        const name = Anchors.toBookmarkName(anchor);
+
+        expect(name).toMatch(/^_[A-Za-z0-9_]+$/);
+        expect(name.length).toBeLessThanOrEqual(40);
+      }
+    });
+
+    it('should be stable and tell similar anchors apart', () => {
+      expect(Anchors.toBookmarkName('intro')).toBe(Anchors.toBookmarkName('intro'));
+      expect(Anchors.toBookmarkName('intro')).not.toBe(Anchors.toBookmarkName('^intro'));
+      expect(Anchors.toBookmarkName('überblick')).not.toBe(Anchors.toBookmarkName('überblock'));
+    });
+  });
+});
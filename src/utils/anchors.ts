@@ -0,0 +1,71 @@
+/**
+ * Anchors builds the link targets of headings and block references.
+ * Anchors are plain strings: a slug for headings ('my-heading') and the
+ * block ID with its caret for block references ('^abc123').
+ */
+export class Anchors {
+	/**
+	 * Turns heading text into a URL-friendly slug (GitHub style).
+	 * Already slugified text is returned unchanged.
+	 *
+	 * @param text - Heading text (e.g., 'Getting Started!')
+	 * @returns The slug (e.g., 'getting-started')
+	 */
+	static slugify(text: string): string {
+		return text
+			.trim()
+			.toLowerCase()
+			.replace(/[^\p{L}\p{N}\s_-]/gu, '')
+			.replace(/\s+/g, '-');
+	}
+
+	/**
+	 * Resolves a link subpath to an anchor.
+	 * Handles Obsidian subpaths (Heading, Parent#Child, ^block-id) and
+	 * URL fragments (my-heading, My%20Heading).
+	 *
+	 * @param subpath - Text after the '#' of a link
+	 * @returns The anchor, or an empty string if the subpath names nothing
+	 */
+	static fromSubpath(subpath: string): string {
+		let decoded = subpath;
+		try {
+			decoded = decodeURIComponent(subpath);
+		} catch {
+			// Keep malformed escapes as written
+		}
+
+		// Nested heading paths link to their last heading
+		const target = decoded.split('#').pop()?.trim() || '';
+		return target.startsWith('^') ? target : this.slugify(target);
+	}
+
+	/**
+	 * Converts an anchor to a Word bookmark name.
+	 * Bookmark names allow only letters, digits and underscores and at most
+	 * 40 characters, so the name keeps a readable prefix plus a hash of the
+	 * anchor. The leading underscore hides it from Word's bookmark list.
+	 *
+	 * @param anchor - Heading slug or block reference
+	 * @returns The bookmark name (e.g., '_getting_started_1a2b3c4d')
+	 */
+	static toBookmarkName(anchor: string): string {
+		const prefix = anchor
+			.replace(/[^A-Za-z0-9]+/g, '_')
+			.replace(/^_+|_+$/g, '')
+			.slice(0, 30);
+		return `_${prefix ? `${prefix}_` : ''}${this.hash(anchor)}`;
+	}
+
+	/**
+	 * Returns the 32-bit FNV-1a hash of a string as 8 hex digits.
+	 */
+	private static hash(text: string): string {
+		let hash = 0x811c9dc5;
+		for (let i = 0; i < text.length; i++) {
+			hash ^= text.charCodeAt(i);
+			hash = Math.imul(hash, 0x01000193);
+		}
+		return (hash >>> 0).toString(16).padStart(8, '0');
+	}
+}
@@ -0,0 +1,37 @@
+import { CalloutStyles } from './calloutStyles';
+
+describe('CalloutStyles', () => {
+  describe('get', () => {
+    it('should return the style of a built-in type', () => {
+      expect(CalloutStyles.get('warning')).toEqual({
+        type: 'warning',
+        icon: '⚠️',
+        color: '#ff9100',
+        background: '#fff4e6',
+      });
+    });
+
+    it('should resolve aliases case-insensitively', () => {
+      expect(CalloutStyles.get('TLDR').type).toBe('abstract');
+      expect(CalloutStyles.get('error').type).toBe('danger');
+    });
+
+    it('should fall back to the note color for custom types', () => {
+      const style = CalloutStyles.get('recipe');
+
+      expect(style.type).toBe('recipe');
+      expect(style.icon).toBe('📌');
+      expect(style.color).toBe(CalloutStyles.get('note').color);
+    });
+  });
+
+  describe('getTypes', () => {
+    it('should list canonical types without aliases', () => {
+      const types = CalloutStyles.getTypes();
+
+      expect(types).toContain('note');
+      expect(types).toContain('quote');
+      expect(types).not.toContain('tldr');
+    });
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Visual style of an Obsidian callout type.
+ */
+export interface CalloutStyle {
+	/** Canonical callout type after resolving aliases (e.g., 'tldr' → 'abstract') */
+	type: string;
+	/** Emoji shown before the callout title */
+	icon: string;
+	/** Accent color for the border and title (hex, with #) */
+	color: string;
+	/** Light tint of the accent color for the background (hex, with #) */
+	background: string;
+}
+
+/**
+ * Built-in Obsidian callout types with their icon and accent color.
+ */
+const CALLOUT_TYPES: Record<string, { icon: string; color: string }> = {
+	note: { icon: '📝', color: '#448aff' },
+	abstract: { icon: '📄', color: '#00b0ff' },
+	info: { icon: 'ℹ️', color: '#00b8d4' },
+	todo: { icon: '☑️', color: '#00b8d4' },
+	tip: { icon: '💡', color: '#00bfa5' },
+	success: { icon: '✅', color: '#00c853' },
+	question: { icon: '❓', color: '#64dd17' },
+	warning: { icon: '⚠️', color: '#ff9100' },
+	failure: { icon: '❌', color: '#ff5252' },
+	danger: { icon: '🚨', color: '#ff1744' },
+	bug: { icon: '🐛', color: '#f50057' },
+	example: { icon: '📋', color: '#7c4dff' },
+	quote: { icon: '💬', color: '#9e9e9e' }
+};
+
+/**
+ * Alternative names Obsidian accepts for the built-in types.
+ */
+const CALLOUT_ALIASES: Record<string, string> = {
+	summary: 'abstract',
+	tldr: 'abstract',
+	hint: 'tip',
+	important: 'tip',
+	check: 'success',
+	done: 'success',
+	help: 'question',
+	faq: 'question',
+	caution: 'warning',
+	attention: 'warning',
+	fail: 'failure',
+	missing: 'failure',
+	error: 'danger',
+	cite: 'quote'
+};
+
+/**
+ * CalloutStyles resolves callout types to the colors and icons used by the exporters.
+ */
+export class CalloutStyles {
+	/**
+	 * Returns the style for a callout type, resolving aliases.
+	 * Custom types get a pin icon with the note color.
+	 *
+	 * @param type - Callout type as written (case-insensitive)
+	 * @returns The callout style
+	 */
+	static get(type: string): CalloutStyle {
+		const normalized = type.toLowerCase();
+		const canonical = CALLOUT_ALIASES[normalized] || normalized;
+		const known = CALLOUT_TYPES[canonical];
+
+		if (!known) {
+			return { type: normalized, icon: '📌', color: CALLOUT_TYPES.note.color, background: this.tint(CALLOUT_TYPES.note.color) };
+		}
+
+		return { type: canonical, icon: known.icon, color: known.color, background: this.tint(known.color) };
+	}
+
+	/**
+	 * Returns the canonical names of all built-in callout types.
+	 */
+	static getTypes(): string[] {
+		return Object.keys(CALLOUT_TYPES);
+	}
+
+	/**
+	 * Mixes a color with white to get a light background tint.
+	 */
+	private static tint(color: string): string {
+		const value = parseInt(color.slice(1), 16);
+		const channels = [value >> 16, (value >> 8) & 0xff, value & 0xff];
+		return '#' + channels
+			.map(channel => Math.round(channel * 0.1 + 255 * 0.9).toString(16).padStart(2, '0'))
+			.join('');
+	}
+}
@@ -0,0 +1,44 @@
+import { Diagnostics } from './diagnostics';
+import { ContentBlock } from '../types';
+
+describe('Diagnostics', () => {
+  const table = { type: 'table', headers: [], rows: [], position: { startLine: 3, endLine: 5 } } as ContentBlock;
+
+  describe('formatLines', () => {
+    it('should format single lines and ranges', () => {
+      expect(Diagnostics.formatLines({ startLine: 4, endLine: 4 })).toBe('line 4');
+      expect(Diagnostics.formatLines({ startLine: 3, endLine: 5 })).toBe('lines 3-5');
+      expect(Diagnostics.formatLines()).toBe('');
+    });
+
+    it('should name the transcluded note the lines are in', () => {
+      expect(Diagnostics.formatLines({ startLine: 2, endLine: 4, sourcePath: 'Parts/Part.md' })).toBe('lines 2-4 of Part');
+    });
+  });
+
+  describe('renderError', () => {
+    it('should describe the block and the error with the block position', () => {
+      expect(Diagnostics.renderError(table, new Error('Bad cell'))).toEqual({
+        message: 'Could not render table block: Bad cell',
+        position: { startLine: 3, endLine: 5 }
+      });
+    });
+  });
+
+  describe('diagramNotRendered', () => {
+    it('should name the diagram type and the link fallback', () => {
+      const diagram = { type: 'mermaid' as const, diagramType: 'Flowchart', code: 'graph TD', url: '', position: { startLine: 7, endLine: 9 } };
+      expect(Diagnostics.diagramNotRendered(diagram)).toEqual({
+        message: 'Could not render Flowchart; exported as a link',
+        position: { startLine: 7, endLine: 9 }
+      });
+    });
+  });
+
+  describe('getPlaceholder', () => {
+    it('should include the lines when the block has a position', () => {
+      expect(Diagnostics.getPlaceholder(table)).toBe('[Error rendering table block at lines 3-5]');
+      expect(Diagnostics.getPlaceholder({ type: 'hr' })).toBe('[Error rendering hr block]');
+    });
+  });
+});
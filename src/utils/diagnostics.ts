@@ -0,0 +1,114 @@
+import { ContentBlock, CustomBlock, ExportDiagnostic, MermaidBlock, SourceRange } from '../types';
+
+/**
+ * Diagnostics describes export problems with the source lines they concern,
+ * so warnings and the export modal can point at the markdown to fix.
+ */
+export class Diagnostics {
+	/**
+	 * Formats a source range for messages.
+	 *
+	 * @param position - Source lines of a block
+	 * @returns 'line 3', 'lines 3-7', 'line 3 of Part' for lines of a transcluded
+	 * note, or an empty string without a position
+	 */
+	static formatLines(position?: SourceRange): string {
+		if (!position) {
+			return '';
+		}
+		const lines = position.startLine === position.endLine
+			? `line ${position.startLine}`
+			: `lines ${position.startLine}-${position.endLine}`;
+		return position.sourcePath
+			? `${lines} of ${position.sourcePath.split('/').pop()!.replace(/\.md$/, '')}`
+			: lines;
+	}
+
+	/**
+	 * Describes a block that failed to render.
+	 *
+	 * @param block - The block that could not be rendered
+	 * @param error - The error thrown while rendering it
+	 * @returns The diagnostic for the export modal
+	 */
+	static renderError(block: ContentBlock, error: unknown): ExportDiagnostic {
+		const reason = error instanceof Error ? `: ${error.message}` : '';
+		return {
+			message: `Could not render ${block.type} block${reason}`,
+			position: block.position
+		};
+	}
+
+	/**
+	 * Describes a custom block that an exporter could not draw: no renderer
+	 * is registered for its name and it has no fallback blocks.
+	 *
+	 * @param block - The custom block
+	 * @param exporter - Name of the exporter (e.g., 'docx')
+	 * @returns The diagnostic for the export modal
+	 */
+	static missingRenderer(block: CustomBlock, exporter: string): ExportDiagnostic {
+		return {
+			message: `No ${exporter} renderer for custom block '${block.name}'`,
+			position: block.position
+		};
+	}
+
+	/**
+	 * Describes a fenced code block whose fence handler threw; the fence
+	 * was exported as a plain code block instead.
+	 *
+	 * @param language - Language of the fence
+	 * @param error - The error thrown by the handler
+	 * @param position - Source lines of the fence
+	 * @returns The diagnostic for the export modal
+	 */
+	static fenceHandlerError(language: string, error: unknown, position: SourceRange): ExportDiagnostic {
+		const reason = error instanceof Error ? `: ${error.message}` : '';
+		return {
+			message: `Could not render ${language} block${reason}; exported as code`,
+			position: position
+		};
+	}
+
+	/**
+	 * Describes a markdown preprocessor that threw; the note was parsed
+	 * without its changes.
+	 *
+	 * @param error - The error thrown by the preprocessor
+	 * @param sourcePath - Vault path of the note being preprocessed
+	 * @returns The diagnostic for the export modal
+	 */
+	static preprocessorError(error: unknown, sourcePath?: string): ExportDiagnostic {
+		const reason = error instanceof Error ? `: ${error.message}` : '';
+		const note = sourcePath ? ` on ${sourcePath.split('/').pop()!.replace(/\.md$/, '')}` : '';
+		return {
+			message: `Markdown preprocessor failed${note}${reason}; exported without its changes`
+		};
+	}
+
+	/**
+	 * Describes a Mermaid diagram that could not be rendered as an image
+	 * and was exported as a Mermaid Live link instead.
+	 *
+	 * @param block - The Mermaid block
+	 * @returns The diagnostic for the export modal
+	 */
+	static diagramNotRendered(block: MermaidBlock): ExportDiagnostic {
+		return {
+			message: `Could not render ${block.diagramType || 'Mermaid diagram'}; exported as a link`,
+			position: block.position
+		};
+	}
+
+	/**
+	 * Returns the placeholder text exported in place of a block that failed to render.
+	 *
+	 * @param block - The block that could not be rendered
+	 * @returns Text such as '[Error rendering table block at lines 3-7]'
+	 */
+	static getPlaceholder(block: ContentBlock): string {
+		const lines = this.formatLines(block.position);
+		return `[Error rendering ${block.type} block${lines ? ` at ${lines}` : ''}]`;
+	}
+}
@@ -0,0 +1,164 @@
+import { EmbedResolver, EmbedSource } from './embedResolver';
+
+/**
+ * Creates an EmbedSource backed by an in-memory map of note name to content.
+ */
+function createSource(notes: Record<string, string>): EmbedSource {
+  return {
+    read: jest.fn(async (linkpath: string) => {
+      const content = notes[linkpath];
+      return content === undefined ? null : { path: `${linkpath}.md`, content };
+    }),
+  };
+}
+
+describe('EmbedResolver', () => {
+  describe('resolve', () => {
+    it('should return no embeds for empty input', async () => {
+      const resolver = new EmbedResolver(createSource({}), 5);
+      expect((await resolver.resolve('', 'Main.md')).size).toBe(0);
+    });
+
+    it('should return no embeds for notes without embeds', async () => {
+      const resolver = new EmbedResolver(createSource({}), 5);
+      expect((await resolver.resolve('# Title\n\nSome [[link]] text.', 'Main.md')).size).toBe(0);
+    });
+
+    it('should read a whole note without its frontmatter', async () => {
+      const source = createSource({ Part: '---\ntags: [x]\n---\n## Part\n\nPart body.' });
+      const resolver = new EmbedResolver(source, 5);
+
+      const embeds = await resolver.resolve('Intro\n\n![[Part]]\n\nOutro', 'Main.md');
+
+      expect(embeds.get('Part')).toEqual({ path: 'Part.md', content: '## Part\n\nPart body.', line: 4, embeds: new Map() });
+      expect(source.read).toHaveBeenCalledWith('Part', 'Main.md');
+    });
+
+    it('should read a heading section up to the next heading of the same level', async () => {
+      const source = createSource({
+        Spec: '# Spec\n\n## Scope\n\nIn scope.\n\n### Detail\n\nMore.\n\n## Risks\n\nNone.',
+      });
+      const resolver = new EmbedResolver(source, 5);
+
+      const embeds = await resolver.resolve('![[Spec#Scope]]', 'Main.md');
+
+      expect(embeds.get('Spec#Scope')).toMatchObject({ content: '## Scope\n\nIn scope.\n\n### Detail\n\nMore.', line: 3 });
+    });
+
+    it('should ignore headings inside code blocks when extracting sections', async () => {
+      const source = createSource({
+        Spec: '## Scope\n\n```\n## Not a heading\n```\n\nText.\n\n## Next',
+      });
+      const resolver = new EmbedResolver(source, 5);
+
+      const embeds = await resolver.resolve('![[Spec#Scope]]', 'Main.md');
+
+      expect(embeds.get('Spec#Scope')?.content).toBe('## Scope\n\n```\n## Not a heading\n```\n\nText.');
+    });
+
+    it('should read a paragraph block reference', async () => {
+      const source = createSource({ Notes: 'Other.\n\nThe key point\nspans lines. ^key\n\nAfter.' });
+      const resolver = new EmbedResolver(source, 5);
+
+      const embeds = await resolver.resolve('![[Notes#^key]]', 'Main.md');
+
+      expect(embeds.get('Notes#^key')).toMatchObject({ content: 'The key point\nspans lines.', line: 3 });
+    });
+
+    it('should read a list item block reference', async () => {
+      const source = createSource({ Notes: '- one\n- two ^item\n- three' });
+      const resolver = new EmbedResolver(source, 5);
+
+      const embeds = await resolver.resolve('![[Notes#^item]]', 'Main.md');
+
+      expect(embeds.get('Notes#^item')).toMatchObject({ content: '- two', line: 2 });
+    });
+
+    it('should read the preceding block for a standalone block marker', async () => {
+      const source = createSource({ Notes: 'Intro.\n\n| A | B |\n| - | - |\n| 1 | 2 |\n^table\n\nAfter.' });
+      const resolver = new EmbedResolver(source, 5);
+
+      const embeds = await resolver.resolve('![[Notes#^table]]', 'Main.md');
+
+      expect(embeds.get('Notes#^table')?.content).toBe('| A | B |\n| - | - |\n| 1 | 2 |');
+    });
+
+    it('should read sections of the current note', async () => {
+      const resolver = new EmbedResolver(createSource({}), 5);
+      const markdown = '## Summary\n\nShort.\n\n## Later\n\n![[#Summary]]';
+
+      const embeds = await resolver.resolve(markdown, 'Main.md');
+
+      expect(embeds.get('#Summary')).toEqual({ path: 'Main.md', content: '## Summary\n\nShort.', line: 1, embeds: new Map() });
+    });
+
+    it('should resolve nested embeds relative to the embedded note', async () => {
+      const source = createSource({ A: 'A body\n\n![[B]]', B: 'B body' });
+      const resolver = new EmbedResolver(source, 5);
+
+      const embeds = await resolver.resolve('![[A]]', 'Main.md');
+
+      expect(embeds.get('A')?.embeds.get('B')).toEqual({ path: 'B.md', content: 'B body', line: 1, embeds: new Map() });
+      expect(source.read).toHaveBeenCalledWith('B', 'A.md');
+    });
+
+    it('should leave out embeds beyond the depth limit', async () => {
+      const source = createSource({ A: '![[B]]', B: '![[C]]', C: 'C body' });
+      const resolver = new EmbedResolver(source, 2);
+
+      const embeds = await resolver.resolve('![[A]]', 'Main.md');
+
+      expect(embeds.get('A')?.embeds.get('B')?.embeds.size).toBe(0);
+    });
+
+    it('should break embed cycles', async () => {
+      const source = createSource({ A: 'A body\n\n![[B]]', B: 'B body\n\n![[A]]' });
+      const resolver = new EmbedResolver(source, 10);
+
+      const embeds = await resolver.resolve('![[A]]', 'Main.md');
+
+      expect(embeds.get('A')?.embeds.get('B')?.embeds.has('A')).toBe(false);
+    });
+
+    it('should leave out missing notes and sections', async () => {
+      const source = createSource({ A: '# Only' });
+      const resolver = new EmbedResolver(source, 5);
+
+      expect((await resolver.resolve('![[Missing]]\n![[A#Nope|Alias]]', 'Main.md')).size).toBe(0);
+    });
+
+    it('should key embeds by target without display text', async () => {
+      const source = createSource({ A: 'A body' });
+      const resolver = new EmbedResolver(source, 5);
+
+      const embeds = await resolver.resolve('![[A|Alias]]', 'Main.md');
+
+      expect([...embeds.keys()]).toEqual(['A']);
+    });
+
+    it('should leave attachment embeds to the parser', async () => {
+      const source = createSource({});
+      const resolver = new EmbedResolver(source, 5);
+
+      expect((await resolver.resolve('![[diagram.png]]', 'Main.md')).size).toBe(0);
+      expect(source.read).not.toHaveBeenCalled();
+    });
+
+    it('should not read embeds inside code blocks or mid-line', async () => {
+      const source = createSource({ A: 'A body' });
+      const resolver = new EmbedResolver(source, 5);
+
+      expect((await resolver.resolve('```\n![[A]]\n```\n\nSee ![[A]] inline.', 'Main.md')).size).toBe(0);
+      expect(source.read).not.toHaveBeenCalled();
+    });
+
+    it('should read embeds inside blockquotes and callouts', async () => {
+      const source = createSource({ A: 'Line one\n\nLine two' });
+      const resolver = new EmbedResolver(source, 5);
+
+      const embeds = await resolver.resolve('> [!note]\n> ![[A]]', 'Main.md');
+
+      expect(embeds.get('A')?.content).toBe('Line one\n\nLine two');
+    });
+  });
+});
@@ -0,0 +1,335 @@
+/**
+ * A note read through the vault for transclusion.
+ */
+export interface EmbeddedNote {
+	/** Vault path of the note, used for cycle detection and nested link resolution */
+	path: string;
+	/** Raw markdown content of the note */
+	content: string;
+}
+
+/**
+ * Source of embedded note content.
+ * Implemented by the plugin on top of the vault and metadata cache, and
+ * stubbed in tests.
+ */
+export interface EmbedSource {
+	/**
+	 * Resolves a link path relative to the embedding note and reads it.
+	 *
+	 * @param linkpath - The embed target without subpath (e.g., 'Folder/Note')
+	 * @param sourcePath - Vault path of the note containing the embed
+	 * @returns The embedded note, or null if it does not resolve to a markdown note
+	 */
+	read(linkpath: string, sourcePath: string): Promise<EmbeddedNote | null>;
+}
+
+/**
+ * A note embed resolved for transclusion, parsed by MarkdownParser in place
+ * of the embed with the embedded note as its source.
+ */
+export interface ResolvedEmbed {
+	/** Vault path of the embedded note, used to resolve its links, images and footnotes */
+	path: string;
+	/** Markdown of the embedded note or section, without frontmatter */
+	content: string;
+	/** Line of the embedded note the content starts at (1-based) */
+	line: number;
+	/** Note embeds inside the content */
+	embeds: EmbedMap;
+}
+
+/**
+ * Resolved note embeds of a piece of markdown, keyed by embed target as
+ * written without display text (e.g., 'Note#Heading' for ![[Note#Heading|Alias]]).
+ */
+export type EmbedMap = Map<string, ResolvedEmbed>;
+
+/**
+ * Part of a note addressed by an embed subpath.
+ */
+interface NoteSection {
+	/** Markdown of the part */
+	content: string;
+	/** Line the part starts at (1-based) */
+	line: number;
+}
+
+/**
+ * File extensions of embeds that are attachments rather than notes.
+ */
+const ATTACHMENT_EXTENSION_REGEX = /\.(png|jpe?g|gif|bmp|svg|webp|avif|pdf|mp3|wav|m4a|ogg|flac|mp4|webm|mov|mkv|canvas)$/i;
+
+/**
+ * EmbedResolver reads the Obsidian note embeds (![[note]], ![[note#Heading]],
+ * ![[note#^block]]) of a note ahead of parsing, following embeds inside
+ * embedded notes. MarkdownParser then parses each embedded note on its own
+ * and splices its blocks in place of the embed line.
+ */
+export class EmbedResolver {
+	private source: EmbedSource;
+	private maxDepth: number;
+
+	constructor(source: EmbedSource, maxDepth: number) {
+		this.source = source;
+		this.maxDepth = maxDepth;
+	}
+
+	/**
+	 * Resolves all note embeds in the markdown, recursing into embedded notes.
+	 * Embeds that cannot be resolved, would exceed the depth limit, or would
+	 * embed a note into itself are left out, so the parser exports them as
+	 * plain [[links]].
+	 *
+	 * @param markdown - The markdown content of the note
+	 * @param sourcePath - Vault path of the note
+	 * @returns The resolved embeds of the note
+	 */
+	async resolve(markdown: string, sourcePath: string): Promise<EmbedMap> {
+		if (!markdown) {
+			return new Map();
+		}
+		return this.resolveContent(markdown, { path: sourcePath, content: markdown }, [sourcePath], 0);
+	}
+
+	/**
+	 * Resolves the embeds in a single piece of markdown.
+	 *
+	 * @param markdown - The markdown content
+	 * @param note - The note the content belongs to
+	 * @param stack - Embed keys currently being resolved (cycle guard)
+	 * @param depth - Current transclusion depth
+	 */
+	private async resolveContent(
+		markdown: string,
+		note: EmbeddedNote,
+		stack: string[],
+		depth: number
+	): Promise<EmbedMap> {
+		const embeds: EmbedMap = new Map();
+		let fence: string | null = null;
+
+		for (const line of markdown.split('\n')) {
+			// Never transclude inside fenced code blocks
+			const fenceMatch = line.match(/^\s*(?:>\s*)*(`{3,}|~{3,})/);
+			if (fenceMatch) {
+				if (fence === null) {
+					fence = fenceMatch[1];
+				} else if (fenceMatch[1].startsWith(fence)) {
+					fence = null;
+				}
+				continue;
+			}
+
+			// Only embeds that stand on their own line are transcluded,
+			// including embeds inside blockquotes and callouts
+			const embedMatch = fence === null ? line.match(/^\s*(?:>\s?)*!\[\[([^\]]+)\]\]\s*$/) : null;
+			if (!embedMatch) {
+				continue;
+			}
+
+			const target = embedMatch[1].split('|')[0].trim();
+			if (!embeds.has(target)) {
+				const embed = await this.resolveEmbed(target, note, stack, depth);
+				if (embed) {
+					embeds.set(target, embed);
+				}
+			}
+		}
+
+		return embeds;
+	}
+
+	/**
+	 * Resolves a single embed target.
+	 *
+	 * @param target - Embed target without display text (e.g., 'Note#Heading')
+	 * @param current - The embedding note, also the target of same-note embeds
+	 * @param stack - Embed keys currently being resolved
+	 * @param depth - Current transclusion depth
+	 * @returns The resolved embed, or null to keep it as a link
+	 */
+	private async resolveEmbed(
+		target: string,
+		current: EmbeddedNote,
+		stack: string[],
+		depth: number
+	): Promise<ResolvedEmbed | null> {
+		const hashIndex = target.indexOf('#');
+		const linkpath = (hashIndex >= 0 ? target.slice(0, hashIndex) : target).trim();
+		const subpath = hashIndex >= 0 ? target.slice(hashIndex + 1).trim() : '';
+
+		// Non-note embeds (images, PDFs, ...) are left for the parser
+		if (ATTACHMENT_EXTENSION_REGEX.test(linkpath) || depth >= this.maxDepth) {
+			return null;
+		}
+
+		try {
+			// ![[#Heading]] embeds a section of the current note
+			const note = linkpath.length === 0
+				? current
+				: await this.source.read(linkpath, current.path);
+
+			if (!note) {
+				return null;
+			}
+
+			// Cycle guard: the same note section may not embed itself
+			const key = subpath ? `${note.path}#${subpath}` : note.path;
+			if (stack.includes(key)) {
+				return null;
+			}
+
+			const body = this.stripFrontmatter(note.content);
+			const section = this.extractSection(body, subpath);
+			if (section === null) {
+				return null;
+			}
+
+			// Count lines from the top of the note, frontmatter included
+			const frontmatterLines = this.countLineBreaks(note.content.slice(0, note.content.length - body.length));
+			return {
+				path: note.path,
+				content: section.content,
+				line: section.line + frontmatterLines,
+				embeds: await this.resolveContent(section.content, note, [...stack, key], depth + 1)
+			};
+		} catch {
+			return null;
+		}
+	}
+
+	/**
+	 * Extracts the part of a note addressed by an embed subpath.
+	 *
+	 * @param content - The note content (without frontmatter)
+	 * @param subpath - Heading path, ^block-id, or empty for the whole note
+	 * @returns The extracted markdown and its line in content, or null if the subpath is not found
+	 */
+	private extractSection(content: string, subpath: string): NoteSection | null {
+		if (!subpath) {
+			// Leading blank lines are dropped, so the note starts further down
+			const blankLines = this.countLineBreaks(/^(?:[ \t]*\n)*/.exec(content)![0]);
+			return { content: content.trim(), line: blankLines + 1 };
+		}
+
+		if (subpath.startsWith('^')) {
+			return this.extractBlock(content, subpath.slice(1));
+		}
+
+		// Nested heading paths (Heading#Subheading) address the last heading
+		const headings = subpath.split('#').filter(part => part.trim().length > 0);
+		return this.extractHeadingSection(content, headings[headings.length - 1] || '');
+	}
+
+	/**
+	 * Extracts a heading and everything below it up to the next heading of the
+	 * same or higher level.
+	 */
+	private extractHeadingSection(content: string, heading: string): NoteSection | null {
+		const lines = content.split('\n');
+		const wanted = this.normalizeHeading(heading);
+		let fence: string | null = null;
+		let start = -1;
+		let level = 0;
+
+		for (let i = 0; i < lines.length; i++) {
+			const fenceMatch = lines[i].match(/^\s*(`{3,}|~{3,})/);
+			if (fenceMatch) {
+				if (fence === null) {
+					fence = fenceMatch[1];
+				} else if (fenceMatch[1].startsWith(fence)) {
+					fence = null;
+				}
+				continue;
+			}
+			if (fence !== null) {
+				continue;
+			}
+
+			const headingMatch = lines[i].match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+			if (!headingMatch) {
+				continue;
+			}
+
+			if (start < 0) {
+				if (this.normalizeHeading(headingMatch[2]) === wanted) {
+					start = i;
+					level = headingMatch[1].length;
+				}
+			} else if (headingMatch[1].length <= level) {
+				return { content: lines.slice(start, i).join('\n').trim(), line: start + 1 };
+			}
+		}
+
+		return start >= 0 ? { content: lines.slice(start).join('\n').trim(), line: start + 1 } : null;
+	}
+
+	/**
+	 * Extracts the block marked with ^blockId.
+	 * A marker on its own line refers to the preceding block (e.g., a table or list);
+	 * a marker on a list item refers to that item; otherwise it marks a paragraph.
+	 */
+	private extractBlock(content: string, blockId: string): NoteSection | null {
+		const lines = content.split('\n');
+		const escapedId = blockId.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+		const markerRegex = new RegExp(`(^|\\s)\\^${escapedId}\\s*$`);
+		const index = lines.findIndex(line => markerRegex.test(line));
+
+		if (index < 0) {
+			return null;
+		}
+
+		const line = lines[index].replace(markerRegex, '').trimEnd();
+
+		// Marker on its own line: the block is the paragraph-separated run above it
+		if (line.trim().length === 0) {
+			let start = index;
+			while (start > 0 && lines[start - 1].trim().length > 0) {
+				start--;
+			}
+			const block = lines.slice(start, index).join('\n').trim();
+			return block ? { content: block, line: start + 1 } : null;
+		}
+
+		// List item: only the marked item
+		if (/^\s*(?:[-*+]|\d+[.)])\s/.test(line)) {
+			return { content: line.trim(), line: index + 1 };
+		}
+
+		// Paragraph: all lines up to the surrounding blank lines
+		let start = index;
+		while (start > 0 && lines[start - 1].trim().length > 0) {
+			start--;
+		}
+		let end = index;
+		while (end < lines.length - 1 && lines[end + 1].trim().length > 0) {
+			end++;
+		}
+
+		const paragraph = lines.slice(start, end + 1);
+		paragraph[index - start] = line;
+		return { content: paragraph.join('\n').trim(), line: start + 1 };
+	}
+
+	/**
+	 * Normalizes heading text for comparison with embed subpaths.
+	 */
+	private normalizeHeading(heading: string): string {
+		return heading.replace(/\s+/g, ' ').trim().toLowerCase();
+	}
+
+	/**
+	 * Counts the line breaks in a piece of markdown.
+	 */
+	private countLineBreaks(text: string): number {
+		return (text.match(/\n/g) || []).length;
+	}
+
+	/**
+	 * Strips YAML frontmatter from an embedded note.
+	 */
+	private stripFrontmatter(content: string): string {
+		return content.replace(/^---\n[\s\S]*?\n---\n?/, '');
+	}
+}
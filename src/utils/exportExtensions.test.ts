@@ -0,0 +1,76 @@
+import { ExportExtensions } from './exportExtensions';
+import { ExportDiagnostic } from '../types';
+
+describe('ExportExtensions', () => {
+  let extensions: ExportExtensions;
+
+  beforeEach(() => {
+    extensions = new ExportExtensions();
+  });
+
+  describe('preprocess', () => {
+    it('should run preprocessors in registration order', () => {
+      extensions.registerPreprocessor(markdown => markdown.replace('a', 'b'));
+      extensions.registerPreprocessor(markdown => markdown + '!');
+
+      expect(extensions.preprocess('a', {})).toBe('b!');
+    });
+
+    it('should pass the export context', () => {
+      extensions.registerPreprocessor((markdown, context) => `${markdown} ${context.sourcePath}`);
+
+      expect(extensions.preprocess('From', { sourcePath: 'Note.md' })).toBe('From Note.md');
+    });
+
+    it('should stop running unregistered preprocessors', () => {
+      const unregister = extensions.registerPreprocessor(markdown => markdown.toUpperCase());
+      unregister();
+
+      expect(extensions.preprocess('text', {})).toBe('text');
+    });
+
+    it('should skip and report preprocessors that throw', () => {
+      const diagnostics: ExportDiagnostic[] = [];
+      extensions.registerPreprocessor(() => {
+        throw new Error('Bad rule');
+      });
+      extensions.registerPreprocessor(markdown => markdown + '!');
+
+      expect(extensions.preprocess('text', { sourcePath: 'Notes/Plan.md' }, diagnostics)).toBe('text!');
+      expect(diagnostics).toEqual([{ message: 'Markdown preprocessor failed on Plan: Bad rule; exported without its changes' }]);
+    });
+  });
+
+  describe('fence handlers', () => {
+    it('should look up handlers case-insensitively', () => {
+      const handler = jest.fn();
+      extensions.registerFenceHandler('ADR', handler);
+
+      expect(extensions.getFenceHandler('adr')).toBe(handler);
+      expect(extensions.getFenceHandler('risk')).toBeUndefined();
+    });
+
+    it('should keep a newer handler when an older one is unregistered', () => {
+      const first = jest.fn();
+      const second = jest.fn();
+      const unregisterFirst = extensions.registerFenceHandler('adr', first);
+      extensions.registerFenceHandler('adr', second);
+      unregisterFirst();
+
+      expect(extensions.getFenceHandler('adr')).toBe(second);
+    });
+  });
+
+  describe('renderers', () => {
+    it('should keep renderers per exporter', () => {
+      const html = jest.fn();
+      const unregister = extensions.registerRenderer('html', 'risk', html);
+
+      expect(extensions.getRenderer('html', 'risk')).toBe(html);
+      expect(extensions.getRenderer('clipboard', 'risk')).toBeUndefined();
+
+      unregister();
+      expect(extensions.getRenderer('html', 'risk')).toBeUndefined();
+    });
+  });
+});
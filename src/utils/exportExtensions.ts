@@ -0,0 +1,171 @@
+import { Paragraph, Table } from 'docx';
+import { ContentBlock, CustomBlock, ExportContext, ExportDiagnostic, InlineContent, PluginSettings } from '../types';
+import { Diagnostics } from './diagnostics';
+
+/**
+ * Rewrites the markdown of a note before it is parsed.
+ * Runs before the built-in pre-processing (frontmatter, footnotes, Mermaid),
+ * in registration order. Keep the line count unchanged so export warnings
+ * point at the right lines. A preprocessor that throws is skipped and
+ * reported as an export warning.
+ */
+export type MarkdownPreprocessor = (markdown: string, context: ExportContext) => string;
+
+/**
+ * Information and helpers passed to a fence handler.
+ */
+export interface FenceContext {
+	/** Language of the fence, lowercase (e.g., 'adr') */
+	language: string;
+	/** Full info string after the opening fence (e.g., 'adr title="Storage"') */
+	info: string;
+	/** Plugin settings of the export */
+	settings: PluginSettings;
+	/** Parses markdown inline formatting (bold, links, math) */
+	parseInline(text: string): InlineContent[];
+	/** Parses markdown into blocks */
+	parseBlocks(markdown: string): ContentBlock[];
+}
+
+/**
+ * Converts the code of a fenced block with a registered language into a block.
+ * Returning null keeps the fence as a regular code block.
+ */
+export type FenceHandler = (code: string, context: FenceContext) => ContentBlock | null;
+
+/**
+ * Information and helpers passed to a block renderer.
+ */
+export interface RenderContext<T> {
+	/** Plugin settings of the export */
+	settings: PluginSettings;
+	/** Renders built-in blocks with the exporter, e.g. a table built from the custom block */
+	renderBlocks(blocks: ContentBlock[]): T[];
+}
+
+/**
+ * Renders a custom block for one exporter.
+ */
+export type BlockRenderer<T> = (block: CustomBlock, context: RenderContext<T>) => T[];
+
+/**
+ * Output types of the block renderers of each exporter.
+ */
+export interface ExporterOutputs {
+	/** DOCX elements */
+	docx: Paragraph | Table;
+	/** HTML fragments of HTML file exports */
+	html: string;
+	/** HTML fragments with inline styles for clipboard exports */
+	clipboard: string;
+}
+
+/**
+ * Exporters that accept custom block renderers.
+ */
+export type ExporterName = keyof ExporterOutputs;
+
+/**
+ * ExportExtensions holds the preprocessors, fence handlers and block
+ * renderers registered by other plugins and snippets. The plugin owns one
+ * instance and passes it to the parser and exporters through ExportContext.
+ * Every register method returns a function that removes the registration.
+ */
+export class ExportExtensions {
+	private preprocessors: MarkdownPreprocessor[] = [];
+	private fenceHandlers = new Map<string, FenceHandler>();
+	private renderers: { [Name in ExporterName]: Map<string, BlockRenderer<ExporterOutputs[Name]>> } = {
+		docx: new Map(),
+		html: new Map(),
+		clipboard: new Map()
+	};
+
+	/**
+	 * Registers a markdown preprocessor.
+	 *
+	 * @param preprocessor - Function rewriting the note's markdown
+	 * @returns Function that unregisters the preprocessor
+	 */
+	registerPreprocessor(preprocessor: MarkdownPreprocessor): () => void {
+		this.preprocessors.push(preprocessor);
+		return () => {
+			this.preprocessors = this.preprocessors.filter(registered => registered !== preprocessor);
+		};
+	}
+
+	/**
+	 * Registers a handler for fenced code blocks of a language.
+	 * A later registration for the same language replaces the earlier one.
+	 * Mermaid fences are always handled by the built-in Mermaid support.
+	 *
+	 * @param language - Fence language (case-insensitive, e.g., 'adr')
+	 * @param handler - Function converting the fence code to a block
+	 * @returns Function that unregisters the handler
+	 */
+	registerFenceHandler(language: string, handler: FenceHandler): () => void {
+		const key = language.trim().toLowerCase();
+		this.fenceHandlers.set(key, handler);
+		return () => {
+			if (this.fenceHandlers.get(key) === handler) {
+				this.fenceHandlers.delete(key);
+			}
+		};
+	}
+
+	/**
+	 * Registers the renderer of an exporter for custom blocks with a name.
+	 * Exporters without a renderer export the block's fallback blocks.
+	 *
+	 * @param exporter - The exporter using the renderer
+	 * @param name - Name of the custom blocks (CustomBlock.name)
+	 * @param renderer - Function rendering the block
+	 * @returns Function that unregisters the renderer
+	 */
+	registerRenderer<Name extends ExporterName>(
+		exporter: Name,
+		name: string,
+		renderer: BlockRenderer<ExporterOutputs[Name]>
+	): () => void {
+		const renderers = this.renderers[exporter] as Map<string, BlockRenderer<ExporterOutputs[Name]>>;
+		renderers.set(name, renderer);
+		return () => {
+			if (renderers.get(name) === renderer) {
+				renderers.delete(name);
+			}
+		};
+	}
+
+	/**
+	 * Runs all preprocessors over the markdown in registration order.
+	 * A preprocessor that throws is skipped and reported in diagnostics.
+	 *
+	 * @param markdown - The note's markdown
+	 * @param context - Runtime information about the exported note
+	 * @param diagnostics - Receives a diagnostic for each failing preprocessor
+	 * @returns The rewritten markdown
+	 */
+	preprocess(markdown: string, context: ExportContext, diagnostics: ExportDiagnostic[] = []): string {
+		return this.preprocessors.reduce((current, preprocessor) => {
+			try {
+				return preprocessor(current, context);
+			} catch (error) {
+				diagnostics.push(Diagnostics.preprocessorError(error, context.sourcePath));
+				return current;
+			}
+		}, markdown);
+	}
+
+	/**
+	 * Returns the fence handler for a language, if one is registered.
+	 */
+	getFenceHandler(language: string): FenceHandler | undefined {
+		return this.fenceHandlers.get(language.trim().toLowerCase());
+	}
+
+	/**
+	 * Returns the renderer of an exporter for custom blocks with a name, if one is registered.
+	 */
+	getRenderer<Name extends ExporterName>(exporter: Name, name: string): BlockRenderer<ExporterOutputs[Name]> | undefined {
+		return (this.renderers[exporter] as Map<string, BlockRenderer<ExporterOutputs[Name]>>).get(name);
+	}
+}
@@ -0,0 +1,80 @@
+import { FrontmatterParser } from './frontmatterParser';
+
+describe('FrontmatterParser', () => {
+  describe('parse', () => {
+    it('should return empty properties for empty input', () => {
+      expect(FrontmatterParser.parse('')).toEqual({ properties: {} });
+    });
+
+    it('should read well-known scalar properties', () => {
+      const yaml = 'title: "Design Doc"\nauthor: Jane Doe\ndescription: \'Short summary\'\ndate: 2024-01-15';
+      const metadata = FrontmatterParser.parse(yaml);
+
+      expect(metadata.title).toBe('Design Doc');
+      expect(metadata.author).toBe('Jane Doe');
+      expect(metadata.description).toBe('Short summary');
+      expect(metadata.date).toBe('2024-01-15');
+    });
+
+    it('should read flow list tags', () => {
+      const metadata = FrontmatterParser.parse('tags: [project, "#draft"]');
+
+      expect(metadata.tags).toEqual(['project', 'draft']);
+      expect(metadata.properties.tags).toEqual(['project', '#draft']);
+    });
+
+    it('should keep commas inside quoted flow list items', () => {
+      const metadata = FrontmatterParser.parse('tags: ["a, b", c]\naliases: [\'Smith, J\', "Doe, \'Jo\'"]');
+
+      expect(metadata.properties.tags).toEqual(['a, b', 'c']);
+      expect(metadata.properties.aliases).toEqual(['Smith, J', "Doe, 'Jo'"]);
+    });
+
+    it('should read block list tags, indented or not', () => {
+      expect(FrontmatterParser.parse('tags:\n  - one\n  - two').tags).toEqual(['one', 'two']);
+      expect(FrontmatterParser.parse('tags:\n- one\n- two').tags).toEqual(['one', 'two']);
+    });
+
+    it('should split tags written as a single string', () => {
+      expect(FrontmatterParser.parse('tags: one, two #three').tags).toEqual(['one', 'two']);
+      expect(FrontmatterParser.parse('tags: "one two"').tags).toEqual(['one', 'two']);
+    });
+
+    it('should join multiple authors', () => {
+      const metadata = FrontmatterParser.parse('authors:\n  - Ann\n  - Bob');
+
+      expect(metadata.author).toBe('Ann, Bob');
+    });
+
+    it('should read block scalars', () => {
+      const literal = FrontmatterParser.parse('description: |\n  Line one\n  Line two');
+      const folded = FrontmatterParser.parse('description: >\n  Line one\n  Line two');
+
+      expect(literal.description).toBe('Line one\nLine two');
+      expect(folded.description).toBe('Line one Line two');
+    });
+
+    it('should keep all properties and skip comments', () => {
+      const metadata = FrontmatterParser.parse('# comment\nstatus: draft # inline\ncustom: value');
+
+      expect(metadata.properties).toEqual({ status: 'draft', custom: 'value' });
+      expect(metadata.title).toBeUndefined();
+    });
+
+    it('should keep nested mappings as key: value entries', () => {
+      const metadata = FrontmatterParser.parse('owner:\n  name: Ann\n  team: Docs\nstatus: draft');
+
+      expect(metadata.properties).toEqual({ owner: ['name: Ann', 'team: Docs'], status: 'draft' });
+    });
+
+    it('should fall back to created for the date', () => {
+      expect(FrontmatterParser.parse('created: 2023-05-01').date).toBe('2023-05-01');
+    });
+
+    it('should read the toc flag', () => {
+      expect(FrontmatterParser.parse('toc: true').toc).toBe(true);
+      expect(FrontmatterParser.parse('toc: no').toc).toBe(false);
+      expect(FrontmatterParser.parse('toc: maybe').toc).toBeUndefined();
+    });
+  });
+});
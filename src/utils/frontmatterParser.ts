@@ -0,0 +1,231 @@
+import { DocumentMetadata } from '../types';
+
+/**
+ * FrontmatterParser reads YAML frontmatter into document metadata.
+ * Supports the subset of YAML used for Obsidian properties: scalar values,
+ * flow lists ([a, b]), block lists (- item), and block scalars (| or >).
+ *
+ * The parser utilities stay free of the Obsidian API, so this is not a full
+ * YAML parser. Known limits:
+ * - Nested mappings become a list of `key: value` entries, one per line,
+ *   without their deeper structure.
+ * - Flow mappings ({a: 1}), anchors and aliases are kept as their raw text,
+ *   and plain scalars continued on the next line keep only their first line.
+ * - Values are always strings; numbers and booleans are not typed.
+ */
+export class FrontmatterParser {
+	/**
+	 * Parses a frontmatter block into DocumentMetadata.
+	 * Well-known properties (title, author, description, tags, date) are
+	 * normalized; all properties are kept in `properties`.
+	 *
+	 * @param yaml - The YAML between the --- markers
+	 * @returns Parsed metadata (empty properties if nothing could be read)
+	 */
+	static parse(yaml: string): DocumentMetadata {
+		try {
+			const properties = this.parseProperties(yaml || '');
+			const metadata: DocumentMetadata = { properties };
+
+			const title = this.getScalar(properties, ['title']);
+			if (title) {
+				metadata.title = title;
+			}
+
+			const author = this.getScalar(properties, ['author', 'authors']);
+			if (author) {
+				metadata.author = author;
+			}
+
+			const description = this.getScalar(properties, ['description', 'summary']);
+			if (description) {
+				metadata.description = description;
+			}
+
+			const date = this.getScalar(properties, ['date', 'created']);
+			if (date) {
+				metadata.date = date;
+			}
+
+			const toc = this.getBoolean(properties, 'toc');
+			if (toc !== undefined) {
+				metadata.toc = toc;
+			}
+
+			const tags = this.getTags(properties);
+			if (tags.length > 0) {
+				metadata.tags = tags;
+			}
+
+			return metadata;
+		} catch {
+			// Malformed frontmatter: keep exporting without metadata
+			return { properties: {} };
+		}
+	}
+
+	/**
+	 * Parses top-level key/value pairs.
+	 * Nested mappings are kept as a list of their `key: value` lines.
+	 */
+	private static parseProperties(yaml: string): Record<string, string | string[]> {
+		const properties: Record<string, string | string[]> = {};
+		const lines = yaml.split('\n');
+		let i = 0;
+
+		while (i < lines.length) {
+			const line = lines[i];
+			const keyMatch = line.match(/^([^\s#][^:]*):(?:\s+(.*))?$/);
+
+			if (!keyMatch) {
+				i++;
+				continue;
+			}
+
+			const key = this.unquote(keyMatch[1].trim());
+			const rawValue = (keyMatch[2] || '').trim();
+			i++;
+
+			// Collect indented continuation lines (block lists, block scalars, nested maps)
+			const nested: string[] = [];
+			while (i < lines.length && (lines[i].trim() === '' || /^\s+/.test(lines[i]) || /^-\s/.test(lines[i]))) {
+				nested.push(lines[i]);
+				i++;
+			}
+
+			properties[key] = this.parseValue(rawValue, nested);
+		}
+
+		return properties;
+	}
+
+	/**
+	 * Parses a property value from its inline part and continuation lines.
+	 */
+	private static parseValue(rawValue: string, nested: string[]): string | string[] {
+		// Flow list: [a, "b", c]
+		if (rawValue.startsWith('[') && rawValue.endsWith(']')) {
+			return this.splitFlowList(rawValue.slice(1, -1))
+				.map(item => this.unquote(item.trim()))
+				.filter(item => item.length > 0);
+		}
+
+		// Block scalar: | keeps line breaks, > folds them
+		if (/^[|>][-+]?$/.test(rawValue)) {
+			const text = nested.map(line => line.trim());
+			return rawValue.startsWith('|')
+				? text.join('\n').trim()
+				: text.join(' ').replace(/\s+/g, ' ').trim();
+		}
+
+		if (rawValue.length > 0) {
+			return this.unquote(this.stripComment(rawValue));
+		}
+
+		// Block list:
+		//   - a
+		//   - b
+		const contentLines = nested.filter(line => line.trim().length > 0);
+		if (contentLines.length > 0 && contentLines.every(line => /^\s*-\s/.test(line))) {
+			return contentLines.map(line => this.unquote(line.replace(/^\s*-\s+/, '').trim()));
+		}
+
+		// Nested mapping:
+		//   key: value
+		if (contentLines.length > 0 && contentLines.every(line => /^\s*[^\s#-][^:]*:(?:\s|$)/.test(line))) {
+			return contentLines.map(line => line.trim());
+		}
+
+		return contentLines.map(line => line.trim()).join(' ');
+	}
+
+	/**
+	 * Splits the inside of a flow list on commas outside of quotes.
+	 */
+	private static splitFlowList(text: string): string[] {
+		const items: string[] = [];
+		let quote = '';
+		let current = '';
+
+		for (const char of text) {
+			if (quote) {
+				if (char === quote) {
+					quote = '';
+				}
+			} else if (char === '"' || char === '\'') {
+				quote = char;
+			} else if (char === ',') {
+				items.push(current);
+				current = '';
+				continue;
+			}
+			current += char;
+		}
+		items.push(current);
+
+		return items;
+	}
+
+	/**
+	 * Returns the first non-empty property among the given keys as a string.
+	 * List values are joined with commas.
+	 */
+	private static getScalar(properties: Record<string, string | string[]>, keys: string[]): string | undefined {
+		for (const key of keys) {
+			const value = properties[key];
+			const text = Array.isArray(value) ? value.join(', ') : value;
+			if (text && text.trim().length > 0) {
+				return text.trim();
+			}
+		}
+		return undefined;
+	}
+
+	/**
+	 * Reads a true/false (or yes/no) property, undefined if missing or not a boolean.
+	 */
+	private static getBoolean(properties: Record<string, string | string[]>, key: string): boolean | undefined {
+		const value = this.getScalar(properties, [key])?.toLowerCase();
+		if (value === 'true' || value === 'yes') {
+			return true;
+		}
+		if (value === 'false' || value === 'no') {
+			return false;
+		}
+		return undefined;
+	}
+
+	/**
+	 * Normalizes tags from `tags` or `tag`, accepting lists and comma or
+	 * space separated strings, with or without a leading '#'.
+	 */
+	private static getTags(properties: Record<string, string | string[]>): string[] {
+		const value = properties['tags'] ?? properties['tag'];
+		if (!value) {
+			return [];
+		}
+
+		const items = Array.isArray(value) ? value : value.split(/[,\s]+/);
+		return items
+			.map(tag => tag.trim().replace(/^#/, ''))
+			.filter(tag => tag.length > 0);
+	}
+
+	/**
+	 * Removes a trailing YAML comment from an unquoted value.
+	 */
+	private static stripComment(value: string): string {
+		if (/^["']/.test(value)) {
+			return value;
+		}
+		return value.replace(/\s+#.*$/, '');
+	}
+
+	/**
+	 * Removes matching single or double quotes around a value.
+	 */
+	private static unquote(value: string): string {
+		const match = value.match(/^(["'])([\s\S]*)\1$/);
+		return match ? match[2] : value;
+	}
+}
@@ -0,0 +1,131 @@
+import { ImageLoader, ImageSource } from './imageLoader';
+import { ParsedContent } from '../types';
+
+/**
+ * Builds a PNG header with the given pixel size (enough for getSize).
+ */
+function createPng(width: number, height: number): Uint8Array {
+  const data = new Uint8Array(24);
+  const view = new DataView(data.buffer);
+  data.set([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+  view.setUint32(16, width);
+  view.setUint32(20, height);
+  return data;
+}
+
+/**
+ * Creates an ImageSource backed by an in-memory map of URL to file.
+ */
+function createSource(files: Record<string, Uint8Array>): ImageSource {
+  return {
+    read: jest.fn(async (url: string) => {
+      const file = files[url];
+      return file ? file.slice().buffer : null;
+    }),
+  };
+}
+
+describe('ImageLoader', () => {
+  const content: ParsedContent = {
+    blocks: [
+      { type: 'image', alt: 'chart', url: 'chart.png' },
+      {
+        type: 'paragraph',
+        content: [
+          { type: 'text', content: 'Icon ' },
+          { type: 'image', alt: 'icon', url: 'icon.png' }
+        ]
+      },
+      {
+        type: 'table',
+        headers: [[{ type: 'text', content: 'Build' }]],
+        rows: [[[{ type: 'link', url: 'https://ci.example.com', text: [{ type: 'image', alt: 'ci', url: 'badge.png' }] }]]]
+      },
+      {
+        type: 'list',
+        ordered: false,
+        items: [{ content: [{ type: 'bold', content: [{ type: 'image', alt: 'icon', url: 'icon.png' }] }] }]
+      }
+    ]
+  };
+
+  describe('collectImages', () => {
+    it('should list images of image blocks, paragraphs, table cells, links and lists once', () => {
+      expect(ImageLoader.collectImages(content).map(image => image.url)).toEqual(['chart.png', 'icon.png', 'badge.png']);
+    });
+  });
+
+  describe('load', () => {
+    it('should read images through the source with their size', async () => {
+      const source = createSource({ 'icon.png': createPng(32, 16) });
+      const images = await new ImageLoader(source).load(content, 'Notes/Main.md');
+
+      expect(source.read).toHaveBeenCalledWith('icon.png', 'Notes/Main.md');
+      expect(images.get('icon.png')).toMatchObject({ width: 32, height: 16 });
+      expect(images.has('badge.png')).toBe(false);
+    });
+
+    it('should read images of transcluded notes relative to those notes', async () => {
+      const source = createSource({ 'icon.png': createPng(8, 8) });
+      const embedded: ParsedContent = {
+        blocks: [
+          { type: 'image', alt: 'icon', url: 'icon.png' },
+          { type: 'image', alt: 'icon', url: 'icon.png', sourcePath: 'Parts/Part.md' }
+        ]
+      };
+
+      const images = await new ImageLoader(source).load(embedded, 'Main.md');
+
+      expect(source.read).toHaveBeenCalledWith('icon.png', 'Main.md');
+      expect(source.read).toHaveBeenCalledWith('icon.png', 'Parts/Part.md');
+      expect(images.has(ImageLoader.getKey({ url: 'icon.png', sourcePath: 'Parts/Part.md' }))).toBe(true);
+    });
+
+    it('should leave out images whose format is unknown', async () => {
+      const source = createSource({ 'icon.png': new TextEncoder().encode('<svg></svg>') });
+      const images = await new ImageLoader(source).load(content, 'Main.md');
+
+      expect(images.size).toBe(0);
+    });
+
+    it('should leave out images the source fails to read', async () => {
+      const source: ImageSource = { read: jest.fn().mockRejectedValue(new Error('offline')) };
+      const images = await new ImageLoader(source).load(content, 'Main.md');
+
+      expect(images.size).toBe(0);
+    });
+  });
+
+  describe('decodeDataUrl', () => {
+    it('should decode base64 data URLs', () => {
+      const png = createPng(4, 3);
+      const url = `data:image/png;base64,${Buffer.from(png).toString('base64')}`;
+
+      expect(ImageLoader.decodeDataUrl(url)).toEqual(png);
+      expect(ImageLoader.decodeDataUrl('https://example.com/a.png')).toBeNull();
+    });
+  });
+
+  describe('getSize', () => {
+    it('should read the size of GIF, BMP and JPEG files', () => {
+      const gif = new Uint8Array([0x47, 0x49, 0x46, 0x38, 0x39, 0x61, 0x0a, 0x00, 0x05, 0x00]);
+      const bmp = new Uint8Array(26);
+      bmp.set([0x42, 0x4d]);
+      new DataView(bmp.buffer).setInt32(18, 20, true);
+      new DataView(bmp.buffer).setInt32(22, -10, true);
+      const jpeg = new Uint8Array([
+        0xff, 0xd8,
+        0xff, 0xe0, 0x00, 0x04, 0x00, 0x00,
+        0xff, 0xc0, 0x00, 0x11, 0x08, 0x00, 0x30, 0x00, 0x40
+      ]);
+
+      expect(ImageLoader.getSize(gif)).toEqual({ width: 10, height: 5 });
+      expect(ImageLoader.getSize(bmp)).toEqual({ width: 20, height: 10 });
+      expect(ImageLoader.getSize(jpeg)).toEqual({ width: 64, height: 48 });
+    });
+
+    it('should return null for other files', () => {
+      expect(ImageLoader.getSize(new Uint8Array([1, 2, 3, 4]))).toBeNull();
+    });
+  });
+});
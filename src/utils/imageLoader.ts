@@ -0,0 +1,254 @@
+import { ContentBlock, InlineContent, ParsedContent } from '../types';
+
+/**
+ * Reads the images a note shows, supplied by the plugin so the loader
+ * works without a vault (e.g., in tests).
+ */
+export interface ImageSource {
+	/**
+	 * Reads an image referenced by a note.
+	 *
+	 * @param url - Image URL or vault path as written in the markdown
+	 * @param sourcePath - Vault path of the note containing the image
+	 * @returns The image file, or null if it cannot be found
+	 */
+	read(url: string, sourcePath: string): Promise<ArrayBuffer | null>;
+}
+
+/**
+ * Pixel size of an image.
+ */
+export interface ImageSize {
+	width: number;
+	height: number;
+}
+
+/**
+ * An image as referenced by the parsed content.
+ */
+export interface ImageReference {
+	/** Image URL or vault path as written in the markdown */
+	url: string;
+	/** Vault path of the transcluded note showing the image, if not the exported note */
+	sourcePath?: string;
+}
+
+/**
+ * Image file read for embedding, with its pixel size.
+ */
+export interface LoadedImage extends ImageSize {
+	data: Uint8Array;
+}
+
+/**
+ * ImageLoader reads the images of a note, on their own line or inside
+ * paragraphs, list items and table cells, so the DOCX exporter can embed them. data: URLs are decoded directly;
+ * other URLs are read through the ImageSource. Images that cannot be read,
+ * or whose format Word cannot show (anything but PNG, JPEG, GIF and BMP),
+ * are left out and exported as placeholders.
+ */
+export class ImageLoader {
+	private source: ImageSource | undefined;
+
+	constructor(source?: ImageSource) {
+		this.source = source;
+	}
+
+	/**
+	 * Loads every image of the parsed content.
+	 *
+	 * Images of transcluded notes are read relative to those notes.
+	 *
+	 * @param content - The parsed note
+	 * @param sourcePath - Vault path of the note
+	 * @returns The loaded images by ImageLoader.getKey
+	 */
+	async load(content: ParsedContent, sourcePath: string): Promise<Map<string, LoadedImage>> {
+		const images = new Map<string, LoadedImage>();
+
+		for (const image of ImageLoader.collectImages(content)) {
+			const data = await this.read(image.url, image.sourcePath || sourcePath);
+			const size = data ? ImageLoader.getSize(data) : null;
+			if (data && size) {
+				images.set(ImageLoader.getKey(image), { data, ...size });
+			}
+		}
+
+		return images;
+	}
+
+	/**
+	 * Lists the images in the parsed content, without duplicates.
+	 *
+	 * @param content - The parsed note
+	 * @returns Images in document order
+	 */
+	static collectImages(content: ParsedContent): ImageReference[] {
+		const images = new Map<string, ImageReference>();
+		this.collectFromBlocks(content.blocks, images);
+		for (const footnote of content.footnotes || []) {
+			this.collectFromBlocks(footnote.content, images);
+		}
+		return [...images.values()];
+	}
+
+	/**
+	 * Returns the key of an image in the map returned by load: its URL,
+	 * prefixed with the note it is relative to for images of transcluded notes.
+	 *
+	 * @param image - The image block or inline image
+	 */
+	static getKey(image: ImageReference): string {
+		return image.sourcePath ? `${image.sourcePath}\n${image.url}` : image.url;
+	}
+
+	/**
+	 * Decodes a base64 data: URL.
+	 *
+	 * @param url - URL such as 'data:image/png;base64,iVBOR...'
+	 * @returns The decoded bytes, or null for other URLs
+	 */
+	static decodeDataUrl(url: string): Uint8Array | null {
+		const match = url.match(/^data:[^,]*;base64,([\s\S]*)$/);
+		if (!match) {
+			return null;
+		}
+		try {
+			const binary = atob(match[1].replace(/\s+/g, ''));
+			return Uint8Array.from(binary, char => char.charCodeAt(0));
+		} catch {
+			return null;
+		}
+	}
+
+	/**
+	 * Reads the pixel size from the header of a PNG, JPEG, GIF or BMP file.
+	 *
+	 * @param data - The image file
+	 * @returns The size, or null for other or damaged files
+	 */
+	static getSize(data: Uint8Array): ImageSize | null {
+		const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+		let size: ImageSize | null = null;
+
+		if (data.length >= 24 && view.getUint32(0) === 0x89504e47) {
+			// PNG: the IHDR chunk comes first
+			size = { width: view.getUint32(16), height: view.getUint32(20) };
+		} else if (data.length >= 10 && String.fromCharCode(...data.subarray(0, 4)) === 'GIF8') {
+			size = { width: view.getUint16(6, true), height: view.getUint16(8, true) };
+		} else if (data.length >= 26 && data[0] === 0x42 && data[1] === 0x4d) {
+			// BMP: negative heights mean top-down rows
+			size = { width: Math.abs(view.getInt32(18, true)), height: Math.abs(view.getInt32(22, true)) };
+		} else if (data.length >= 4 && data[0] === 0xff && data[1] === 0xd8) {
+			size = this.getJpegSize(data, view);
+		}
+
+		return size && size.width > 0 && size.height > 0 ? size : null;
+	}
+
+	/**
+	 * Reads an image, returning null when it cannot be read.
+	 */
+	private async read(url: string, sourcePath: string): Promise<Uint8Array | null> {
+		if (url.startsWith('data:')) {
+			return ImageLoader.decodeDataUrl(url);
+		}
+		if (!this.source) {
+			return null;
+		}
+		try {
+			const buffer = await this.source.read(url, sourcePath);
+			return buffer ? new Uint8Array(buffer) : null;
+		} catch {
+			return null;
+		}
+	}
+
+	/**
+	 * Finds the frame header (SOFn segment) of a JPEG file, which holds its size.
+	 */
+	private static getJpegSize(data: Uint8Array, view: DataView): ImageSize | null {
+		let offset = 2;
+		while (offset + 9 <= data.length) {
+			if (data[offset] !== 0xff) {
+				return null;
+			}
+			const marker = data[offset + 1];
+			// Fill bytes before a marker
+			if (marker === 0xff) {
+				offset++;
+				continue;
+			}
+			// SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+			if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+				return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+			}
+			offset += 2 + view.getUint16(offset + 2);
+		}
+		return null;
+	}
+
+	/**
+	 * Collects images from blocks, including nested blocks.
+	 */
+	private static collectFromBlocks(blocks: ContentBlock[], images: Map<string, ImageReference>): void {
+		for (const block of blocks) {
+			switch (block.type) {
+				case 'image':
+					this.addImage(block, images);
+					break;
+				case 'heading':
+				case 'paragraph':
+					this.collectFromInline(block.content, images);
+					break;
+				case 'list':
+					for (const item of block.items) {
+						this.collectFromInline(item.content, images);
+						this.collectFromBlocks(item.blocks || [], images);
+						this.collectFromBlocks(item.children ? [item.children] : [], images);
+					}
+					break;
+				case 'table':
+					for (const cell of [...block.headers, ...block.rows.flat()]) {
+						this.collectFromInline(cell, images);
+					}
+					break;
+				case 'callout':
+					this.collectFromInline(block.title, images);
+					this.collectFromBlocks(block.content, images);
+					break;
+				case 'blockquote':
+					this.collectFromBlocks(block.content, images);
+					break;
+				case 'custom':
+					this.collectFromBlocks(block.fallback || [], images);
+					break;
+			}
+		}
+	}
+
+	/**
+	 * Collects images from inline content, including formatted and linked content.
+	 */
+	private static collectFromInline(content: InlineContent[], images: Map<string, ImageReference>): void {
+		for (const item of content) {
+			if (item.type === 'image') {
+				this.addImage(item, images);
+			} else if (item.type === 'link') {
+				this.collectFromInline(item.text, images);
+			} else if ('content' in item && Array.isArray(item.content)) {
+				this.collectFromInline(item.content, images);
+			}
+		}
+	}
+
+	/**
+	 * Adds an image to the collected images unless it is already there.
+	 */
+	private static addImage(image: ImageReference, images: Map<string, ImageReference>): void {
+		const key = this.getKey(image);
+		if (!images.has(key)) {
+			images.set(key, { url: image.url, sourcePath: image.sourcePath });
+		}
+	}
+}
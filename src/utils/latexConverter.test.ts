@@ -0,0 +1,95 @@
+import { LatexConverter } from './latexConverter';
+
+describe('LatexConverter', () => {
+  describe('parse', () => {
+    it('should parse identifiers, numbers, and operators', () => {
+      expect(LatexConverter.parse('x + 12.5 - y')).toEqual([
+        { type: 'text', kind: 'identifier', value: 'x' },
+        { type: 'text', kind: 'operator', value: '+' },
+        { type: 'text', kind: 'number', value: '12.5' },
+        { type: 'text', kind: 'operator', value: '−' },
+        { type: 'text', kind: 'identifier', value: 'y' },
+      ]);
+    });
+
+    it('should parse fractions, roots, and scripts', () => {
+      expect(LatexConverter.parse('\\frac{1}{2}')).toEqual([{
+        type: 'fraction',
+        numerator: [{ type: 'text', kind: 'number', value: '1' }],
+        denominator: [{ type: 'text', kind: 'number', value: '2' }],
+      }]);
+      expect(LatexConverter.parse('\\sqrt[3]{x}')[0]).toMatchObject({ type: 'radical', degree: [{ value: '3' }] });
+      expect(LatexConverter.parse('x_i^2')[0]).toMatchObject({
+        type: 'scripts',
+        base: [{ value: 'x' }],
+        sub: [{ value: 'i' }],
+        sup: [{ value: '2' }],
+      });
+    });
+
+    it('should take a single digit as an unbraced script argument', () => {
+      const nodes = LatexConverter.parse('x^10');
+
+      expect(nodes).toHaveLength(2);
+      expect(nodes[0]).toMatchObject({ type: 'scripts', sup: [{ value: '1' }] });
+      expect(nodes[1]).toMatchObject({ type: 'text', value: '0' });
+    });
+
+    it('should map symbols, functions, and blackboard letters', () => {
+      expect(LatexConverter.parse('\\alpha \\leq \\infty')).toEqual([
+        { type: 'text', kind: 'identifier', value: 'α' },
+        { type: 'text', kind: 'operator', value: '≤' },
+        { type: 'text', kind: 'identifier', value: '∞' },
+      ]);
+      expect(LatexConverter.parse('\\sin')[0]).toEqual({ type: 'text', kind: 'function', value: 'sin' });
+      expect(LatexConverter.parse('\\mathbb{R}')[0]).toMatchObject({ value: 'ℝ' });
+      expect(LatexConverter.parse('\\not=')[0]).toMatchObject({ value: '≠' });
+    });
+
+    it('should parse delimiters and environments', () => {
+      expect(LatexConverter.parse('\\left( x \\right.')[0]).toMatchObject({ type: 'fenced', open: '(', close: '' });
+
+      const matrix = LatexConverter.parse('\\begin{pmatrix} a & b \\\\ c & d \\\\ \\end{pmatrix}')[0];
+      expect(matrix).toMatchObject({ type: 'matrix', open: '(', close: ')', aligned: false });
+      expect((matrix as any).rows).toHaveLength(2);
+      expect((matrix as any).rows[0]).toHaveLength(2);
+    });
+
+    it('should read text arguments verbatim', () => {
+      expect(LatexConverter.parse('\\text{if } x')[0]).toEqual({ type: 'text', kind: 'text', value: 'if ' });
+    });
+
+    it('should throw for unsupported or malformed input', () => {
+      expect(() => LatexConverter.parse('\\unknown')).toThrow('Unsupported command');
+      expect(() => LatexConverter.parse('\\frac{1}{2')).toThrow();
+      expect(() => LatexConverter.parse('x}')).toThrow();
+      expect(() => LatexConverter.parse('\\begin{tikzpicture}\\end{tikzpicture}')).toThrow('Unsupported environment');
+    });
+  });
+
+  describe('toMathML', () => {
+    it('should wrap output in a math element with the LaTeX annotation', () => {
+      const mathml = LatexConverter.toMathML('a<b', false);
+
+      expect(mathml).toBe(
+        '<math xmlns="http://www.w3.org/1998/Math/MathML"><semantics>'
+        + '<mrow><mi>a</mi><mo>&lt;</mo><mi>b</mi></mrow>'
+        + '<annotation encoding="application/x-tex">a&lt;b</annotation>'
+        + '</semantics></math>'
+      );
+    });
+
+    it('should mark display math as block', () => {
+      expect(LatexConverter.toMathML('x', true)).toContain('display="block"');
+    });
+
+    it('should render structures as MathML elements', () => {
+      expect(LatexConverter.toMathML('\\sqrt{x}', false)).toContain('<msqrt><mi>x</mi></msqrt>');
+      expect(LatexConverter.toMathML('x_i^2', false)).toContain('<msubsup><mi>x</mi><mi>i</mi><mn>2</mn></msubsup>');
+      expect(LatexConverter.toMathML('\\binom{n}{k}', false)).toContain('<mfrac linethickness="0">');
+      expect(LatexConverter.toMathML('\\hat{x}', false)).toContain('<mover accent="true"><mi>x</mi><mo>^</mo></mover>');
+      expect(LatexConverter.toMathML('\\begin{cases} 1 & x \\end{cases}', false))
+        .toContain('<mo fence="true">{</mo><mtable><mtr><mtd><mn>1</mn></mtd><mtd><mi>x</mi></mtd></mtr></mtable>');
+    });
+  });
+});
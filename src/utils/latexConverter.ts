@@ -0,0 +1,759 @@
+/**
+ * Node of the math syntax tree produced by LatexConverter.parse.
+ * Exporters render the tree as MathML (HTML) or OMML (DOCX).
+ */
+export type MathNode =
+	| MathTextNode
+	| MathSpaceNode
+	| MathRowNode
+	| MathFractionNode
+	| MathRadicalNode
+	| MathScriptsNode
+	| MathFencedNode
+	| MathAccentNode
+	| MathStyleNode
+	| MathMatrixNode;
+
+/**
+ * Leaf node: identifier (x), number (42), operator (+), function name (sin) or text.
+ */
+export interface MathTextNode {
+	type: 'text';
+	kind: 'identifier' | 'number' | 'operator' | 'function' | 'text';
+	value: string;
+}
+
+/**
+ * Explicit spacing (\, \quad, ...), width in em.
+ */
+export interface MathSpaceNode {
+	type: 'space';
+	width: number;
+}
+
+/**
+ * Group of nodes ({...}).
+ */
+export interface MathRowNode {
+	type: 'row';
+	children: MathNode[];
+}
+
+/**
+ * Fraction (\frac) or binomial coefficient (\binom, without a fraction bar).
+ */
+export interface MathFractionNode {
+	type: 'fraction';
+	numerator: MathNode[];
+	denominator: MathNode[];
+	/** True for \binom-style stacks without a fraction bar */
+	noBar?: boolean;
+}
+
+/**
+ * Square root or nth root (\sqrt[n]{x}).
+ */
+export interface MathRadicalNode {
+	type: 'radical';
+	body: MathNode[];
+	degree?: MathNode[];
+}
+
+/**
+ * Base with subscript and/or superscript (x_i^2).
+ */
+export interface MathScriptsNode {
+	type: 'scripts';
+	base: MathNode[];
+	sub?: MathNode[];
+	sup?: MathNode[];
+}
+
+/**
+ * Delimited expression (\left( ... \right)). Empty delimiters are omitted.
+ */
+export interface MathFencedNode {
+	type: 'fenced';
+	open: string;
+	close: string;
+	body: MathNode[];
+}
+
+/**
+ * Accent over an expression (\hat{x}, \vec{v}).
+ */
+export interface MathAccentNode {
+	type: 'accent';
+	/** Spacing accent character (e.g., '^') */
+	accent: string;
+	/** Combining character for single-letter bases (e.g., U+0302) */
+	combining: string;
+	body: MathNode[];
+}
+
+/**
+ * Font variant applied to an expression (\mathbf, \mathsf, ...).
+ */
+export interface MathStyleNode {
+	type: 'style';
+	variant: 'bold' | 'italic' | 'normal' | 'sans-serif' | 'monospace';
+	body: MathNode[];
+}
+
+/**
+ * Matrix-like environment (matrix, pmatrix, cases, aligned, ...).
+ */
+export interface MathMatrixNode {
+	type: 'matrix';
+	/** Rows of cells, each cell being a list of nodes */
+	rows: MathNode[][][];
+	/** Opening delimiter, empty for none */
+	open: string;
+	/** Closing delimiter, empty for none */
+	close: string;
+	/** True for alignment environments (aligned, gathered, align) */
+	aligned: boolean;
+}
+
+/**
+ * Symbols available as LaTeX commands.
+ */
+const SYMBOLS: Record<string, MathTextNode> = (() => {
+	const symbols: Record<string, MathTextNode> = {};
+	const identifiers: Record<string, string> = {
+		alpha: 'α', beta: 'β', gamma: 'γ', delta: 'δ', epsilon: 'ϵ', varepsilon: 'ε', zeta: 'ζ',
+		eta: 'η', theta: 'θ', vartheta: 'ϑ', iota: 'ι', kappa: 'κ', lambda: 'λ', mu: 'μ', nu: 'ν',
+		xi: 'ξ', pi: 'π', varpi: 'ϖ', rho: 'ρ', varrho: 'ϱ', sigma: 'σ', varsigma: 'ς', tau: 'τ',
+		upsilon: 'υ', phi: 'ϕ', varphi: 'φ', chi: 'χ', psi: 'ψ', omega: 'ω',
+		Gamma: 'Γ', Delta: 'Δ', Theta: 'Θ', Lambda: 'Λ', Xi: 'Ξ', Pi: 'Π', Sigma: 'Σ',
+		Upsilon: 'Υ', Phi: 'Φ', Psi: 'Ψ', Omega: 'Ω',
+		infty: '∞', partial: '∂', nabla: '∇', hbar: 'ℏ', ell: 'ℓ', emptyset: '∅', varnothing: '∅',
+		aleph: 'ℵ', Re: 'ℜ', Im: 'ℑ', wp: '℘', imath: 'ı', jmath: 'ȷ'
+	};
+	const operators: Record<string, string> = {
+		times: '×', cdot: '⋅', div: '÷', pm: '±', mp: '∓', ast: '∗', star: '⋆', circ: '∘', bullet: '∙',
+		leq: '≤', le: '≤', geq: '≥', ge: '≥', neq: '≠', ne: '≠', approx: '≈', equiv: '≡', sim: '∼',
+		simeq: '≃', cong: '≅', propto: '∝', ll: '≪', gg: '≫', prec: '≺', succ: '≻',
+		in: '∈', notin: '∉', ni: '∋', subset: '⊂', supset: '⊃', subseteq: '⊆', supseteq: '⊇',
+		cup: '∪', cap: '∩', setminus: '∖', wedge: '∧', land: '∧', vee: '∨', lor: '∨', neg: '¬', lnot: '¬',
+		forall: '∀', exists: '∃', nexists: '∄', top: '⊤', bot: '⊥', perp: '⊥', parallel: '∥', mid: '∣',
+		oplus: '⊕', otimes: '⊗', odot: '⊙',
+		to: '→', rightarrow: '→', leftarrow: '←', gets: '←', leftrightarrow: '↔', Rightarrow: '⇒',
+		Leftarrow: '⇐', Leftrightarrow: '⇔', implies: '⟹', impliedby: '⟸', iff: '⟺', mapsto: '↦',
+		longrightarrow: '⟶', longleftarrow: '⟵', uparrow: '↑', downarrow: '↓',
+		sum: '∑', prod: '∏', coprod: '∐', int: '∫', iint: '∬', iiint: '∭', oint: '∮',
+		bigcup: '⋃', bigcap: '⋂', bigoplus: '⨁', bigotimes: '⨂', bigvee: '⋁', bigwedge: '⋀',
+		ldots: '…', dots: '…', cdots: '⋯', vdots: '⋮', ddots: '⋱',
+		langle: '⟨', rangle: '⟩', lceil: '⌈', rceil: '⌉', lfloor: '⌊', rfloor: '⌋',
+		lvert: '|', rvert: '|', vert: '|', lVert: '‖', rVert: '‖', Vert: '‖',
+		lbrace: '{', rbrace: '}', prime: '′', angle: '∠', triangle: '△', therefore: '∴', because: '∵',
+		colon: ':', backslash: '\\'
+	};
+	for (const [name, value] of Object.entries(identifiers)) {
+		symbols[name] = { type: 'text', kind: 'identifier', value };
+	}
+	for (const [name, value] of Object.entries(operators)) {
+		symbols[name] = { type: 'text', kind: 'operator', value };
+	}
+	return symbols;
+})();
+
+/**
+ * Function names rendered upright (\sin, \log, ...).
+ */
+const FUNCTIONS = new Set([
+	'sin', 'cos', 'tan', 'cot', 'sec', 'csc', 'arcsin', 'arccos', 'arctan', 'sinh', 'cosh', 'tanh',
+	'coth', 'log', 'ln', 'lg', 'exp', 'lim', 'liminf', 'limsup', 'max', 'min', 'sup', 'inf', 'det',
+	'dim', 'ker', 'gcd', 'deg', 'arg', 'hom', 'Pr', 'mod', 'bmod'
+]);
+
+/**
+ * Accent commands: spacing character and combining character.
+ */
+const ACCENTS: Record<string, [string, string]> = {
+	hat: ['^', '̂'], widehat: ['^', '̂'], bar: ['¯', '̅'], overline: ['¯', '̅'],
+	vec: ['→', '⃗'], dot: ['˙', '̇'], ddot: ['¨', '̈'], tilde: ['~', '̃'],
+	widetilde: ['~', '̃'], acute: ['´', '́'], grave: ['`', '̀'], check: ['ˇ', '̌']
+};
+
+/**
+ * Spacing commands and their widths in em.
+ */
+const SPACES: Record<string, number> = {
+	',': 0.167, ':': 0.222, '>': 0.222, ';': 0.278, ' ': 0.333, '!': 0, quad: 1, qquad: 2
+};
+
+/**
+ * Font variant commands.
+ */
+const STYLES: Record<string, MathStyleNode['variant']> = {
+	mathbf: 'bold', boldsymbol: 'bold', bm: 'bold', mathit: 'italic', mathrm: 'normal',
+	mathsf: 'sans-serif', mathtt: 'monospace'
+};
+
+/**
+ * Text commands whose argument is read verbatim.
+ */
+const TEXT_COMMANDS = new Set(['text', 'textrm', 'textnormal', 'textbf', 'textit', 'textsf', 'texttt', 'mbox', 'operatorname']);
+
+/**
+ * Matrix environments and their delimiters.
+ */
+const ENVIRONMENTS: Record<string, [string, string, boolean]> = {
+	matrix: ['', '', false], smallmatrix: ['', '', false], pmatrix: ['(', ')', false],
+	bmatrix: ['[', ']', false], Bmatrix: ['{', '}', false], vmatrix: ['|', '|', false],
+	Vmatrix: ['‖', '‖', false], cases: ['{', '', false], array: ['', '', false],
+	aligned: ['', '', true], align: ['', '', true], 'align*': ['', '', true],
+	gathered: ['', '', true], gather: ['', '', true], 'gather*': ['', '', true],
+	split: ['', '', true], equation: ['', '', true], 'equation*': ['', '', true]
+};
+
+/**
+ * Recursive-descent reader for the supported LaTeX subset.
+ */
+class LatexReader {
+	private src: string;
+	private pos: number;
+
+	constructor(src: string) {
+		this.src = src;
+		this.pos = 0;
+	}
+
+	/**
+	 * Reads the complete input as a list of nodes.
+	 */
+	readAll(): MathNode[] {
+		const nodes = this.readRow();
+		this.skipSpace();
+		if (this.pos < this.src.length) {
+			throw new Error(`Unexpected '${this.src[this.pos]}' at position ${this.pos}`);
+		}
+		return nodes;
+	}
+
+	/**
+	 * Reads nodes until a closing brace, bracket (when requested), column or
+	 * row separator, \right, \end, or the end of input.
+	 */
+	private readRow(stopAtBracket: boolean = false): MathNode[] {
+		const nodes: MathNode[] = [];
+
+		for (;;) {
+			this.skipSpace();
+			if (this.pos >= this.src.length || this.atRowEnd(stopAtBracket)) {
+				return nodes;
+			}
+
+			let node = this.readAtom();
+
+			// Postfix: primes, subscripts, and superscripts
+			for (;;) {
+				this.skipSpace();
+				const char = this.src[this.pos];
+				if (char === "'") {
+					this.pos++;
+					node = this.attachScript(node, 'sup', [{ type: 'text', kind: 'operator', value: '′' }]);
+				} else if (char === '^' || char === '_') {
+					this.pos++;
+					node = this.attachScript(node, char === '^' ? 'sup' : 'sub', this.readArgument());
+				} else {
+					break;
+				}
+			}
+
+			nodes.push(node);
+		}
+	}
+
+	/**
+	 * Returns true if the reader is at a row terminator.
+	 */
+	private atRowEnd(stopAtBracket: boolean): boolean {
+		const rest = this.src.slice(this.pos);
+		return rest.startsWith('}')
+			|| rest.startsWith('&')
+			|| rest.startsWith('\\\\')
+			|| /^\\(right|end)(?![a-zA-Z])/.test(rest)
+			|| (stopAtBracket && rest.startsWith(']'));
+	}
+
+	/**
+	 * Adds a subscript or superscript to a node, merging with existing scripts.
+	 */
+	private attachScript(node: MathNode, position: 'sub' | 'sup', script: MathNode[]): MathNode {
+		if (node.type === 'scripts' && !node[position]) {
+			return { ...node, [position]: script };
+		}
+		// x^a^b: the second script applies to the whole expression
+		return { type: 'scripts', base: [node], [position]: script };
+	}
+
+	/**
+	 * Reads a command or script argument: a braced group or a single atom.
+	 */
+	private readArgument(): MathNode[] {
+		this.skipSpace();
+		if (this.src[this.pos] === '{') {
+			this.pos++;
+			const nodes = this.readRow();
+			this.expect('}');
+			return nodes;
+		}
+		if (this.pos >= this.src.length) {
+			throw new Error('Missing argument');
+		}
+		// Single digit, letter, or command
+		const char = this.src[this.pos];
+		if (/[0-9]/.test(char)) {
+			this.pos++;
+			return [{ type: 'text', kind: 'number', value: char }];
+		}
+		return [this.readAtom()];
+	}
+
+	/**
+	 * Reads a single atom: group, command, number, identifier, or operator.
+	 */
+	private readAtom(): MathNode {
+		const char = this.src[this.pos];
+
+		if (char === '{') {
+			this.pos++;
+			const children = this.readRow();
+			this.expect('}');
+			return { type: 'row', children };
+		}
+
+		if (char === '\\') {
+			return this.readCommand();
+		}
+
+		const numberMatch = /^(\d+(?:\.\d+)?|\.\d+)/.exec(this.src.slice(this.pos));
+		if (numberMatch) {
+			this.pos += numberMatch[0].length;
+			return { type: 'text', kind: 'number', value: numberMatch[0] };
+		}
+
+		this.pos++;
+
+		if (/[a-zA-Z]/.test(char)) {
+			return { type: 'text', kind: 'identifier', value: char };
+		}
+
+		if (char === '^' || char === '_') {
+			// Script without a base ({}^2): attach to an empty row
+			this.pos--;
+			return { type: 'row', children: [] };
+		}
+
+		if (char === '~') {
+			return { type: 'space', width: 0.333 };
+		}
+
+		if (char === '#' || char === '$' || char === '%') {
+			throw new Error(`Unsupported character '${char}'`);
+		}
+
+		// Use the proper minus sign for hyphens
+		return { type: 'text', kind: 'operator', value: char === '-' ? '−' : char };
+	}
+
+	/**
+	 * Reads a command starting at a backslash.
+	 */
+	private readCommand(): MathNode {
+		this.pos++;
+		const nameMatch = /^[a-zA-Z]+/.exec(this.src.slice(this.pos));
+
+		// Single-character commands: spacing and escaped symbols
+		if (!nameMatch) {
+			const char = this.src[this.pos] || '';
+			this.pos++;
+			if (char in SPACES) {
+				return { type: 'space', width: SPACES[char] };
+			}
+			if (char.length === 1 && '{}|#%&_$'.includes(char)) {
+				return { type: 'text', kind: 'operator', value: char === '|' ? '‖' : char };
+			}
+			throw new Error(`Unsupported command '\\${char}'`);
+		}
+
+		const name = nameMatch[0];
+		this.pos += name.length;
+
+		if (name in SPACES) {
+			return { type: 'space', width: SPACES[name] };
+		}
+
+		if (name in SYMBOLS) {
+			return { ...SYMBOLS[name] };
+		}
+
+		if (FUNCTIONS.has(name)) {
+			return { type: 'text', kind: 'function', value: name === 'bmod' ? 'mod' : name };
+		}
+
+		if (TEXT_COMMANDS.has(name)) {
+			const value = this.readRawGroup();
+			return { type: 'text', kind: name === 'operatorname' ? 'function' : 'text', value };
+		}
+
+		if (name in STYLES) {
+			return { type: 'style', variant: STYLES[name], body: this.readArgument() };
+		}
+
+		if (name in ACCENTS) {
+			const [accent, combining] = ACCENTS[name];
+			return { type: 'accent', accent, combining, body: this.readArgument() };
+		}
+
+		switch (name) {
+			case 'frac':
+			case 'dfrac':
+			case 'tfrac':
+			case 'cfrac':
+				return { type: 'fraction', numerator: this.readArgument(), denominator: this.readArgument() };
+
+			case 'binom':
+			case 'dbinom':
+			case 'tbinom':
+				return {
+					type: 'fenced',
+					open: '(',
+					close: ')',
+					body: [{ type: 'fraction', numerator: this.readArgument(), denominator: this.readArgument(), noBar: true }]
+				};
+
+			case 'sqrt': {
+				let degree: MathNode[] | undefined;
+				this.skipSpace();
+				if (this.src[this.pos] === '[') {
+					this.pos++;
+					degree = this.readRow(true);
+					this.expect(']');
+				}
+				return { type: 'radical', body: this.readArgument(), degree };
+			}
+
+			case 'mathbb':
+			case 'mathcal':
+			case 'mathfrak':
+				return { type: 'text', kind: 'identifier', value: this.styleLetters(this.readRawGroup(), name) };
+
+			case 'left': {
+				const open = this.readDelimiter();
+				const body = this.readRow();
+				if (!/^\\right(?![a-zA-Z])/.test(this.src.slice(this.pos))) {
+					throw new Error('Missing \\right');
+				}
+				this.pos += '\\right'.length;
+				const close = this.readDelimiter();
+				return { type: 'fenced', open, close, body };
+			}
+
+			case 'big': case 'Big': case 'bigg': case 'Bigg':
+			case 'bigl': case 'Bigl': case 'biggl': case 'Biggl':
+			case 'bigr': case 'Bigr': case 'biggr': case 'Biggr':
+				return { type: 'text', kind: 'operator', value: this.readDelimiter() };
+
+			case 'not': {
+				this.skipSpace();
+				const negated = this.readAtom();
+				if (negated.type !== 'text') {
+					throw new Error('Unsupported \\not');
+				}
+				const negations: Record<string, string> = { '=': '≠', '∈': '∉', '⊂': '⊄', '⊆': '⊈', '≡': '≢', '∃': '∄' };
+				return { ...negated, value: negations[negated.value] || `${negated.value}̸` };
+			}
+
+			case 'displaystyle':
+			case 'textstyle':
+			case 'scriptstyle':
+			case 'limits':
+			case 'nolimits':
+				return { type: 'row', children: [] };
+
+			case 'begin':
+				return this.readEnvironment();
+
+			default:
+				throw new Error(`Unsupported command '\\${name}'`);
+		}
+	}
+
+	/**
+	 * Reads a matrix-like environment after \begin.
+	 */
+	private readEnvironment(): MathNode {
+		const name = this.readRawGroup();
+		if (!(name in ENVIRONMENTS)) {
+			throw new Error(`Unsupported environment '${name}'`);
+		}
+
+		// array takes a column specification that is not needed for rendering
+		if (name === 'array') {
+			this.readRawGroup();
+		}
+
+		const [open, close, aligned] = ENVIRONMENTS[name];
+		const rows: MathNode[][][] = [];
+		let row: MathNode[][] = [];
+
+		for (;;) {
+			row.push(this.readRow());
+			const rest = this.src.slice(this.pos);
+
+			if (rest.startsWith('&')) {
+				this.pos++;
+			} else if (rest.startsWith('\\\\')) {
+				this.pos += 2;
+				rows.push(row);
+				row = [];
+			} else if (/^\\end(?![a-zA-Z])/.test(rest)) {
+				this.pos += '\\end'.length;
+				const endName = this.readRawGroup();
+				if (endName !== name) {
+					throw new Error(`Mismatched \\end{${endName}}`);
+				}
+				// Drop the empty row left by a trailing \\
+				if (!(row.length === 1 && row[0].length === 0) || rows.length === 0) {
+					rows.push(row);
+				}
+				return { type: 'matrix', rows, open, close, aligned };
+			} else {
+				throw new Error(`Unterminated environment '${name}'`);
+			}
+		}
+	}
+
+	/**
+	 * Reads a delimiter after \left, \right, or \big.
+	 */
+	private readDelimiter(): string {
+		this.skipSpace();
+		const char = this.src[this.pos];
+		if (char === undefined) {
+			throw new Error('Missing delimiter');
+		}
+		if (char !== '\\') {
+			this.pos++;
+			return char === '.' ? '' : char;
+		}
+		const node = this.readCommand();
+		if (node.type !== 'text') {
+			throw new Error('Invalid delimiter');
+		}
+		return node.value;
+	}
+
+	/**
+	 * Reads a braced group verbatim (for \text and environment names).
+	 */
+	private readRawGroup(): string {
+		this.skipSpace();
+		if (this.src[this.pos] !== '{') {
+			// Unbraced single-character argument
+			const char = this.src[this.pos] || '';
+			this.pos++;
+			return char;
+		}
+
+		let depth = 0;
+		const start = this.pos + 1;
+		for (; this.pos < this.src.length; this.pos++) {
+			const char = this.src[this.pos];
+			if (char === '\\') {
+				this.pos++;
+			} else if (char === '{') {
+				depth++;
+			} else if (char === '}') {
+				depth--;
+				if (depth === 0) {
+					this.pos++;
+					return this.src.slice(start, this.pos - 1);
+				}
+			}
+		}
+		throw new Error('Unterminated group');
+	}
+
+	/**
+	 * Maps capital letters to double-struck, script, or fraktur characters.
+	 */
+	private styleLetters(text: string, command: string): string {
+		const exceptions: Record<string, Record<string, string>> = {
+			mathbb: { C: 'ℂ', H: 'ℍ', N: 'ℕ', P: 'ℙ', Q: 'ℚ', R: 'ℝ', Z: 'ℤ' },
+			mathcal: { B: 'ℬ', E: 'ℰ', F: 'ℱ', H: 'ℋ', I: 'ℐ', L: 'ℒ', M: 'ℳ', R: 'ℛ' },
+			mathfrak: { C: 'ℭ', H: 'ℌ', I: 'ℑ', R: 'ℜ', Z: 'ℨ' }
+		};
+		const base: Record<string, number> = { mathbb: 0x1D538, mathcal: 0x1D49C, mathfrak: 0x1D504 };
+
+		return Array.from(text).map(char => {
+			if (!/[A-Z]/.test(char)) {
+				return char;
+			}
+			return exceptions[command][char] || String.fromCodePoint(base[command] + char.charCodeAt(0) - 65);
+		}).join('');
+	}
+
+	/**
+	 * Consumes the expected character or throws.
+	 */
+	private expect(char: string): void {
+		this.skipSpace();
+		if (this.src[this.pos] !== char) {
+			throw new Error(`Expected '${char}'`);
+		}
+		this.pos++;
+	}
+
+	/**
+	 * Skips whitespace (insignificant in math mode).
+	 */
+	private skipSpace(): void {
+		while (this.pos < this.src.length && /\s/.test(this.src[this.pos])) {
+			this.pos++;
+		}
+	}
+}
+
+/**
+ * LatexConverter parses the LaTeX math subset used in Obsidian notes and
+ * renders it as MathML. Unsupported constructs throw, so callers can fall back
+ * to showing the LaTeX source.
+ */
+export class LatexConverter {
+	/**
+	 * Parses LaTeX math into a syntax tree.
+	 *
+	 * @param latex - LaTeX source without $ delimiters
+	 * @returns Math nodes
+	 * @throws Error if the input uses unsupported or malformed syntax
+	 */
+	static parse(latex: string): MathNode[] {
+		return new LatexReader(latex).readAll();
+	}
+
+	/**
+	 * Converts LaTeX math to a MathML <math> element.
+	 * The LaTeX source is kept as an annotation so it can be recovered.
+	 *
+	 * @param latex - LaTeX source without $ delimiters
+	 * @param display - True for block (display) math
+	 * @returns MathML markup
+	 * @throws Error if the input uses unsupported or malformed syntax
+	 */
+	static toMathML(latex: string, display: boolean): string {
+		const nodes = this.parse(latex);
+		const displayAttribute = display ? ' display="block"' : '';
+		return `<math xmlns="http://www.w3.org/1998/Math/MathML"${displayAttribute}>`
+			+ '<semantics>'
+			+ `<mrow>${this.nodesToMathML(nodes)}</mrow>`
+			+ `<annotation encoding="application/x-tex">${this.escapeXml(latex)}</annotation>`
+			+ '</semantics></math>';
+	}
+
+	/**
+	 * Renders a node list as MathML.
+	 */
+	private static nodesToMathML(nodes: MathNode[]): string {
+		return nodes.map(node => this.nodeToMathML(node)).join('');
+	}
+
+	/**
+	 * Renders a node list as a single MathML element (wrapped in mrow if needed).
+	 */
+	private static groupToMathML(nodes: MathNode[]): string {
+		return nodes.length === 1 ? this.nodeToMathML(nodes[0]) : `<mrow>${this.nodesToMathML(nodes)}</mrow>`;
+	}
+
+	/**
+	 * Renders a single node as MathML.
+	 */
+	private static nodeToMathML(node: MathNode): string {
+		switch (node.type) {
+			case 'text': {
+				const value = this.escapeXml(node.value);
+				switch (node.kind) {
+					case 'identifier':
+						return `<mi>${value}</mi>`;
+					case 'number':
+						return `<mn>${value}</mn>`;
+					case 'function':
+						return `<mi mathvariant="normal">${value}</mi>`;
+					case 'text':
+						return `<mtext>${value}</mtext>`;
+					default:
+						return `<mo>${value}</mo>`;
+				}
+			}
+
+			case 'space':
+				return `<mspace width="${node.width}em"/>`;
+
+			case 'row':
+				return `<mrow>${this.nodesToMathML(node.children)}</mrow>`;
+
+			case 'fraction': {
+				const bar = node.noBar ? ' linethickness="0"' : '';
+				return `<mfrac${bar}>${this.groupToMathML(node.numerator)}${this.groupToMathML(node.denominator)}</mfrac>`;
+			}
+
+			case 'radical':
+				return node.degree
+					? `<mroot>${this.groupToMathML(node.body)}${this.groupToMathML(node.degree)}</mroot>`
+					: `<msqrt>${this.nodesToMathML(node.body)}</msqrt>`;
+
+			case 'scripts': {
+				const base = this.groupToMathML(node.base);
+				if (node.sub && node.sup) {
+					return `<msubsup>${base}${this.groupToMathML(node.sub)}${this.groupToMathML(node.sup)}</msubsup>`;
+				}
+				if (node.sub) {
+					return `<msub>${base}${this.groupToMathML(node.sub)}</msub>`;
+				}
+				return `<msup>${base}${this.groupToMathML(node.sup || [])}</msup>`;
+			}
+
+			case 'fenced':
+				return '<mrow>'
+					+ (node.open ? `<mo fence="true">${this.escapeXml(node.open)}</mo>` : '')
+					+ this.nodesToMathML(node.body)
+					+ (node.close ? `<mo fence="true">${this.escapeXml(node.close)}</mo>` : '')
+					+ '</mrow>';
+
+			case 'accent':
+				return `<mover accent="true">${this.groupToMathML(node.body)}<mo>${this.escapeXml(node.accent)}</mo></mover>`;
+
+			case 'style':
+				return `<mstyle mathvariant="${node.variant}">${this.nodesToMathML(node.body)}</mstyle>`;
+
+			case 'matrix': {
+				const align = node.aligned ? ' columnalign="right left"' : '';
+				const rows = node.rows
+					.map(row => `<mtr>${row.map(cell => `<mtd>${this.nodesToMathML(cell)}</mtd>`).join('')}</mtr>`)
+					.join('');
+				return '<mrow>'
+					+ (node.open ? `<mo fence="true">${this.escapeXml(node.open)}</mo>` : '')
+					+ `<mtable${align}>${rows}</mtable>`
+					+ (node.close ? `<mo fence="true">${this.escapeXml(node.close)}</mo>` : '')
+					+ '</mrow>';
+			}
+		}
+	}
+
+	/**
+	 * Escapes XML special characters.
+	 */
+	private static escapeXml(text: string): string {
+		const map: { [key: string]: string } = {
+			'&': '&amp;',
+			'<': '&lt;',
+			'>': '&gt;',
+			'"': '&quot;',
+			"'": '&#039;'
+		};
+		return text.replace(/[&<>"']/g, (char) => map[char]);
+	}
+}
@@ -0,0 +1,82 @@
+import { ListStyles } from './listStyles';
+import { DEFAULT_SETTINGS } from '../settings';
+import { ListBlock, PluginSettings } from '../types';
+
+describe('ListStyles', () => {
+  let settings: PluginSettings;
+
+  beforeEach(() => {
+    settings = { ...DEFAULT_SETTINGS, listBulletGlyphs: ['•', '◦', '▪'], listNumberFormats: ['decimal', 'lower-alpha', 'lower-roman'] };
+  });
+
+  describe('getBullet and getNumberFormat', () => {
+    it('should repeat the configured values for deeper levels', () => {
+      expect(ListStyles.getBullet(settings, 0)).toBe('•');
+      expect(ListStyles.getBullet(settings, 4)).toBe('◦');
+      expect(ListStyles.getNumberFormat(settings, 2)).toBe('lower-roman');
+      expect(ListStyles.getNumberFormat(settings, 3)).toBe('decimal');
+    });
+
+    it('should reuse the ninth level beyond Word\'s limit', () => {
+      expect(ListStyles.getNumberFormat(settings, 12)).toBe(ListStyles.getNumberFormat(settings, 8));
+    });
+
+    it('should fall back when nothing is configured', () => {
+      settings.listBulletGlyphs = [];
+      settings.listNumberFormats = [];
+
+      expect(ListStyles.getBullet(settings, 0)).toBe('•');
+      expect(ListStyles.getNumberFormat(settings, 0)).toBe('decimal');
+    });
+  });
+
+  describe('getListStyleType', () => {
+    it('should map bullets to CSS keywords or strings', () => {
+      settings.listBulletGlyphs = ['•', '➤', "'"];
+
+      expect(ListStyles.getListStyleType(settings, false, 0)).toBe('disc');
+      expect(ListStyles.getListStyleType(settings, false, 1)).toBe("'➤ '");
+      expect(ListStyles.getListStyleType(settings, false, 2)).toBe("'\\' '");
+    });
+
+    it('should use the number format, with decimal for legal levels', () => {
+      settings.listNumberFormats = ['upper-roman', 'legal'];
+
+      expect(ListStyles.getListStyleType(settings, true, 0)).toBe('upper-roman');
+      expect(ListStyles.getListStyleType(settings, true, 1)).toBe('decimal');
+    });
+  });
+
+  describe('getLegalStyleType', () => {
+    it('should join the item numbers', () => {
+      expect(ListStyles.getLegalStyleType([1, 2, 3])).toBe("'1.2.3. '");
+    });
+  });
+
+  describe('continuesNumbering', () => {
+    const list = (ordered: boolean, start?: number): ListBlock => ({ type: 'list', ordered, start, items: [] });
+
+    it('should continue ordered sub-lists of ordered lists', () => {
+      expect(ListStyles.continuesNumbering(list(true), list(true))).toBe(true);
+      expect(ListStyles.continuesNumbering(list(true), list(true, 1))).toBe(true);
+    });
+
+    it('should start over for bullets and own start numbers', () => {
+      expect(ListStyles.continuesNumbering(list(false), list(true))).toBe(false);
+      expect(ListStyles.continuesNumbering(list(true), list(false))).toBe(false);
+      expect(ListStyles.continuesNumbering(list(true), list(true, 3))).toBe(false);
+    });
+  });
+
+  describe('parseNumberFormats', () => {
+    it('should parse comma-separated formats', () => {
+      expect(ListStyles.parseNumberFormats('Decimal, lower-alpha,legal')).toEqual(['decimal', 'lower-alpha', 'legal']);
+    });
+
+    it('should reject unknown, empty, or too many formats', () => {
+      expect(ListStyles.parseNumberFormats('decimal, greek')).toBeNull();
+      expect(ListStyles.parseNumberFormats(' , ')).toBeNull();
+      expect(ListStyles.parseNumberFormats(new Array(10).fill('decimal').join(','))).toBeNull();
+    });
+  });
+});
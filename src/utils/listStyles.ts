@@ -0,0 +1,125 @@
+import { ListBlock, ListNumberFormat, PluginSettings } from '../types';
+
+/**
+ * Deepest list level Word supports (levels 0-8). Deeper items reuse its style.
+ */
+export const MAX_LIST_LEVEL = 8;
+
+/**
+ * Number formats accepted in the list number format setting.
+ */
+const NUMBER_FORMATS: ListNumberFormat[] = ['decimal', 'lower-alpha', 'upper-alpha', 'lower-roman', 'upper-roman', 'legal'];
+
+/**
+ * Bullet glyphs with a matching CSS list-style-type keyword.
+ */
+const BULLET_KEYWORDS: Record<string, string> = {
+	'•': 'disc',
+	'◦': 'circle',
+	'▪': 'square'
+};
+
+/**
+ * ListStyles resolves the per-level bullet glyphs and number formats used by
+ * the exporters, so DOCX and HTML lists look the same at every level.
+ */
+export class ListStyles {
+	/**
+	 * Returns the bullet glyph for a nesting level.
+	 * The configured glyphs repeat when there are fewer than nine.
+	 *
+	 * @param settings - Plugin settings with the bullet glyphs
+	 * @param level - Nesting level (0-based)
+	 * @returns The bullet glyph
+	 */
+	static getBullet(settings: PluginSettings, level: number): string {
+		return this.pick(settings.listBulletGlyphs, level) || '•';
+	}
+
+	/**
+	 * Returns the number format for a nesting level.
+	 * The configured formats repeat when there are fewer than nine.
+	 *
+	 * @param settings - Plugin settings with the number formats
+	 * @param level - Nesting level (0-based)
+	 * @returns The number format
+	 */
+	static getNumberFormat(settings: PluginSettings, level: number): ListNumberFormat {
+		return this.pick(settings.listNumberFormats, level) || 'decimal';
+	}
+
+	/**
+	 * Returns the CSS list-style-type of a list at a nesting level.
+	 * Legal numbering is written per item (see getLegalStyleType), so its lists use decimal.
+	 *
+	 * @param settings - Plugin settings
+	 * @param ordered - True for ordered lists
+	 * @param level - Nesting level (0-based)
+	 * @returns A list-style-type keyword or CSS string
+	 */
+	static getListStyleType(settings: PluginSettings, ordered: boolean, level: number): string {
+		if (ordered) {
+			const format = this.getNumberFormat(settings, level);
+			return format === 'legal' ? 'decimal' : format;
+		}
+
+		const bullet = this.getBullet(settings, level);
+		return BULLET_KEYWORDS[bullet] || this.toCssString(`${bullet} `);
+	}
+
+	/**
+	 * Returns the CSS list-style-type for a legal-style item label (1.2.3.).
+	 *
+	 * @param numbers - Item numbers from the outermost level down to the item
+	 * @returns A CSS string such as '1.2.3. '
+	 */
+	static getLegalStyleType(numbers: number[]): string {
+		return this.toCssString(`${numbers.join('.')}. `);
+	}
+
+	/**
+	 * Checks whether a nested list continues its parent's numbering.
+	 * Ordered lists directly under ordered items share one multi-level
+	 * numbering unless they start at their own number.
+	 *
+	 * @param parent - The enclosing list
+	 * @param child - The list nested in one of its items
+	 * @returns True when the child counts as a sub-level of the parent
+	 */
+	static continuesNumbering(parent: ListBlock, child: ListBlock): boolean {
+		return parent.ordered && child.ordered && (child.start ?? 1) === 1;
+	}
+
+	/**
+	 * Parses a comma-separated list of number formats from the settings.
+	 *
+	 * @param value - Input such as "decimal, lower-alpha, lower-roman"
+	 * @returns The formats, or null if any entry is unknown or the list is empty
+	 */
+	static parseNumberFormats(value: string): ListNumberFormat[] | null {
+		const formats = value.split(',').map(format => format.trim().toLowerCase()).filter(format => format.length > 0);
+		if (formats.length === 0 || formats.length > MAX_LIST_LEVEL + 1) {
+			return null;
+		}
+		return formats.every(format => (NUMBER_FORMATS as string[]).includes(format))
+			? formats as ListNumberFormat[]
+			: null;
+	}
+
+	/**
+	 * Returns the entry for a level, repeating the values for deeper levels.
+	 */
+	private static pick<T>(values: T[], level: number): T | undefined {
+		if (values.length === 0) {
+			return undefined;
+		}
+		return values[Math.min(level, MAX_LIST_LEVEL) % values.length];
+	}
+
+	/**
+	 * Quotes text as a CSS string.
+	 */
+	private static toCssString(text: string): string {
+		return `'${text.replace(/[\\']/g, char => `\\${char}`)}'`;
+	}
+}
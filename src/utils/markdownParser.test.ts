@@ -1,6 +1,9 @@
 import { MarkdownParser } from './markdownParser';
-import { PluginSettings } from '../types';
+import { ListBlock, PluginSettings } from '../types';
 import { DEFAULT_SETTINGS } from '../settings';
+import { Anchors } from './anchors';
+import { ExportExtensions } from './exportExtensions';
+import { EmbedMap, ResolvedEmbed } from './embedResolver';
 
 describe('MarkdownParser', () => {
   let parser: MarkdownParser;
@@ -83,6 +86,55 @@ describe('MarkdownParser', () => {
       expect((result.blocks[0] as any).url).toContain('https://mermaid.live/edit');
     });
 
+    it('should number mermaid diagrams and link them with the link settings', () => {
+      const linkParser = new MarkdownParser({ ...DEFAULT_SETTINGS, mermaidBaseUrl: 'https://mermaid.example.com', mermaidLinkMode: 'view' });
+      const result = linkParser.parse('```mermaid\ngraph TD\n```\n\n```mermaid\npie\n  title Pets\n```');
+
+      expect(result.blocks[0]).toMatchObject({ index: 1 });
+      expect((result.blocks[0] as any).title).toBeUndefined();
+      expect(result.blocks[1]).toMatchObject({ index: 2, title: 'Pets' });
+      expect((result.blocks[1] as any).url).toMatch(/^https:\/\/mermaid\.example\.com\/view#pako:/);
+    });
+
+    it('should read the type and title of mermaid diagrams with a preamble', () => {
+      const result = parser.parse('```mermaid\n---\ntitle: Order states\n---\n%%{init: {"theme": "dark"}}%%\nstateDiagram-v2\n  [*] --> Open\n```');
+
+      expect(result.blocks[0]).toMatchObject({ type: 'mermaid', diagramType: 'State Diagram', title: 'Order states' });
+    });
+
+    it('should parse tilde and indented mermaid fences', () => {
+      const result = parser.parse('~~~mermaid\ngraph TD\n  A --> B\n~~~\n\n   ```mermaid\n   sequenceDiagram\n   ```');
+
+      expect(result.blocks.map(block => block.type)).toEqual(['mermaid', 'mermaid']);
+      expect((result.blocks[1] as any).diagramType).toBe('Sequence Diagram');
+    });
+
+    it('should parse mermaid fences nested in list items and callouts', () => {
+      const markdown = '- Step\n\n  ```mermaid\n  graph TD\n  ```\n\n> [!note] Diagram\n> ```mermaid\n> pie\n> ```';
+      const result = parser.parse(markdown);
+
+      expect((result.blocks[0] as any).items[0].blocks[0].type).toBe('mermaid');
+      expect((result.blocks[1] as any).content[0]).toMatchObject({
+        type: 'mermaid',
+        code: 'pie',
+        position: { startLine: 8, endLine: 10 }
+      });
+    });
+
+    it('should keep mermaid examples inside a longer markdown fence as code', () => {
+      const markdown = '````markdown\n```mermaid\ngraph TD\n```\n````';
+      const result = parser.parse(markdown);
+
+      expect(result.blocks).toHaveLength(1);
+      expect(result.blocks[0]).toMatchObject({ type: 'code', language: 'markdown', content: '```mermaid\ngraph TD\n```' });
+    });
+
+    it('should count mermaid diagrams and other code blocks at any depth', () => {
+      const markdown = '```js\nx\n```\n\n- Item\n\n  ~~~mermaid\n  pie\n  ~~~\n\n````md\n```mermaid\n```\n````';
+
+      expect(MarkdownParser.countCodeBlocks(markdown)).toEqual({ mermaid: 1, code: 2 });
+    });
+
     it('should parse unordered lists', () => {
       const markdown = '- Item 1\n- Item 2\n- Item 3';
       const result = parser.parse(markdown);
@@ -103,6 +155,24 @@ describe('MarkdownParser', () => {
       expect((result.blocks[0] as any).items).toHaveLength(3);
     });
 
+    it('should record the start number of ordered lists', () => {
+      const result = parser.parse('5. Five\n6. Six\n\nText\n\n- Bullet');
+
+      expect(result.blocks[0]).toMatchObject({ type: 'list', ordered: true, start: 5 });
+      expect((result.blocks[2] as any).start).toBeUndefined();
+    });
+
+    it('should parse task list items with checked state', () => {
+      const markdown = '- [ ] Open task\n- [x] Done task\n- Plain item';
+      const result = parser.parse(markdown);
+
+      const list = result.blocks[0] as any;
+      expect(list.items[0].checked).toBe(false);
+      expect(list.items[0].content).toEqual([{ type: 'text', content: 'Open task' }]);
+      expect(list.items[1].checked).toBe(true);
+      expect(list.items[2].checked).toBeUndefined();
+    });
+
     it('should parse tables', () => {
       const markdown = '| Header 1 | Header 2 |\n| --- | --- |\n| Cell 1 | Cell 2 |';
       const result = parser.parse(markdown);
@@ -113,6 +183,23 @@ describe('MarkdownParser', () => {
       expect((result.blocks[0] as any).rows).toHaveLength(1);
     });
 
+    it('should keep table column alignment', () => {
+      const markdown = '| Item | Qty | Note |\n| :-- | --: | :-: |\n| Apples | 3 | ok |';
+      const table = parser.parse(markdown).blocks[0] as any;
+
+      expect(table.align).toEqual(['left', 'right', 'center']);
+    });
+
+    it('should size table columns from content length', () => {
+      const markdown = '| A | Description |\n| --- | --- |\n| 1 | A considerably longer cell of text |';
+      const table = parser.parse(markdown).blocks[0] as any;
+
+      expect(table.align).toEqual([null, null]);
+      expect(table.columnWidths).toHaveLength(2);
+      expect(table.columnWidths[0] + table.columnWidths[1]).toBe(100);
+      expect(table.columnWidths[1]).toBeGreaterThan(table.columnWidths[0]);
+    });
+
     it('should parse blockquotes', () => {
       const markdown = '> This is a quote\n> With multiple lines';
       const result = parser.parse(markdown);
@@ -139,6 +226,41 @@ describe('MarkdownParser', () => {
       expect((result.blocks[0] as any).url).toBe('https://example.com/image.png');
     });
 
+    it('should parse images within text and table cells as inline images', () => {
+      const markdown = 'Status ![ok](icons/ok.png) here\n\n| Build |\n| --- |\n| ![passing](badge.svg) |';
+      const result = parser.parse(markdown);
+
+      expect(result.blocks[0]).toMatchObject({
+        type: 'paragraph',
+        content: [
+          { type: 'text', content: 'Status ' },
+          { type: 'image', alt: 'ok', url: 'icons/ok.png' },
+          { type: 'text', content: ' here' }
+        ]
+      });
+      expect((result.blocks[1] as any).rows[0][0]).toEqual([{ type: 'image', alt: 'passing', url: 'badge.svg' }]);
+    });
+
+    it('should parse embedded images (![[image.png]]) with every wiki link strategy', () => {
+      for (const wikiLinkStrategy of ['text', 'relative'] as const) {
+        parser = new MarkdownParser({ ...settings, wikiLinkStrategy });
+        const result = parser.parse('Icon ![[icons/ok.png]], ![[logo.jpg|Logo]] and ![[x.gif|32]]\n\n![[diagram.png]]');
+
+        expect(result.blocks[0]).toMatchObject({
+          type: 'paragraph',
+          content: [
+            { type: 'text', content: 'Icon ' },
+            { type: 'image', alt: 'ok', url: 'icons/ok.png' },
+            { type: 'text', content: ', ' },
+            { type: 'image', alt: 'Logo', url: 'logo.jpg' },
+            { type: 'text', content: ' and ' },
+            { type: 'image', alt: 'x', url: 'x.gif' }
+          ]
+        });
+        expect(result.blocks[1]).toMatchObject({ type: 'image', alt: 'diagram', url: 'diagram.png' });
+      }
+    });
+
     it('should strip YAML frontmatter', () => {
       const markdown = '---\ntitle: Test\ndate: 2024-01-01\n---\n\n# Content';
       const result = parser.parse(markdown);
@@ -147,6 +269,39 @@ describe('MarkdownParser', () => {
       expect(result.blocks[0].type).toBe('heading');
     });
 
+    it('should parse YAML frontmatter into metadata', () => {
+      const markdown = '---\ntitle: Test\nauthor: Jane\ntags: [a, b]\n---\n\n# Content';
+      const result = parser.parse(markdown);
+
+      expect(result.metadata).toEqual({
+        title: 'Test',
+        author: 'Jane',
+        tags: ['a', 'b'],
+        properties: { title: 'Test', author: 'Jane', tags: ['a', 'b'] }
+      });
+    });
+
+    it('should not set metadata without frontmatter', () => {
+      const result = parser.parse('# Content');
+
+      expect(result.metadata).toBeUndefined();
+    });
+
+    it('should prepend a properties table when enabled', () => {
+      settings.includePropertiesTable = true;
+      parser = new MarkdownParser(settings);
+
+      const result = parser.parse('---\nstatus: draft\ntags: [a, b]\n---\n# Content');
+
+      expect(result.blocks).toHaveLength(2);
+      const table = result.blocks[0] as any;
+      expect(table.type).toBe('table');
+      expect(table.rows).toEqual([
+        [[{ type: 'text', content: 'status' }], [{ type: 'text', content: 'draft' }]],
+        [[{ type: 'text', content: 'tags' }], [{ type: 'text', content: 'a, b' }]]
+      ]);
+    });
+
     it('should strip trailing Obsidian tags', () => {
       const markdown = '# Content\n\nSome text\n\n#tag1 #tag2';
       const result = parser.parse(markdown);
@@ -200,6 +355,34 @@ describe('MarkdownParser', () => {
       expect(hasStrikethrough).toBe(true);
     });
 
+    it('should parse highlights with nested formatting', () => {
+      const result = parser.parseInlineContent('A ==**key** point== here');
+
+      expect(result[1]).toEqual({
+        type: 'highlight',
+        content: [
+          { type: 'bold', content: [{ type: 'text', content: 'key' }] },
+          { type: 'text', content: ' point' }
+        ]
+      });
+    });
+
+    it('should not parse == with surrounding spaces as a highlight', () => {
+      const result = parser.parseInlineContent('a == b == c');
+
+      expect(result.some(c => c.type === 'highlight')).toBe(false);
+    });
+
+    it('should parse HTML underline, superscript, subscript, and keyboard tags', () => {
+      const result = parser.parseInlineContent('<u>under</u> x<sup>2</sup> H<sub>2</sub>O <kbd>Ctrl</kbd> <mark>m</mark>');
+
+      expect(result).toContainEqual({ type: 'underline', content: [{ type: 'text', content: 'under' }] });
+      expect(result).toContainEqual({ type: 'superscript', content: [{ type: 'text', content: '2' }] });
+      expect(result).toContainEqual({ type: 'subscript', content: [{ type: 'text', content: '2' }] });
+      expect(result).toContainEqual({ type: 'keyboard', content: 'Ctrl' });
+      expect(result).toContainEqual({ type: 'highlight', content: [{ type: 'text', content: 'm' }] });
+    });
+
     it('should parse inline code', () => {
       const result = parser.parseInlineContent('Use `code` here');
 
@@ -227,8 +410,8 @@ describe('MarkdownParser', () => {
       expect(italicContent).toBeDefined();
     });
 
-    it('should convert Obsidian links to plain text when setting is enabled', () => {
-      settings.removeObsidianLinks = true;
+    it('should convert Obsidian links to plain text with the text strategy', () => {
+      settings.wikiLinkStrategy = 'text';
       parser = new MarkdownParser(settings);
 
       const result = parser.parseInlineContent('Check [[Some Note]]');
@@ -239,7 +422,7 @@ describe('MarkdownParser', () => {
     });
 
     it('should convert Obsidian links with display text', () => {
-      settings.removeObsidianLinks = true;
+      settings.wikiLinkStrategy = 'text';
       parser = new MarkdownParser(settings);
 
       const result = parser.parseInlineContent('Check [[Some Note|Display Text]]');
@@ -249,57 +432,576 @@ describe('MarkdownParser', () => {
       expect((result[0] as any).content).toBe('Check Display Text');
     });
 
-    it('should preserve Obsidian links when setting is disabled', () => {
-      settings.removeObsidianLinks = false;
+    it('should convert Obsidian links to obsidian:// URIs', () => {
+      settings.wikiLinkStrategy = 'obsidian-uri';
+      parser = new MarkdownParser(settings, { vaultName: 'My Vault' });
+
+      const result = parser.parseInlineContent('Check [[Folder/Some Note|Display]]');
+
+      expect(result[1]).toEqual({
+        type: 'link',
+        text: [{ type: 'text', content: 'Display' }],
+        url: 'obsidian://open?vault=My%20Vault&file=Folder%2FSome%20Note'
+      });
+    });
+
+    it('should convert Obsidian links to URLs below the base URL', () => {
+      settings.wikiLinkStrategy = 'base-url';
+      settings.wikiLinkBaseUrl = 'https://publish.obsidian.md/site/';
       parser = new MarkdownParser(settings);
 
-      const result = parser.parseInlineContent('Check [[Some Note]]');
+      const result = parser.parseInlineContent('[[Folder/Some Note#Usage]]');
+
+      expect(result[0]).toEqual({
+        type: 'link',
+        text: [{ type: 'text', content: 'Folder/Some Note#Usage' }],
+        url: 'https://publish.obsidian.md/site/Folder/Some%20Note#Usage'
+      });
+    });
+
+    it('should convert Obsidian links to relative links to sibling exports', () => {
+      settings.wikiLinkStrategy = 'relative';
+      parser = new MarkdownParser(settings, { exportExtension: 'docx' });
+
+      const result = parser.parseInlineContent('[[Folder/Some Note|Other]]');
+
+      expect((result[0] as any).type).toBe('link');
+      expect((result[0] as any).url).toBe('./Some%20Note.docx');
+    });
+
+    it('should fall back to plain text when a link URL cannot be built', () => {
+      settings.wikiLinkStrategy = 'base-url';
+      settings.wikiLinkBaseUrl = '';
+      parser = new MarkdownParser(settings);
+
+      const result = parser.parseInlineContent('See [[Some Note]]');
+
+      expect(result.map(c => (c as any).content).join('')).toBe('See Some Note');
+      expect(result.some(c => c.type === 'link')).toBe(false);
+    });
+  });
+
+  describe('Anchors and internal links', () => {
+    it('should give headings unique anchors', () => {
+      const result = parser.parse('# Getting Started!\n\n## Intro\n\n## Intro');
+
+      expect(result.blocks.map(block => (block as any).id)).toEqual(['getting-started', 'intro', 'intro-1']);
+    });
+
+    it('should take block IDs off paragraphs as anchors', () => {
+      const result = parser.parse('Important text. ^abc-1');
+
+      expect(result.blocks[0]).toEqual({
+        type: 'paragraph',
+        content: [{ type: 'text', content: 'Important text.' }],
+        id: '^abc-1',
+        position: { startLine: 1, endLine: 1 }
+      });
+    });
+
+    it('should link to headings and blocks of the same note with any strategy', () => {
+      settings.wikiLinkStrategy = 'text';
+      parser = new MarkdownParser(settings, { sourcePath: 'Folder/Spec.md' });
+
+      const result = parser.parseInlineContent('[[#Getting Started]] [[#^abc|the block]] [[Spec#Setup#Linux]] [[Other#Intro]]');
+      const links = result.filter(item => item.type === 'link');
+
+      expect(links).toEqual([
+        { type: 'link', text: [{ type: 'text', content: 'Getting Started' }], url: '#getting-started' },
+        { type: 'link', text: [{ type: 'text', content: 'the block' }], url: '#^abc' },
+        { type: 'link', text: [{ type: 'text', content: 'Spec#Setup#Linux' }], url: '#linux' },
+      ]);
+    });
+
+    it('should normalize markdown fragment links to anchors', () => {
+      const result = parser.parseInlineContent('[start](#Getting%20Started) [up](#setup)');
+
+      expect((result[0] as any).url).toBe('#getting-started');
+      expect((result[2] as any).url).toBe('#setup');
+    });
+
+    it('should point relative links at the anchors of sibling exports', () => {
+      settings.wikiLinkStrategy = 'relative';
+
+      const html = new MarkdownParser(settings, { exportExtension: 'html' }).parseInlineContent('[[Guide#Getting Started]]');
+      const docx = new MarkdownParser(settings, { exportExtension: 'docx' }).parseInlineContent('[[Guide#Getting Started]]');
+
+      expect((html[0] as any).url).toBe('./Guide.html#getting-started');
+      expect((docx[0] as any).url).toBe(`./Guide.docx#${Anchors.toBookmarkName('getting-started')}`);
+    });
+  });
+
+  describe('Table of contents', () => {
+    const markdown = '# Design\n\n## Goals\n\n### Detail\n\n> [!note]\n> ## Hidden\n\n# Appendix';
+
+    it('should list top-level headings up to the maximum depth when enabled', () => {
+      settings.includeToc = true;
+      settings.tocMaxDepth = 2;
+      parser = new MarkdownParser(settings);
+
+      const result = parser.parse(markdown);
+
+      expect(result.blocks[0]).toEqual({
+        type: 'toc',
+        maxDepth: 2,
+        entries: [
+          { level: 1, text: 'Design', id: 'design' },
+          { level: 2, text: 'Goals', id: 'goals' },
+          { level: 1, text: 'Appendix', id: 'appendix' },
+        ]
+      });
+    });
+
+    it('should follow the toc frontmatter key over the setting', () => {
+      settings.includeToc = true;
+      parser = new MarkdownParser(settings);
+      expect(parser.parse('---\ntoc: false\n---\n' + markdown).blocks[0].type).toBe('heading');
+
+      settings.includeToc = false;
+      parser = new MarkdownParser(settings);
+      expect(parser.parse('---\ntoc: true\n---\n' + markdown).blocks[0].type).toBe('toc');
+    });
+
+    it('should place the table of contents after the properties table', () => {
+      settings.includePropertiesTable = true;
+      parser = new MarkdownParser(settings);
+
+      const result = parser.parse('---\ntoc: true\nstatus: draft\n---\n' + markdown);
 
-      const textContent = result.find(c => c.type === 'text');
-      expect(textContent).toBeDefined();
-      expect((textContent as any).content).toContain('[[');
+      expect(result.blocks.slice(0, 2).map(block => block.type)).toEqual(['table', 'toc']);
+    });
+
+    it('should skip the table of contents for notes without headings', () => {
+      settings.includeToc = true;
+      parser = new MarkdownParser(settings);
+
+      expect(parser.parse('Just text').blocks.map(block => block.type)).toEqual(['paragraph']);
     });
   });
 
-  describe('Obsidian callouts conversion', () => {
-    it('should convert info callout', () => {
+  describe('Source positions', () => {
+    const range = (block: any) => [block.position.startLine, block.position.endLine];
+
+    it('should record the lines of each block, counting the frontmatter', () => {
+      const result = parser.parse('---\ntitle: Plan\n---\n# Plan\n\nFirst line\nsecond line\n\n| A |\n|---|\n| 1 |');
+
+      expect(result.blocks.map(range)).toEqual([[4, 4], [6, 7], [9, 11]]);
+    });
+
+    it('should keep line numbers after footnote definitions and Mermaid diagrams', () => {
+      const markdown = 'Text[^1]\n\n[^1]: Note\n    more\n\n```mermaid\ngraph TD\n  A --> B\n```\n\nAfter';
+      const result = parser.parse(markdown);
+
+      expect(result.blocks.map(range)).toEqual([[1, 1], [6, 9], [11, 11]]);
+      expect(range(result.footnotes![0].content[0])).toEqual([3, 4]);
+    });
+
+    it('should record the lines of blocks nested in lists, quotes, and callouts', () => {
+      const markdown = '- one\n\n- two\n\n  ```js\n  x\n  ```\n  - nested\n\n> quoted\n>\n> > [!note] Title\n> > Body';
+      const result = parser.parse(markdown);
+      const list = result.blocks[0] as any;
+      const quote = result.blocks[1] as any;
+
+      expect(range(list)).toEqual([1, 8]);
+      expect(range(list.items[1].blocks[0])).toEqual([5, 7]);
+      expect(range(list.items[1].children)).toEqual([8, 8]);
+      expect(range(quote)).toEqual([10, 13]);
+      expect(range(quote.content[1])).toEqual([12, 13]);
+      expect(range(quote.content[1].content[0])).toEqual([13, 13]);
+    });
+
+    it('should leave generated blocks without a position', () => {
+      settings.includeToc = true;
+      parser = new MarkdownParser(settings);
+
+      expect(parser.parse('# Title').blocks[0].position).toBeUndefined();
+    });
+  });
+
+  describe('Extensions', () => {
+    let extensions: ExportExtensions;
+
+    beforeEach(() => {
+      extensions = new ExportExtensions();
+      parser = new MarkdownParser(settings, { extensions });
+    });
+
+    it('should run preprocessors before parsing', () => {
+      extensions.registerPreprocessor(markdown => markdown.replace(/TODO/g, '**TODO**'));
+
+      const result = parser.parse('TODO: write');
+
+      expect((result.blocks[0] as any).content[0]).toEqual({ type: 'bold', content: [{ type: 'text', content: 'TODO' }] });
+    });
+
+    it('should parse the note and report a warning when a preprocessor throws', () => {
+      extensions.registerPreprocessor(() => {
+        throw new Error('Bad rule');
+      });
+
+      const result = parser.parse('# Title\n\nBody');
+
+      expect(result.blocks.map(block => block.type)).toEqual(['heading', 'paragraph']);
+      expect(result.diagnostics).toEqual([{ message: 'Markdown preprocessor failed: Bad rule; exported without its changes' }]);
+    });
+
+    it('should hand fences of registered languages to their handler', () => {
+      extensions.registerFenceHandler('risk', (code, context) => ({
+        type: 'table',
+        headers: [context.parseInline('**Risk**'), context.parseInline('Level')],
+        rows: code.trim().split('\n').map(line => line.split(':').map(cell => context.parseInline(cell.trim())))
+      }));
+
+      const result = parser.parse('Intro\n\n```risk\nOutage: high\n```');
+
+      expect(result.blocks[1]).toMatchObject({
+        type: 'table',
+        headers: [[{ type: 'bold' }], [{ type: 'text', content: 'Level' }]],
+        rows: [[[{ type: 'text', content: 'Outage' }], [{ type: 'text', content: 'high' }]]],
+        position: { startLine: 3, endLine: 5 }
+      });
+    });
+
+    it('should pass the language and info string and parse nested markdown', () => {
+      const handler = jest.fn((code: string, context: any) => ({ type: 'blockquote' as const, content: context.parseBlocks(code) }));
+      extensions.registerFenceHandler('adr', handler);
+
+      const result = parser.parse('```ADR title="Storage"\n# Decision\n```');
+
+      expect(handler.mock.calls[0][1]).toMatchObject({ language: 'adr', info: 'ADR title="Storage"' });
+      expect((result.blocks[0] as any).content[0]).toMatchObject({ type: 'heading', position: { startLine: 2, endLine: 2 } });
+    });
+
+    it('should keep fences as code blocks when the handler declines or fails', () => {
+      extensions.registerFenceHandler('risk', () => null);
+      extensions.registerFenceHandler('adr', () => { throw new Error('Bad ADR'); });
+
+      const result = parser.parse('```risk\nx\n```\n\n```adr\ny\n```');
+
+      expect(result.blocks.map(block => block.type)).toEqual(['code', 'code']);
+      expect(result.diagnostics).toEqual([
+        { message: 'Could not render adr block: Bad ADR; exported as code', position: { startLine: 5, endLine: 7 } }
+      ]);
+    });
+
+    it('should keep the built-in handling of mermaid fences', () => {
+      const handler = jest.fn(() => null);
+      extensions.registerFenceHandler('mermaid', handler);
+
+      const result = parser.parse('```mermaid\ngraph TD\n```');
+
+      expect(result.blocks[0].type).toBe('mermaid');
+      expect(handler).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Heading numbering', () => {
+    const markdown = '# Design\n\n## Goals\n\n### Detail\n\n## Scope\n\n> [!note]\n> ## Hidden\n\n# Appendix\n\n#### Deep';
+    const numbers = (blocks: any[]) => blocks
+      .filter(block => block.type === 'heading')
+      .map(block => block.number);
+
+    it('should leave headings unnumbered by default', () => {
+      const result = parser.parse(markdown);
+
+      expect(numbers(result.blocks)).toEqual([undefined, undefined, undefined, undefined, undefined, undefined]);
+    });
+
+    it('should number top-level headings hierarchically', () => {
+      settings.numberHeadings = true;
+      parser = new MarkdownParser(settings);
+
+      const result = parser.parse(markdown);
+
+      expect(numbers(result.blocks)).toEqual(['1', '1.1', '1.1.1', '1.2', '2', '2.1']);
+      expect((result.blocks[1] as any).content).toEqual([
+        { type: 'text', content: '1.1 ' },
+        { type: 'text', content: 'Goals' }
+      ]);
+      expect((result.blocks[4] as any).content[0]).toMatchObject({ type: 'heading', content: [{ type: 'text', content: 'Hidden' }] });
+      expect((result.blocks[4] as any).content[0].number).toBeUndefined();
+    });
+
+    it('should count from the shallowest heading level in the note', () => {
+      settings.numberHeadings = true;
+      parser = new MarkdownParser(settings);
+
+      const result = parser.parse('### Intro\n\n## Goals\n\n## Scope\n\n#### Detail\n\n### Limits');
+
+      expect(numbers(result.blocks)).toEqual(['1', '2', '3', '3.1', '3.2']);
+    });
+
+    it('should leave levels above the first numbered level unnumbered', () => {
+      settings.numberHeadings = true;
+      settings.headingNumberingStartLevel = 2;
+      parser = new MarkdownParser(settings);
+
+      const result = parser.parse(markdown);
+
+      expect(numbers(result.blocks)).toEqual([undefined, '1', '1.1', '2', undefined, '2.1']);
+    });
+
+    it('should keep anchors and number the table of contents and links', () => {
+      settings.numberHeadings = true;
+      settings.includeToc = true;
+      parser = new MarkdownParser(settings);
+
+      const result = parser.parse('See [[#Scope]], [[#Scope|the scope]] and [[#^note]].\n\n# Goals\n\n## Scope');
+      const toc = result.blocks[0] as any;
+      const links = (result.blocks[1] as any).content.filter((item: any) => item.type === 'link');
+
+      expect(toc.entries).toEqual([
+        { level: 1, text: '1 Goals', id: 'goals' },
+        { level: 2, text: '1.1 Scope', id: 'scope' }
+      ]);
+      expect(links.map((link: any) => link.text.map((item: any) => item.content).join(''))).toEqual(['1.1 Scope', 'the scope', '^note']);
+      expect(links[0].url).toBe('#scope');
+    });
+  });
+
+  describe('Obsidian callouts', () => {
+    it('should parse a callout with type, title, and content', () => {
       const markdown = '> [!info] Title\n> Content';
       const result = parser.parse(markdown);
 
-      expect(result.blocks).toHaveLength(1);
+      expect(result.blocks).toEqual([{
+        type: 'callout',
+        calloutType: 'info',
+        title: [{ type: 'text', content: 'Title' }],
+        content: [{ type: 'paragraph', content: [{ type: 'text', content: 'Content' }], position: { startLine: 2, endLine: 2 } }],
+        position: { startLine: 1, endLine: 2 }
+      }]);
+    });
+
+    it('should default the title to the capitalized type', () => {
+      const result = parser.parse('> [!TIP]\n> Content');
+      const callout = result.blocks[0] as any;
+
+      expect(callout.calloutType).toBe('tip');
+      expect(callout.title).toEqual([{ type: 'text', content: 'Tip' }]);
+    });
+
+    it('should parse inline formatting in the title', () => {
+      const result = parser.parse('> [!warning] **Be** careful\n> Content');
+      const callout = result.blocks[0] as any;
+
+      expect(callout.title[0].type).toBe('bold');
+    });
+
+    it('should keep the fold state of foldable callouts', () => {
+      const collapsed = parser.parse('> [!note]- Hidden\n> Content').blocks[0] as any;
+      const expanded = parser.parse('> [!note]+ Shown\n> Content').blocks[0] as any;
+      const fixed = parser.parse('> [!note] Fixed\n> Content').blocks[0] as any;
+
+      expect(collapsed.collapsed).toBe(true);
+      expect(expanded.collapsed).toBe(false);
+      expect(fixed.collapsed).toBeUndefined();
+    });
+
+    it('should parse nested callouts and block content', () => {
+      const markdown = '> [!danger] Outer\n> - item\n>\n> > [!example] Inner\n> > Body';
+      const callout = parser.parse(markdown).blocks[0] as any;
+
+      expect(callout.content[0].type).toBe('list');
+      expect(callout.content[1].type).toBe('callout');
+      expect(callout.content[1].calloutType).toBe('example');
+      expect(callout.content[1].content[0].type).toBe('paragraph');
+    });
+
+    it('should keep plain blockquotes as blockquotes', () => {
+      const result = parser.parse('> Just a quote [!note]');
+
       expect(result.blocks[0].type).toBe('blockquote');
     });
+  });
 
-    it('should convert tip callout', () => {
-      const markdown = '> [!tip]\n> Content';
+  describe('Footnotes', () => {
+    it('should parse footnote references and definitions', () => {
+      const markdown = 'Claim[^src] and another[^1].\n\n[^1]: First note.\n[^src]: Source note.';
       const result = parser.parse(markdown);
 
       expect(result.blocks).toHaveLength(1);
-      expect(result.blocks[0].type).toBe('blockquote');
+      const content = (result.blocks[0] as any).content;
+      expect(content).toContainEqual({ type: 'footnoteRef', id: 'src', index: 1 });
+      expect(content).toContainEqual({ type: 'footnoteRef', id: '1', index: 2 });
+
+      expect(result.footnotes).toHaveLength(2);
+      expect(result.footnotes![0].id).toBe('src');
+      expect(result.footnotes![0].content[0].type).toBe('paragraph');
+      expect(result.footnotes![1].id).toBe('1');
     });
 
-    it('should convert warning callout', () => {
-      const markdown = '> [!warning] Warning Title\n> Be careful!';
+    it('should keep indented continuation lines in the definition', () => {
+      const markdown = 'Text[^1]\n\n[^1]: First line.\n\n    Second paragraph.\n\nAfter.';
       const result = parser.parse(markdown);
 
+      expect(result.footnotes![0].content).toHaveLength(2);
+      expect(result.blocks).toHaveLength(2);
+    });
+
+    it('should keep references without a definition as text', () => {
+      const result = parser.parse('Missing[^x] note');
+
+      expect(result.footnotes).toBeUndefined();
+      const text = (result.blocks[0] as any).content.map((c: any) => c.content).join('');
+      expect(text).toBe('Missing[^x] note');
+    });
+
+    it('should omit unreferenced definitions', () => {
+      const result = parser.parse('No refs here.\n\n[^1]: Unused.');
+
       expect(result.blocks).toHaveLength(1);
-      expect(result.blocks[0].type).toBe('blockquote');
+      expect(result.footnotes).toBeUndefined();
     });
 
-    it('should convert note callout', () => {
-      const markdown = '> [!note]\n> A note';
-      const result = parser.parse(markdown);
+    it('should not treat definitions inside code blocks as footnotes', () => {
+      const result = parser.parse('```\n[^1]: not a note\n```');
+
+      expect(result.blocks[0].type).toBe('code');
+      expect((result.blocks[0] as any).content).toBe('[^1]: not a note');
+    });
+  });
+
+  describe('Embedded notes', () => {
+    const embed = (path: string, content: string, embeds: EmbedMap = new Map(), line = 1): ResolvedEmbed => ({ path, content, line, embeds });
+
+    it('should splice the parsed blocks of embedded notes in place of the embed', () => {
+      const embeds: EmbedMap = new Map([['Part', embed('Part.md', '## Part\n\nPart body.')]]);
+      parser = new MarkdownParser(settings, { sourcePath: 'Main.md', embeds });
+
+      const result = parser.parse('Intro\n\n![[Part]]\n\nOutro');
+
+      expect(result.blocks.map(block => block.type)).toEqual(['paragraph', 'heading', 'paragraph', 'paragraph']);
+      expect((result.blocks[2] as any).content[0].content).toBe('Part body.');
+    });
+
+    it('should transclude consecutive embeds and nested embeds', () => {
+      const embeds: EmbedMap = new Map([
+        ['A', embed('A.md', 'A body\n\n![[B]]', new Map([['B', embed('B.md', 'B body')]]))],
+        ['C', embed('C.md', 'C body')]
+      ]);
+      parser = new MarkdownParser(settings, { sourcePath: 'Main.md', embeds });
+
+      const result = parser.parse('![[A]]\n![[C]]');
+
+      const texts = result.blocks.map(block => (block as any).content[0].content);
+      expect(texts).toEqual(['A body', 'B body', 'C body']);
+    });
+
+    it('should transclude embeds on their own lines in list items', () => {
+      const embeds: EmbedMap = new Map([['Part', embed('Part.md', '## Part\n\nPart body.')]]);
+      parser = new MarkdownParser(settings, { sourcePath: 'Main.md', embeds });
+
+      const result = parser.parse('- Item\n\n  ![[Part]]\n- ![[Part]]\n- See ![[Part]] here');
+
+      const [first, second, third] = (result.blocks[0] as ListBlock).items;
+      expect(first.content).toEqual([{ type: 'text', content: 'Item' }]);
+      expect(first.blocks!.map(block => block.type)).toEqual(['heading', 'paragraph']);
+      expect(first.blocks![0].position).toEqual({ startLine: 1, endLine: 1, sourcePath: 'Part.md' });
+      expect(second.content).toEqual([]);
+      expect(second.blocks!.map(block => block.type)).toEqual(['heading', 'paragraph']);
+      expect(third.blocks).toBeUndefined();
+    });
+
+    it('should keep unresolved embeds as links', () => {
+      parser = new MarkdownParser(settings, { sourcePath: 'Main.md', embeds: new Map() });
+
+      const result = parser.parse('![[Missing]]');
 
       expect(result.blocks).toHaveLength(1);
-      expect(result.blocks[0].type).toBe('blockquote');
+      expect(result.blocks[0].type).toBe('paragraph');
+    });
+
+    it('should keep the footnotes of embedded notes apart from the host note', () => {
+      const embeds: EmbedMap = new Map([['Part', embed('Part.md', 'Part claim[^1].\n\n[^1]: Part note.')]]);
+      parser = new MarkdownParser(settings, { sourcePath: 'Main.md', embeds });
+
+      const result = parser.parse('Host claim[^1].\n\n![[Part]]\n\n[^1]: Host note.');
+
+      expect((result.blocks[0] as any).content).toContainEqual({ type: 'footnoteRef', id: '1', index: 1 });
+      expect((result.blocks[1] as any).content).toContainEqual({ type: 'footnoteRef', id: '1', index: 2 });
+      const notes = result.footnotes!.map(footnote => (footnote.content[0] as any).content[0].content);
+      expect(notes).toEqual(['Host note.', 'Part note.']);
     });
 
-    it('should convert danger callout', () => {
-      const markdown = '> [!danger] Dangerous!\n> Be very careful';
+    it('should resolve links and images against the embedded note', () => {
+      const embeds: EmbedMap = new Map([
+        ['Folder/Part', embed('Folder/Part.md', '## Scope\n\nSee [[Part#Scope]].\n\n![[diagram.png]]')]
+      ]);
+      parser = new MarkdownParser(settings, { sourcePath: 'Main.md', embeds });
+
+      const result = parser.parse('![[Folder/Part]]\n\n![[logo.png]]');
+
+      const link = (result.blocks[1] as any).content[1];
+      expect(link).toMatchObject({ type: 'link', url: '#scope' });
+      expect(result.blocks[2]).toMatchObject({ type: 'image', url: 'diagram.png', sourcePath: 'Folder/Part.md' });
+      expect(result.blocks[3]).toMatchObject({ type: 'image', url: 'logo.png' });
+      expect((result.blocks[3] as any).sourcePath).toBeUndefined();
+    });
+
+    it('should record the lines of transcluded blocks in the embedded note', () => {
+      const embeds: EmbedMap = new Map([['Part', embed('Part.md', '## Part\n\nPart body.', new Map(), 5)]]);
+      parser = new MarkdownParser(settings, { sourcePath: 'Main.md', embeds });
+
+      const result = parser.parse('Intro\n\n![[Part]]\n\nOutro');
+
+      expect(result.blocks.map(block => block.position)).toEqual([
+        { startLine: 1, endLine: 1 },
+        { startLine: 5, endLine: 5, sourcePath: 'Part.md' },
+        { startLine: 7, endLine: 7, sourcePath: 'Part.md' },
+        { startLine: 5, endLine: 5 }
+      ]);
+    });
+
+    it('should report failing fence handlers at their line in the embedded note', () => {
+      const extensions = new ExportExtensions();
+      extensions.registerFenceHandler('chart', () => {
+        throw new Error('Bad data');
+      });
+      const embeds: EmbedMap = new Map([['Part', embed('Part.md', 'Text\n\n```chart\nx\n```', new Map(), 3)]]);
+      parser = new MarkdownParser(settings, { sourcePath: 'Main.md', embeds, extensions });
+
+      const result = parser.parse('![[Part]]');
+
+      expect(result.diagnostics![0].position).toEqual({ startLine: 5, endLine: 7, sourcePath: 'Part.md' });
+    });
+  });
+
+  describe('Math', () => {
+    it('should parse inline math', () => {
+      const result = parser.parse('Euler: $e^{i\\pi} + 1 = 0$ holds.');
+      const content = (result.blocks[0] as any).content;
+
+      expect(content).toContainEqual({ type: 'math', latex: 'e^{i\\pi} + 1 = 0' });
+    });
+
+    it('should parse display math blocks without interpreting markdown inside', () => {
+      const markdown = 'Before\n\n$$\na_1 * b_2 * c\n$$\n\nAfter';
       const result = parser.parse(markdown);
 
-      expect(result.blocks).toHaveLength(1);
-      expect(result.blocks[0].type).toBe('blockquote');
+      expect(result.blocks).toHaveLength(3);
+      expect(result.blocks[1]).toEqual({ type: 'math', latex: 'a_1 * b_2 * c', position: { startLine: 3, endLine: 5 } });
+    });
+
+    it('should parse single-line display math as a block', () => {
+      const result = parser.parse('$$x^2$$');
+
+      expect(result.blocks).toEqual([{ type: 'math', latex: 'x^2', position: { startLine: 1, endLine: 1 } }]);
+    });
+
+    it('should not treat prices or escaped dollars as math', () => {
+      const result = parser.parse('Costs $5 and $10, or \\$x\\$.');
+      const content = (result.blocks[0] as any).content;
+
+      expect(content.some((c: any) => c.type === 'math')).toBe(false);
+      expect(content.map((c: any) => c.content).join('')).toBe('Costs $5 and $10, or $x$.');
+    });
+
+    it('should not parse math inside code', () => {
+      const result = parser.parse('Use `$x$` here.\n\n```\n$$y$$\n```');
+
+      expect((result.blocks[0] as any).content).toContainEqual({ type: 'code', content: '$x$' });
+      expect(result.blocks[1].type).toBe('code');
     });
   });
 
@@ -357,6 +1059,30 @@ graph TD
       expect(list.items.length).toBeGreaterThan(0);
     });
 
+    it('should keep code blocks and paragraphs inside list items', () => {
+      const markdown = '1. Install\n\n   ```bash\n   npm install\n   ```\n\n   Then run it.\n2. Configure\n   - nested';
+      const result = parser.parse(markdown);
+
+      expect(result.blocks).toHaveLength(1);
+      const list = result.blocks[0] as any;
+      expect(list.items).toHaveLength(2);
+      expect(list.items[0].content).toEqual([{ type: 'text', content: 'Install' }]);
+      expect(list.items[0].blocks).toEqual([
+        { type: 'code', language: 'bash', content: 'npm install', position: { startLine: 3, endLine: 5 } },
+        { type: 'paragraph', content: [{ type: 'text', content: 'Then run it.' }], position: { startLine: 7, endLine: 7 } }
+      ]);
+      expect(list.items[1].blocks).toBeUndefined();
+      expect(list.items[1].children.items[0].content).toEqual([{ type: 'text', content: 'nested' }]);
+    });
+
+    it('should keep block quotes inside list items', () => {
+      const result = parser.parse('- Item\n\n  > quoted');
+      const item = (result.blocks[0] as any).items[0];
+
+      expect(item.content).toEqual([{ type: 'text', content: 'Item' }]);
+      expect(item.blocks[0].type).toBe('blockquote');
+    });
+
     it('should handle multiple consecutive code blocks', () => {
       const markdown = `\`\`\`python
 code1
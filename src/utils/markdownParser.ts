@@ -1,52 +1,285 @@
-import { marked, Token, Tokens } from 'marked';
+import { Marked, Token, Tokens, TokenizerExtension } from 'marked';
 import {
 	ParsedContent,
 	ContentBlock,
 	InlineContent,
 	HeadingBlock,
 	ParagraphBlock,
-	CodeBlock,
 	MermaidBlock,
 	ListBlock,
 	ListItem,
 	TableBlock,
 	BlockquoteBlock,
+	CalloutBlock,
 	HorizontalRuleBlock,
 	ImageBlock,
+	TableOfContentsBlock,
+	TocEntry,
 	TextContent,
 	BoldContent,
 	ItalicContent,
 	StrikethroughContent,
 	CodeContent,
 	LinkContent,
-	PluginSettings
+	FootnoteReferenceContent,
+	ImageContent,
+	FootnoteDefinition,
+	DocumentMetadata,
+	PluginSettings,
+	ExportContext,
+	ExportDiagnostic,
+	SourceRange
 } from '../types';
 import { MermaidEncoder } from './mermaidEncoder';
+import { Diagnostics } from './diagnostics';
+import { FrontmatterParser } from './frontmatterParser';
+import { Anchors } from './anchors';
+import { EmbedMap, ResolvedEmbed } from './embedResolver';
+
+/**
+ * Inline tokenizer for footnote references ([^id]).
+ * Emits a 'footnoteRef' token carrying the footnote identifier.
+ */
+const footnoteReferenceExtension: TokenizerExtension = {
+	name: 'footnoteRef',
+	level: 'inline',
+	start(src: string) {
+		const index = src.indexOf('[^');
+		return index >= 0 ? index : undefined;
+	},
+	tokenizer(src: string) {
+		const match = /^\[\^([^\]\s]+)\]/.exec(src);
+		if (match) {
+			return {
+				type: 'footnoteRef',
+				raw: match[0],
+				id: match[1]
+			};
+		}
+		return undefined;
+	}
+};
+
+/**
+ * Image files shown by Obsidian embeds (![[image.png]]).
+ */
+const IMAGE_EMBED_REGEX = /\.(png|jpe?g|gif|bmp|svg|webp|avif)$/i;
+
+/**
+ * Inline tokenizer for Obsidian wiki links ([[target]], [[target|display]]).
+ * Embeds (![[target]]) are matched too so the '!' is not left behind as text.
+ */
+const wikiLinkExtension: TokenizerExtension = {
+	name: 'wikiLink',
+	level: 'inline',
+	start(src: string) {
+		const match = /!?\[\[/.exec(src);
+		return match ? match.index : undefined;
+	},
+	tokenizer(src: string) {
+		const match = /^(!?)\[\[([^\]|]+)(?:\|([^\]]+))?\]\]/.exec(src);
+		if (match) {
+			return {
+				type: 'wikiLink',
+				raw: match[0],
+				embed: match[1] === '!',
+				target: match[2].trim(),
+				display: match[3] ? match[3].trim() : undefined
+			};
+		}
+		return undefined;
+	}
+};
+
+/**
+ * Inline tokenizer for Obsidian highlights (==text==).
+ * The highlighted text is tokenized further so nested formatting is kept.
+ */
+const highlightExtension: TokenizerExtension = {
+	name: 'highlight',
+	level: 'inline',
+	start(src: string) {
+		const index = src.indexOf('==');
+		return index >= 0 ? index : undefined;
+	},
+	tokenizer(src: string) {
+		const match = /^==(?![\s=])([\s\S]*?[^\s=])==(?!=)/.exec(src);
+		if (match) {
+			return {
+				type: 'highlight',
+				raw: match[0],
+				text: match[1],
+				tokens: this.lexer.inlineTokens(match[1])
+			};
+		}
+		return undefined;
+	}
+};
+
+/**
+ * Inline tokenizer for HTML formatting tags (<u>, <ins>, <mark>, <sup>, <sub>, <kbd>).
+ * Matches an opening tag with its closing tag so the pair becomes one token;
+ * other inline HTML is left to marked.
+ */
+const htmlFormatExtension: TokenizerExtension = {
+	name: 'htmlFormat',
+	level: 'inline',
+	start(src: string) {
+		const match = /<(?:u|ins|mark|sup|sub|kbd)[\s>]/i.exec(src);
+		return match ? match.index : undefined;
+	},
+	tokenizer(src: string) {
+		const match = /^<(u|ins|mark|sup|sub|kbd)(?:\s[^>]*)?>([\s\S]*?)<\/\1\s*>/i.exec(src);
+		if (match) {
+			return {
+				type: 'htmlFormat',
+				raw: match[0],
+				tag: match[1].toLowerCase(),
+				text: match[2],
+				tokens: this.lexer.inlineTokens(match[2])
+			};
+		}
+		return undefined;
+	}
+};
+
+/**
+ * Block tokenizer for display math ($$...$$ starting a line).
+ * The LaTeX source is kept verbatim so markdown syntax inside it is not parsed.
+ */
+const mathBlockExtension: TokenizerExtension = {
+	name: 'mathBlock',
+	level: 'block',
+	start(src: string) {
+		const match = /(^|\n) {0,3}\$\$/.exec(src);
+		return match ? match.index + match[1].length : undefined;
+	},
+	tokenizer(src: string) {
+		const match = /^ {0,3}\$\$([\s\S]+?)\$\$[ \t]*(?:\n+|$)/.exec(src);
+		if (match) {
+			return {
+				type: 'mathBlock',
+				raw: match[0],
+				text: match[1].trim()
+			};
+		}
+		return undefined;
+	}
+};
+
+/**
+ * Inline tokenizer for math ($...$ and $$...$$ within text).
+ * Like Obsidian, $ must not be followed or preceded by whitespace inside the
+ * delimiters, and a closing $ followed by a digit does not close, so prices
+ * such as "$5 and $10" stay text.
+ */
+const inlineMathExtension: TokenizerExtension = {
+	name: 'inlineMath',
+	level: 'inline',
+	start(src: string) {
+		// Skip escaped dollars so the escape tokenizer still sees "\$"
+		const match = /(^|[^\\])\$/.exec(src);
+		return match ? match.index + match[1].length : undefined;
+	},
+	tokenizer(src: string) {
+		const displayMatch = /^\$\$([\s\S]+?)\$\$/.exec(src);
+		if (displayMatch) {
+			return {
+				type: 'inlineMath',
+				raw: displayMatch[0],
+				text: displayMatch[1].trim(),
+				display: true
+			};
+		}
+
+		const match = /^\$(?!\s)((?:\\[\s\S]|[^\\$\n])+?)\$(?!\d)/.exec(src);
+		if (match && !/\s$/.test(match[1])) {
+			return {
+				type: 'inlineMath',
+				raw: match[0],
+				text: match[1],
+				display: false
+			};
+		}
+		return undefined;
+	}
+};
+
+/**
+ * Marked instance extended with Obsidian-specific inline syntax.
+ * Kept separate from the global marked instance so other plugins are unaffected.
+ */
+const markdownLexer = new Marked({
+	extensions: [
+		footnoteReferenceExtension,
+		wikiLinkExtension,
+		mathBlockExtension,
+		inlineMathExtension,
+		highlightExtension,
+		htmlFormatExtension
+	]
+});
 
 /**
  * MarkdownParser transforms markdown strings into structured ContentBlock trees.
- * Uses a two-pass approach: first extracts Mermaid blocks, then parses remaining markdown.
+ * Pre-processes the raw markdown, then converts marked's tokens to blocks;
+ * ```mermaid and ~~~mermaid fences become MermaidBlocks at any nesting depth.
  */
 export class MarkdownParser {
 	private settings: PluginSettings;
-	private mermaidBlocks: Map<string, MermaidBlock>;
-	private mermaidCounter: number;
+	private context: ExportContext;
+	private footnoteDefinitions: Map<string, { id: string; source: string; line: number; embed: ResolvedEmbed | null }>;
+	private footnoteOrder: string[];
+	private metadata: DocumentMetadata | null;
+	private headingIds: Map<string, number>;
+	private headingLinks: { link: LinkContent; anchor: string }[];
+	private mermaidCount: number;
+	private diagnostics: ExportDiagnostic[];
+	private embed: ResolvedEmbed | null;
 
-	constructor(settings: PluginSettings) {
+	constructor(settings: PluginSettings, context: ExportContext = {}) {
 		this.settings = settings;
-		this.mermaidBlocks = new Map();
-		this.mermaidCounter = 0;
+		this.context = context;
+		this.footnoteDefinitions = new Map();
+		this.footnoteOrder = [];
+		this.metadata = null;
+		this.headingIds = new Map();
+		this.headingLinks = [];
+		this.mermaidCount = 0;
+		this.diagnostics = [];
+		this.embed = null;
+	}
+
+	/**
+	 * Counts the code blocks of a note at any nesting depth, telling Mermaid
+	 * diagrams apart from other code (used by the export preview).
+	 *
+	 * @param markdown - The markdown content
+	 * @returns Number of Mermaid diagrams and of other code blocks
+	 */
+	static countCodeBlocks(markdown: string): { mermaid: number; code: number } {
+		const counts = { mermaid: 0, code: 0 };
+		markdownLexer.walkTokens(markdownLexer.lexer(markdown), token => {
+			if (token.type === 'code') {
+				const language = ((token as Tokens.Code).lang || '').trim().split(/\s+/)[0].toLowerCase();
+				counts[language === 'mermaid' ? 'mermaid' : 'code']++;
+			}
+		});
+		return counts;
 	}
 
 	/**
 	 * Main parsing entry point. Orchestrates multi-pass parsing:
-	 * 1. Strip YAML frontmatter
-	 * 2. Extract Mermaid blocks and replace with placeholders
-	 * 3. Convert Obsidian callouts to blockquotes
-	 * 4. Fix empty code blocks before content
-	 * 5. Strip trailing hashtags
-	 * 6. Parse remaining markdown with marked library
-	 * 7. Replace placeholders with MermaidBlock objects
+	 * 1. Run the markdown preprocessors registered by extensions
+	 * 2. Extract YAML frontmatter into document metadata
+	 * 3. Fix empty code blocks before content
+	 * 4. Strip trailing hashtags
+	 * 5. Extract footnote definitions
+	 * 6. Parse remaining markdown with marked library (callouts become CalloutBlocks,
+	 *    Mermaid fences become MermaidBlocks, fences of registered languages go to
+	 *    their fence handlers, embeds resolved in context.embeds are transcluded)
+	 * 7. Parse referenced footnote definitions
+	 * 8. Prepend the table of contents and the properties table if enabled
 	 *
 	 * Requirements: 7.1, 7.2, 7.3
 	 *
@@ -61,17 +294,25 @@ export class MarkdownParser {
 			}
 
 			// Reset state for new parse
-			this.mermaidBlocks = new Map();
-			this.mermaidCounter = 0;
+			this.footnoteDefinitions = new Map();
+			this.footnoteOrder = [];
+			this.metadata = null;
+			this.headingIds = new Map();
+			this.headingLinks = [];
+			this.mermaidCount = 0;
+			this.diagnostics = [];
+			this.embed = null;
 
 			// Requirement 7.3: Handle special characters and Unicode
 			// The marked library handles Unicode correctly by default
 
-			// Pre-processing: Strip YAML frontmatter
-			let processedMarkdown = this.stripFrontmatter(markdown);
+			// Pre-processing: Preprocessors registered by other plugins
+			let processedMarkdown = this.context.extensions
+				? this.context.extensions.preprocess(markdown, this.context, this.diagnostics)
+				: markdown;
 
-			// Pre-processing: Convert Obsidian callouts to styled blockquotes
-			processedMarkdown = this.convertObsidianCallouts(processedMarkdown);
+			// Pre-processing: Extract YAML frontmatter into metadata
+			processedMarkdown = this.extractFrontmatter(processedMarkdown);
 
 			// Pre-processing: Fix empty code blocks followed by content
 			processedMarkdown = this.fixEmptyCodeBlocks(processedMarkdown);
@@ -79,22 +320,51 @@ export class MarkdownParser {
 			// Pre-processing: Strip trailing hashtags (Obsidian tags)
 			processedMarkdown = this.stripTrailingTags(processedMarkdown);
 
-			// First pass: extract Mermaid blocks (Requirement 7.2: handles malformed syntax)
-			processedMarkdown = this.extractMermaidBlocks(processedMarkdown);
+			// Pre-processing: Pull footnote definitions out of the document body
+			processedMarkdown = this.extractFootnoteDefinitions(processedMarkdown, 1);
 
-			// Second pass: parse markdown with marked
-			const tokens = marked.lexer(processedMarkdown);
+			// Parse markdown with marked
+			const tokens = markdownLexer.lexer(processedMarkdown);
 
-			// Convert tokens to ContentBlocks
-			const blocks: ContentBlock[] = [];
-			for (const token of tokens) {
-				const block = this.tokenToBlock(token);
-				if (block) {
-					blocks.push(block);
+			// Convert tokens to ContentBlocks (pre-processing keeps the line numbers of the note)
+			const blocks = this.tokensToBlocks(tokens, 1);
+
+			const result: ParsedContent = { blocks };
+
+			// Footnotes are parsed last so numbering follows reference order
+			const footnotes = this.parseFootnoteDefinitions();
+			if (footnotes.length > 0) {
+				result.footnotes = footnotes;
+			}
+
+			if (this.diagnostics.length > 0) {
+				result.diagnostics = this.diagnostics;
+			}
+
+			// Number the headings before the table of contents lists them
+			if (this.settings.numberHeadings) {
+				this.numberHeadings(blocks);
+			}
+
+			// Table of contents from the headings, if enabled by setting or frontmatter
+			if (this.isTableOfContentsEnabled()) {
+				const toc = this.createTableOfContents(blocks);
+				if (toc.entries.length > 0) {
+					blocks.unshift(toc);
 				}
 			}
 
-			return { blocks };
+			if (this.metadata) {
+				result.metadata = this.metadata;
+
+				// Optionally render the frontmatter properties at the top of the document
+				const propertiesTable = this.createPropertiesTable(this.metadata);
+				if (this.settings.includePropertiesTable && propertiesTable) {
+					blocks.unshift(propertiesTable);
+				}
+			}
+
+			return result;
 			
 		} catch {
 			// If parsing completely fails, return empty content
@@ -103,60 +373,334 @@ export class MarkdownParser {
 	}
 
 	/**
-	 * First-pass extraction of Mermaid blocks.
-	 * Uses regex to find all ```mermaid blocks, replaces with placeholders,
-	 * and stores MermaidBlock objects in a map.
-	 * 
-	 * Requirement 7.2: Handle malformed Mermaid syntax (encode as-is)
-	 * 
+	 * Prefixes the top-level headings with hierarchical section numbers
+	 * (1, 1.1, 1.1.1), starting at settings.headingNumberingStartLevel.
+	 * Depth counts the heading levels actually in use, so a note whose top
+	 * headings are H2 starts at 1 and a skipped level adds no 0 part.
+	 * Headings nested in callouts, quotes, or lists are not numbered.
+	 * Links to a heading that show its text get the same number.
+	 *
+	 * @param blocks - The document blocks
+	 */
+	private numberHeadings(blocks: ContentBlock[]): void {
+		const startLevel = Math.min(Math.max(this.settings.headingNumberingStartLevel, 1), 6);
+		// Heading level of each numbering depth, and the count at that depth
+		const levels: number[] = [];
+		const counters: number[] = [];
+		const numbers = new Map<string, string>();
+
+		for (const block of blocks) {
+			if (block.type !== 'heading' || block.level < startLevel) {
+				continue;
+			}
+
+			// Close the deeper sections, then count this heading as a sibling
+			// of an open section at its level or as the child of the last one
+			while (levels.length > 0 && levels[levels.length - 1] > block.level) {
+				levels.pop();
+			}
+			const depth = levels.length > 0 && levels[levels.length - 1] === block.level
+				? levels.length - 1
+				: levels.length;
+			levels[depth] = block.level;
+			counters.length = depth + 1;
+			counters[depth] = (counters[depth] || 0) + 1;
+
+			const number = counters.join('.');
+			block.number = number;
+			block.content = [{ type: 'text', content: `${number} ` }, ...block.content];
+			if (block.id) {
+				numbers.set(block.id, number);
+			}
+		}
+
+		for (const { link, anchor } of this.headingLinks) {
+			const number = numbers.get(anchor);
+			if (number) {
+				link.text = [{ type: 'text', content: `${number} ` }, ...link.text];
+			}
+		}
+	}
+
+	/**
+	 * Checks whether to insert a table of contents.
+	 * Frontmatter `toc: true/false` overrides the setting.
+	 */
+	private isTableOfContentsEnabled(): boolean {
+		return this.metadata?.toc ?? this.settings.includeToc;
+	}
+
+	/**
+	 * Builds a table of contents from the top-level headings.
+	 * Headings nested in callouts, quotes, or lists are left out.
+	 *
+	 * @param blocks - The document blocks
+	 * @returns TableOfContentsBlock listing headings up to settings.tocMaxDepth
+	 */
+	private createTableOfContents(blocks: ContentBlock[]): TableOfContentsBlock {
+		const maxDepth = Math.min(Math.max(this.settings.tocMaxDepth, 1), 6);
+		const entries: TocEntry[] = [];
+
+		for (const block of blocks) {
+			if (block.type === 'heading' && block.level <= maxDepth && block.id) {
+				entries.push({ level: block.level, text: this.getPlainText(block.content), id: block.id });
+			}
+		}
+
+		return { type: 'toc', maxDepth, entries };
+	}
+
+	/**
+	 * Extracts footnote definitions ([^id]: text) from the markdown.
+	 * Indented continuation lines belong to the definition. Definitions inside
+	 * fenced code blocks are left untouched.
+	 *
 	 * @param content - The markdown content
-	 * @returns Markdown with Mermaid blocks replaced by placeholders
+	 * @param firstLine - Source line of the first line of content (1-based)
+	 * @returns Markdown with footnote definitions removed
 	 */
-	private extractMermaidBlocks(content: string): string {
-		// Regex to match ```mermaid code blocks (handles optional trailing spaces after mermaid)
-		const mermaidRegex = /```mermaid\s*\n([\s\S]*?)```/g;
+	private extractFootnoteDefinitions(content: string, firstLine: number): string {
+		const lines = content.split('\n');
+		const kept: string[] = [];
+		let fence: string | null = null;
+		let current: { id: string; lines: string[]; line: number } | null = null;
 
-		return content.replace(mermaidRegex, (_match, code) => {
-			try {
-				// Generate unique placeholder
-				const placeholder = `__MERMAID_BLOCK_${this.mermaidCounter}__`;
-				this.mermaidCounter++;
-
-				// Requirement 7.2: Extract diagram type (handles malformed syntax gracefully)
-				const diagramType = MermaidEncoder.getDiagramType(code);
-				const formattedType = MermaidEncoder.formatDiagramType(diagramType);
-
-				// Requirement 7.2: Generate Mermaid Live URL (encodes malformed syntax as-is)
-				const url = MermaidEncoder.encode(code);
-
-				// Store MermaidBlock
-				const mermaidBlock: MermaidBlock = {
-					type: 'mermaid',
-					diagramType: formattedType,
-					code: code.trim(),
-					url: url
-				};
+		const finishDefinition = () => {
+			if (current) {
+				const key = this.getFootnoteKey(current.id);
+				if (!this.footnoteDefinitions.has(key)) {
+					this.footnoteDefinitions.set(key, {
+						id: current.id,
+						source: current.lines.join('\n').trim(),
+						line: current.line,
+						embed: this.embed
+					});
+				}
+				// Blank out the definition so later lines keep their line numbers
+				kept.push(...current.lines.map(() => ''));
+				current = null;
+			}
+		};
+
+		for (const [index, line] of lines.entries()) {
+			// Continuation lines are indented (blank lines may separate paragraphs)
+			if (current) {
+				if (line.trim() === '' || /^( {2,}|\t)/.test(line)) {
+					current.lines.push(line.replace(/^( {1,4}|\t)/, ''));
+					continue;
+				}
+				finishDefinition();
+			}
+
+			// Track fenced code blocks so their content is never treated as a definition
+			const fenceMatch = line.match(/^\s*(`{3,}|~{3,})/);
+			if (fenceMatch) {
+				if (fence === null) {
+					fence = fenceMatch[1];
+				} else if (fenceMatch[1].startsWith(fence)) {
+					fence = null;
+				}
+				kept.push(line);
+				continue;
+			}
+
+			if (fence === null) {
+				const definitionMatch = line.match(/^\[\^([^\]\s]+)\]:[ \t]?(.*)$/);
+				if (definitionMatch) {
+					current = { id: definitionMatch[1], lines: [definitionMatch[2]], line: firstLine + index };
+					continue;
+				}
+			}
+
+			kept.push(line);
+		}
+
+		finishDefinition();
+		return kept.join('\n');
+	}
+
+	/**
+	 * Parses the definitions of all referenced footnotes into FootnoteDefinitions.
+	 * Footnotes referenced only from other footnotes are appended as they are found.
+	 *
+	 * @returns Footnote definitions ordered by footnote number
+	 */
+	private parseFootnoteDefinitions(): FootnoteDefinition[] {
+		const footnotes: FootnoteDefinition[] = [];
+
+		for (let i = 0; i < this.footnoteOrder.length; i++) {
+			const key = this.footnoteOrder[i];
+			const definition = this.footnoteDefinitions.get(key) || { id: key, source: '', line: 1, embed: null };
+			// Definitions from embedded notes resolve their links and footnotes in that note
+			const content = this.withEmbed(definition.embed, () =>
+				this.tokensToBlocks(markdownLexer.lexer(definition.source), definition.line));
+
+			footnotes.push({ id: definition.id, index: i + 1, content });
+		}
+
+		return footnotes;
+	}
+
+	/**
+	 * Converts a sequence of tokens to ContentBlocks, recording the source
+	 * lines of each block.
+	 *
+	 * @param tokens - The marked tokens
+	 * @param line - Source line of the first token (1-based)
+	 * @returns The blocks with their positions
+	 */
+	private tokensToBlocks(tokens: Token[], line: number): ContentBlock[] {
+		const blocks: ContentBlock[] = [];
+		for (const token of tokens) {
+			const embeds = this.getParagraphEmbeds(token);
+			if (embeds) {
+				for (const embed of embeds) {
+					blocks.push(...this.parseEmbed(embed));
+				}
+			} else {
+				const block = this.tokenToBlock(token, line);
+				if (block) {
+					this.setPosition(block, token.raw, line);
+					blocks.push(block);
+				}
+			}
+			line += this.countLineBreaks(token.raw);
+		}
+		return blocks;
+	}
 
-				this.mermaidBlocks.set(placeholder, mermaidBlock);
+	/**
+	 * Returns the resolved note embeds of a paragraph holding only embeds on
+	 * their own lines, or null for other tokens and unresolved embeds.
+	 */
+	private getParagraphEmbeds(token: Token): ResolvedEmbed[] | null {
+		const resolved = this.embed ? this.embed.embeds : this.context.embeds;
+		if (!resolved || token.type !== 'paragraph' || !token.tokens) {
+			return null;
+		}
 
-				// Return placeholder wrapped in paragraph to preserve structure
-				return `\n${placeholder}\n`;
-				
-			} catch {
-				// If Mermaid encoding fails, return code block as-is
-				return `\n\`\`\`mermaid\n${code}\`\`\`\n`;
+		const embeds: ResolvedEmbed[] = [];
+		for (const child of token.tokens) {
+			if (child.type === 'wikiLink' && child.embed) {
+				const embed = resolved.get(child.target as string);
+				if (!embed) {
+					return null;
+				}
+				embeds.push(embed);
+			} else if (child.raw.trim().length > 0) {
+				return null;
 			}
+		}
+		return embeds.length > 0 ? embeds : null;
+	}
+
+	/**
+	 * Parses an embedded note into blocks spliced in place of its embed.
+	 * The embedded note is the source of its links, images, footnotes and
+	 * block positions;
+	 * headings, footnote numbers and Mermaid diagrams count on across the
+	 * document. Pre-processing matches the exported note's, minus frontmatter
+	 * (which EmbedResolver strips).
+	 *
+	 * @param embed - The resolved embed
+	 * @returns The blocks of the embedded note or section
+	 */
+	private parseEmbed(embed: ResolvedEmbed): ContentBlock[] {
+		return this.withEmbed(embed, () => {
+			let markdown = this.context.extensions
+				? this.context.extensions.preprocess(embed.content, { ...this.context, sourcePath: embed.path, embeds: embed.embeds }, this.diagnostics)
+				: embed.content;
+			markdown = this.fixEmptyCodeBlocks(markdown);
+			markdown = this.stripTrailingTags(markdown);
+			markdown = this.extractFootnoteDefinitions(markdown, embed.line);
+			return this.tokensToBlocks(markdownLexer.lexer(markdown), embed.line);
 		});
 	}
 
+	/**
+	 * Runs a parsing step inside an embedded note, or inside the exported note
+	 * when embed is null.
+	 */
+	private withEmbed<T>(embed: ResolvedEmbed | null, parse: () => T): T {
+		const previous = this.embed;
+		this.embed = embed;
+		try {
+			return parse();
+		} finally {
+			this.embed = previous;
+		}
+	}
+
+	/**
+	 * Returns the vault path of the note being parsed: the embedded note
+	 * inside transclusions, otherwise the exported note.
+	 */
+	private getSourcePath(): string | undefined {
+		return this.embed ? this.embed.path : this.context.sourcePath;
+	}
+
+	/**
+	 * Returns the key of a footnote id in the note being parsed. Footnotes of
+	 * embedded notes are namespaced by note path, so [^1] in an embedded note
+	 * and [^1] in the exported note stay separate footnotes.
+	 */
+	private getFootnoteKey(id: string): string {
+		const sourcePath = this.getSourcePath();
+		// Footnote ids contain no whitespace, so a line break cannot clash with one
+		return sourcePath && sourcePath !== this.context.sourcePath ? `${sourcePath}\n${id}` : id;
+	}
+
+	/**
+	 * Records the embedded note showing an image, whose path the image's
+	 * URL is relative to.
+	 */
+	private setImageSource<T extends ImageContent | ImageBlock>(image: T): T {
+		if (this.embed && this.embed.path !== this.context.sourcePath) {
+			image.sourcePath = this.embed.path;
+		}
+		return image;
+	}
+
+	/**
+	 * Records the source lines of a block from the raw markdown of its token.
+	 * Blocks that already have a position keep it.
+	 */
+	private setPosition(block: ContentBlock, raw: string, line: number): void {
+		if (!block.position) {
+			block.position = this.getPosition(raw, line);
+		}
+	}
+
+	/**
+	 * Returns the source lines covered by the raw markdown of a token.
+	 * Lines of transcluded notes name the note they are in.
+	 */
+	private getPosition(raw: string, line: number): SourceRange {
+		const lineCount = raw.replace(/\n+$/, '').split('\n').length;
+		const position: SourceRange = { startLine: line, endLine: line + lineCount - 1 };
+		const sourcePath = this.getSourcePath();
+		if (sourcePath && sourcePath !== this.context.sourcePath) {
+			position.sourcePath = sourcePath;
+		}
+		return position;
+	}
+
+	/**
+	 * Counts the line breaks in a piece of markdown.
+	 */
+	private countLineBreaks(text: string): number {
+		return (text.match(/\n/g) || []).length;
+	}
+
 	/**
 	 * Converts a Token to a ContentBlock.
 	 * Handles all ContentBlock types: heading, paragraph, code, list, table, blockquote, hr, image.
 	 * 
 	 * @param token - The marked token to convert
+	 * @param line - Source line of the token (1-based), passed on to nested blocks
 	 * @returns ContentBlock or null if token type not supported
 	 */
-	private tokenToBlock(token: Token): ContentBlock | null {
+	private tokenToBlock(token: Token, line: number): ContentBlock | null {
 		switch (token.type) {
 			case 'heading':
 				return this.parseHeading(token as Tokens.Heading);
@@ -165,20 +709,23 @@ export class MarkdownParser {
 				return this.parseParagraph(token as Tokens.Paragraph);
 			
 			case 'code':
-				return this.parseCode(token as Tokens.Code);
+				return this.parseCode(token as Tokens.Code, line);
 			
 			case 'list':
-				return this.parseList(token as Tokens.List);
+				return this.parseList(token as Tokens.List, line);
 			
 			case 'table':
 				return this.parseTable(token as Tokens.Table);
 			
 			case 'blockquote':
-				return this.parseBlockquote(token as Tokens.Blockquote);
+				return this.parseBlockquote(token as Tokens.Blockquote, line);
 			
 			case 'hr':
 				return this.parseHr();
 			
+			case 'mathBlock':
+				return { type: 'math', latex: (token as Tokens.Generic).text };
+			
 			case 'space':
 				// Skip space tokens
 				return null;
@@ -199,31 +746,60 @@ export class MarkdownParser {
 	 * Parses a heading token into a HeadingBlock.
 	 */
 	private parseHeading(token: Tokens.Heading): HeadingBlock {
+		const content = this.parseInlineContent(token.text);
 		return {
 			type: 'heading',
 			level: token.depth as 1 | 2 | 3 | 4 | 5 | 6,
-			content: this.parseInlineContent(token.text)
+			content: content,
+			id: this.createHeadingId(content)
 		};
 	}
 
 	/**
-	 * Parses a paragraph token into a ParagraphBlock, MermaidBlock, or ImageBlock.
-	 * Checks if paragraph contains a Mermaid placeholder or standalone image.
+	 * Builds a unique anchor for a heading. Repeated headings get a numeric
+	 * suffix (intro, intro-1), so links to the text reach the first one.
 	 */
-	private parseParagraph(token: Tokens.Paragraph): ContentBlock {
-		const text = token.text.trim();
-		
-		// Check if this is a Mermaid placeholder
-		if (this.mermaidBlocks.has(text)) {
-			return this.mermaidBlocks.get(text)!;
-		}
+	private createHeadingId(content: InlineContent[]): string {
+		const slug = Anchors.slugify(this.getPlainText(content)) || 'section';
+		const count = this.headingIds.get(slug) || 0;
+		this.headingIds.set(slug, count + 1);
+		return count === 0 ? slug : `${slug}-${count}`;
+	}
 
+	/**
+	 * Parses a paragraph token into a ParagraphBlock, ImageBlock, or MathBlock.
+	 * Checks if paragraph contains a standalone image or display math.
+	 */
+	private parseParagraph(token: Tokens.Paragraph): ContentBlock {
 		// Check if this paragraph contains a single image token
 		if (token.tokens && token.tokens.length === 1 && token.tokens[0].type === 'image') {
 			const imageToken = token.tokens[0] as Tokens.Image;
 			return this.parseImage(imageToken);
 		}
 
+		// Same for a paragraph holding only an embedded image (![[image.png]])
+		if (token.tokens && token.tokens.length === 1 && token.tokens[0].type === 'wikiLink') {
+			const image = this.parseImageEmbed(token.tokens[0] as Tokens.Generic);
+			if (image) {
+				return image;
+			}
+		}
+
+		// A paragraph holding only $$...$$ is display math
+		if (token.tokens && token.tokens.length === 1 && token.tokens[0].type === 'inlineMath' && (token.tokens[0] as Tokens.Generic).display) {
+			return { type: 'math', latex: (token.tokens[0] as Tokens.Generic).text };
+		}
+
+		// A trailing ^block-id marks the paragraph as a block reference target
+		const blockIdMatch = /(?:^|\s)\^([A-Za-z0-9-]+)\s*$/.exec(token.text);
+		if (blockIdMatch) {
+			return {
+				type: 'paragraph',
+				content: this.parseInlineContent(token.text.slice(0, blockIdMatch.index)),
+				id: `^${blockIdMatch[1]}`
+			};
+		}
+
 		return {
 			type: 'paragraph',
 			content: this.parseInlineContent(token.text)
@@ -231,9 +807,43 @@ export class MarkdownParser {
 	}
 
 	/**
-	 * Parses a code token into a CodeBlock.
+	 * Parses a code token into a CodeBlock or MermaidBlock, or hands fences of
+	 * a language registered by an extension to its fence handler.
+	 *
+	 * @param token - The code token
+	 * @param line - Source line of the opening fence (1-based)
 	 */
-	private parseCode(token: Tokens.Code): CodeBlock {
+	private parseCode(token: Tokens.Code, line: number): ContentBlock {
+		const info = (token.lang || '').trim();
+		const language = info.split(/\s+/)[0].toLowerCase();
+
+		// Mermaid fences always use the built-in Mermaid support
+		if (language === 'mermaid') {
+			const mermaidBlock = this.parseMermaid(token.text);
+			if (mermaidBlock) {
+				return mermaidBlock;
+			}
+		}
+
+		const handler = language ? this.context.extensions?.getFenceHandler(language) : undefined;
+		if (handler) {
+			try {
+				const block = handler(token.text, {
+					language,
+					info,
+					settings: this.settings,
+					parseInline: text => this.parseInlineContent(text),
+					parseBlocks: markdown => this.tokensToBlocks(markdownLexer.lexer(markdown), line + 1)
+				});
+				if (block) {
+					return block;
+				}
+			} catch (error) {
+				// A failing handler leaves the fence as a code block
+				this.diagnostics.push(Diagnostics.fenceHandlerError(language, error, this.getPosition(token.raw, line)));
+			}
+		}
+
 		return {
 			type: 'code',
 			language: token.lang || null,
@@ -241,33 +851,107 @@ export class MarkdownParser {
 		};
 	}
 
+	/**
+	 * Converts the code of a Mermaid fence into a MermaidBlock linking to Mermaid Live,
+	 * numbered in document order. The link uses the editor, link style and theme
+	 * of the settings.
+	 *
+	 * Requirement 7.2: Handle malformed Mermaid syntax (encode as-is)
+	 *
+	 * @param code - The diagram code
+	 * @returns The MermaidBlock, or null if encoding fails (kept as a code block)
+	 */
+	private parseMermaid(code: string): MermaidBlock | null {
+		try {
+			return MermaidEncoder.createBlock(code, this.settings, ++this.mermaidCount);
+		} catch {
+			return null;
+		}
+	}
+
 	/**
 	 * Parses a list token into a ListBlock.
+	 *
+	 * @param token - The list token
+	 * @param line - Source line of the list (1-based)
 	 */
-	private parseList(token: Tokens.List): ListBlock {
+	private parseList(token: Tokens.List, line: number): ListBlock {
+		let itemLine = line;
 		const items: ListItem[] = token.items.map((item: Tokens.ListItem) => {
+			// Block tokens of the item with their source lines. Text of tight items
+			// is read as paragraphs, so embeds on lines of their own are transcluded.
+			const lines = new Map<Token, number>();
+			const subTokens: Token[] = [];
+			let tokenLine = itemLine;
+			for (const subToken of item.tokens || []) {
+				if (subToken.type !== 'space') {
+					const blockToken: Token = subToken.type === 'text'
+						? { ...(subToken as Tokens.Text), type: 'paragraph', tokens: (subToken as Tokens.Text).tokens || [] }
+						: subToken;
+					lines.set(blockToken, tokenLine);
+					subTokens.push(blockToken);
+				}
+				tokenLine += this.countLineBreaks(subToken.raw);
+			}
+			itemLine += this.countLineBreaks(item.raw);
+
+			// The first line of text is the item content, unless it only holds note embeds
+			const first = subTokens[0];
+			const hasText = first !== undefined && first.type === 'paragraph' && !this.getParagraphEmbeds(first);
 			const listItem: ListItem = {
-				content: this.parseInlineContent(item.text)
+				content: hasText ? this.parseInlineContent((first as Tokens.Paragraph).text) : []
 			};
 
-			// Handle nested lists
-			if (item.tokens && item.tokens.length > 0) {
-				for (const subToken of item.tokens) {
-					if (subToken.type === 'list') {
-						listItem.children = this.parseList(subToken as Tokens.List);
-						break;
+			// Preserve task list state (- [ ] / - [x])
+			if (item.task) {
+				listItem.checked = !!item.checked;
+			}
+
+			// Everything below the first line: further paragraphs, code, tables,
+			// quotes, and nested lists. A trailing nested list stays in `children`.
+			const rest = hasText ? subTokens.slice(1) : subTokens;
+			const last = rest[rest.length - 1];
+			if (last && last.type === 'list') {
+				listItem.children = this.parseList(last as Tokens.List, lines.get(last)!);
+				this.setPosition(listItem.children, last.raw, lines.get(last)!);
+				rest.pop();
+			}
+
+			const blocks: ContentBlock[] = [];
+			for (const subToken of rest) {
+				const embeds = this.getParagraphEmbeds(subToken);
+				if (embeds) {
+					for (const embed of embeds) {
+						blocks.push(...this.parseEmbed(embed));
 					}
+					continue;
+				}
+				const subLine = lines.get(subToken)!;
+				const block = this.tokenToBlock(subToken, subLine);
+				if (block) {
+					this.setPosition(block, subToken.raw, subLine);
+					blocks.push(block);
 				}
 			}
+			if (blocks.length > 0) {
+				listItem.blocks = blocks;
+			}
 
 			return listItem;
 		});
 
-		return {
+		const list: ListBlock = {
 			type: 'list',
 			ordered: token.ordered,
 			items: items
 		};
+
+		// Keep the number the list starts counting from (5. 6. 7.)
+		if (token.ordered && typeof token.start === 'number') {
+			list.start = token.start;
+		}
+
+		return list;
 	}
 
 	/**
@@ -289,29 +973,111 @@ export class MarkdownParser {
 		return {
 			type: 'table',
 			headers: headers,
-			rows: rows
+			rows: rows,
+			align: token.align.map(align => align || null),
+			columnWidths: this.getColumnWidths([headers, ...rows])
 		};
 	}
 
 	/**
-	 * Parses a blockquote token into a BlockquoteBlock.
+	 * Sizes table columns in proportion to their longest cell text.
+	 * Lengths are clamped so very short columns stay readable and a single
+	 * long column does not squeeze the others.
+	 *
+	 * @param rows - All table rows, header first
+	 * @returns Column widths in percent, summing to 100
 	 */
-	private parseBlockquote(token: Tokens.Blockquote): BlockquoteBlock {
-		const blocks: ContentBlock[] = [];
-		
-		for (const subToken of token.tokens) {
-			const block = this.tokenToBlock(subToken);
-			if (block) {
-				blocks.push(block);
+	private getColumnWidths(rows: InlineContent[][][]): number[] {
+		const columnCount = Math.max(...rows.map(row => row.length));
+		const lengths: number[] = [];
+
+		for (let column = 0; column < columnCount; column++) {
+			const longest = Math.max(0, ...rows.map(row => this.getPlainText(row[column] || []).length));
+			lengths.push(Math.min(Math.max(longest, 4), 40));
+		}
+
+		const total = lengths.reduce((sum, length) => sum + length, 0);
+		const widths = lengths.map(length => Math.round((length / total) * 100));
+
+		// Give the rounding remainder to the widest column
+		const widest = widths.indexOf(Math.max(...widths));
+		widths[widest] += 100 - widths.reduce((sum, width) => sum + width, 0);
+
+		return widths;
+	}
+
+	/**
+	 * Returns the visible text of inline content.
+	 */
+	private getPlainText(content: InlineContent[]): string {
+		return content.map(item => {
+			switch (item.type) {
+				case 'text':
+				case 'code':
+				case 'keyboard':
+					return item.content;
+				case 'link':
+					return this.getPlainText(item.text);
+				case 'math':
+					return item.latex;
+				case 'image':
+					return item.alt;
+				case 'footnoteRef':
+					return String(item.index);
+				default:
+					return this.getPlainText(item.content);
 			}
+		}).join('');
+	}
+
+	/**
+	 * Parses a blockquote token into a BlockquoteBlock, or a CalloutBlock for Obsidian callouts.
+	 */
+	private parseBlockquote(token: Tokens.Blockquote, line: number): BlockquoteBlock | CalloutBlock {
+		// Obsidian callout: the first line is [!type], [!type]+ or [!type]- with an optional title
+		const calloutMatch = /^\[!([\w-]+)\]([+-]?)[ \t]*(.*)(?:\n|$)/.exec(token.text);
+		if (calloutMatch) {
+			return this.parseCallout(calloutMatch, token.text.slice(calloutMatch[0].length), line + 1);
 		}
 
+		const blocks = this.tokensToBlocks(token.tokens, line);
+
 		return {
 			type: 'blockquote',
 			content: blocks
 		};
 	}
 
+	/**
+	 * Builds a CalloutBlock from a callout header match and the callout body.
+	 * The body is lexed again so it may hold any blocks, including nested callouts.
+	 *
+	 * @param header - Match of the header line: type, fold marker, title
+	 * @param body - Markdown below the header line
+	 * @param line - Source line of the body (1-based)
+	 */
+	private parseCallout(header: RegExpExecArray, body: string, line: number): CalloutBlock {
+		const [, calloutType, fold, title] = header;
+
+		const content = this.tokensToBlocks(markdownLexer.lexer(body), line);
+
+		// Like Obsidian, untitled callouts show their type as the title
+		const titleText = title.trim() || calloutType.charAt(0).toUpperCase() + calloutType.slice(1).toLowerCase();
+
+		const callout: CalloutBlock = {
+			type: 'callout',
+			calloutType: calloutType.toLowerCase(),
+			title: this.parseInlineContent(titleText),
+			content
+		};
+
+		if (fold) {
+			callout.collapsed = fold === '-';
+		}
+
+		return callout;
+	}
+
 	/**
 	 * Parses a horizontal rule token into a HorizontalRuleBlock.
 	 */
@@ -326,11 +1092,11 @@ export class MarkdownParser {
 	 * Requirement 3.12: Handle markdown image syntax
 	 */
 	private parseImage(token: Tokens.Image): ImageBlock {
-		return {
+		return this.setImageSource({
 			type: 'image',
 			alt: token.text || '',
 			url: token.href
-		};
+		});
 	}
 
 	/**
@@ -341,13 +1107,14 @@ export class MarkdownParser {
 	 * @returns Array of InlineContent objects
 	 */
 	parseInlineContent(text: string): InlineContent[] {
-		// First, handle Obsidian internal links if setting is enabled
-		if (this.settings.removeObsidianLinks) {
+		// First, flatten Obsidian internal links when exporting them as plain text.
+		// Other strategies are handled by the wikiLink tokenizer.
+		if (this.settings.wikiLinkStrategy === 'text') {
 			text = this.convertObsidianLinks(text);
 		}
 
 		// Parse inline tokens using marked
-		const tokens = marked.lexer(text, { breaks: false });
+		const tokens = markdownLexer.lexer(text);
 		
 		// If we have a single paragraph token, use its tokens
 		if (tokens.length === 1 && tokens[0].type === 'paragraph') {
@@ -357,6 +1124,11 @@ export class MarkdownParser {
 			}
 		}
 
+		// Text that is only $$...$$ (e.g., a list item) lexes as a math block
+		if (tokens.length === 1 && tokens[0].type === 'mathBlock') {
+			return [{ type: 'math', latex: (tokens[0] as Tokens.Generic).text }];
+		}
+
 		// Fallback: treat as plain text
 		return [{ type: 'text', content: text }];
 	}
@@ -367,7 +1139,12 @@ export class MarkdownParser {
 	 */
 	private convertObsidianLinks(text: string): string {
 		// Match [[link]] or [[link|display text]]
-		return text.replace(/\[\[([^\]|]+)(?:\|([^\]]+))?\]\]/g, (match, link, displayText) => {
+		return text.replace(/(!?)\[\[([^\]|]+)(?:\|([^\]]+))?\]\]/g, (match, embed, link, displayText) => {
+			// Links within the note stay links to their heading or block,
+			// and embedded images stay images
+			if (this.getInternalAnchor(link) || (embed && IMAGE_EMBED_REGEX.test(link.trim()))) {
+				return match;
+			}
 			// Use display text if available, otherwise use link target
 			return displayText || link;
 		});
@@ -432,14 +1209,14 @@ export class MarkdownParser {
 				return {
 					type: 'link',
 					text: linkToken.tokens ? this.parseInlineTokens(linkToken.tokens) : [{ type: 'text', content: linkToken.text }],
-					url: linkToken.href
+					// Fragment links point at headings and blocks of this document
+					url: linkToken.href.startsWith('#') ? `#${Anchors.fromSubpath(linkToken.href.slice(1))}` : linkToken.href
 				};
 			
 			case 'image':
-				// Images in inline context - we'll handle them as text for now
-				// Full image handling will be in a separate task
+				// Images within text; exporters apply the image handling setting
 				const imageToken = token as Tokens.Image;
-				return { type: 'text', content: imageToken.text || '' };
+				return this.setImageSource<ImageContent>({ type: 'image', alt: imageToken.text || '', url: imageToken.href });
 			
 			case 'br':
 				// Line break - represent as text with newline
@@ -449,6 +1226,24 @@ export class MarkdownParser {
 				const escapeToken = token as Tokens.Escape;
 				return { type: 'text', content: escapeToken.text };
 			
+			case 'footnoteRef':
+				return this.parseFootnoteReference(token as Tokens.Generic);
+			
+			case 'wikiLink':
+				return this.parseWikiLink(token as Tokens.Generic);
+			
+			case 'inlineMath':
+				return { type: 'math', latex: (token as Tokens.Generic).text };
+			
+			case 'highlight':
+				return {
+					type: 'highlight',
+					content: this.parseInlineTokens((token as Tokens.Generic).tokens || [])
+				};
+			
+			case 'htmlFormat':
+				return this.parseHtmlFormat(token as Tokens.Generic);
+			
 			default:
 				// For unknown types, try to extract text
 				if ('text' in token && typeof (token as { text?: string }).text === 'string') {
@@ -459,52 +1254,236 @@ export class MarkdownParser {
 	}
 
 	/**
-	 * Strips YAML frontmatter from the beginning of markdown content.
+	 * Parses an HTML formatting tag pair into the matching inline format.
+	 * <kbd> keeps only its text, like inline code.
+	 */
+	private parseHtmlFormat(token: Tokens.Generic): InlineContent {
+		const content = this.parseInlineTokens(token.tokens || []);
+
+		switch (token.tag) {
+			case 'mark':
+				return { type: 'highlight', content };
+			case 'sup':
+				return { type: 'superscript', content };
+			case 'sub':
+				return { type: 'subscript', content };
+			case 'kbd':
+				return { type: 'keyboard', content: token.text.replace(/<[^>]+>/g, '') };
+			default:
+				// <u> and <ins>
+				return { type: 'underline', content };
+		}
+	}
+
+	/**
+	 * Parses a footnote reference token into FootnoteReferenceContent.
+	 * References without a matching definition are kept as literal text.
+	 */
+	private parseFootnoteReference(token: Tokens.Generic): FootnoteReferenceContent | TextContent {
+		const id = token.id as string;
+		const key = this.getFootnoteKey(id);
+
+		if (!this.footnoteDefinitions.has(key)) {
+			return { type: 'text', content: token.raw };
+		}
+
+		// Number footnotes in order of first reference
+		if (!this.footnoteOrder.includes(key)) {
+			this.footnoteOrder.push(key);
+		}
+
+		return {
+			type: 'footnoteRef',
+			id: id,
+			index: this.footnoteOrder.indexOf(key) + 1
+		};
+	}
+
+	/**
+	 * Parses a wiki link token into LinkContent using the configured strategy.
+	 * Links to headings and blocks of the note they are written in ([[#Heading]],
+	 * [[#^id]]) always become '#anchor' links.
+	 * Falls back to plain text when no URL can be built (e.g., missing base URL).
+	 */
+	private parseWikiLink(token: Tokens.Generic): LinkContent | TextContent | ImageContent {
+		const target = token.target as string;
+		const image = this.parseImageEmbed(token);
+		if (image) {
+			return image;
+		}
+
+		const anchor = this.getInternalAnchor(target);
+
+		if (anchor) {
+			const link: LinkContent = {
+				type: 'link',
+				text: [{ type: 'text', content: (token.display as string | undefined) || target.replace(/^#/, '') }],
+				url: `#${anchor}`
+			};
+			// Links showing the heading text get its section number once headings are numbered
+			if (!token.display && !anchor.startsWith('^')) {
+				this.headingLinks.push({ link, anchor });
+			}
+			return link;
+		}
+
+		const displayText = (token.display as string | undefined) || target;
+		const url = this.resolveWikiLinkUrl(target);
+
+		if (!url) {
+			return { type: 'text', content: displayText };
+		}
+
+		return {
+			type: 'link',
+			text: [{ type: 'text', content: displayText }],
+			url: url
+		};
+	}
+
+	/**
+	 * Parses an embedded image (![[image.png]], ![[image.png|alt]]) into ImageContent.
+	 * A size such as |100 or |100x50 is not used as alt text.
+	 *
+	 * @param token - The wikiLink token
+	 * @returns The image, or null for links and embeds of other files
+	 */
+	private parseImageEmbed(token: Tokens.Generic): ImageContent | null {
+		const target = token.target as string;
+		if (!token.embed || !IMAGE_EMBED_REGEX.test(target)) {
+			return null;
+		}
+
+		const display = token.display as string | undefined;
+		const alt = display && !/^\d+(?:x\d+)?$/.test(display)
+			? display
+			: target.split('/').pop()!.replace(IMAGE_EMBED_REGEX, '');
+		return this.setImageSource<ImageContent>({ type: 'image', alt, url: target });
+	}
+
+	/**
+	 * Returns the anchor of a wiki link target inside the note being parsed
+	 * (the exported note or a transcluded one): [[#Heading]], [[#^block-id]],
+	 * or [[ThisNote#Heading]].
+	 *
+	 * @param target - Link target, optionally with #heading subpath
+	 * @returns The anchor, or null for links to other notes
+	 */
+	private getInternalAnchor(target: string): string | null {
+		const hashIndex = target.indexOf('#');
+		if (hashIndex < 0) {
+			return null;
+		}
+
+		const linkpath = target.slice(0, hashIndex).trim().replace(/\.md$/, '').toLowerCase();
+		const noteName = (this.getSourcePath() || '').split('/').pop()?.replace(/\.md$/, '').toLowerCase();
+		if (linkpath && linkpath !== noteName) {
+			return null;
+		}
+
+		return Anchors.fromSubpath(target.slice(hashIndex + 1)) || null;
+	}
+
+	/**
+	 * Builds the URL for a wiki link target according to settings.wikiLinkStrategy.
+	 *
+	 * @param target - Link target, optionally with #heading subpath
+	 * @returns The URL, or null if the strategy cannot produce one
+	 */
+	private resolveWikiLinkUrl(target: string): string | null {
+		const hashIndex = target.indexOf('#');
+		const linkpath = (hashIndex >= 0 ? target.slice(0, hashIndex) : target).trim();
+		const subpath = hashIndex >= 0 ? target.slice(hashIndex + 1).trim() : '';
+		const fragment = subpath ? this.getFragment(subpath) : '';
+		const encodedPath = linkpath.split('/').map(encodeURIComponent).join('/');
+
+		switch (this.settings.wikiLinkStrategy) {
+			case 'obsidian-uri':
+				if (!this.context.vaultName || !linkpath) {
+					return null;
+				}
+				return `obsidian://open?vault=${encodeURIComponent(this.context.vaultName)}&file=${encodeURIComponent(target)}`;
+			
+			case 'base-url':
+				const baseUrl = this.settings.wikiLinkBaseUrl.trim().replace(/\/+$/, '');
+				if (!baseUrl || !linkpath) {
+					return null;
+				}
+				return `${baseUrl}/${encodedPath}${fragment}`;
+			
+			case 'relative':
+				if (!this.context.exportExtension || !linkpath) {
+					return null;
+				}
+				// Exports are saved side by side, so link to the file name only
+				const basename = linkpath.split('/').pop() || linkpath;
+				return `./${encodeURIComponent(basename.replace(/\.md$/, ''))}.${this.context.exportExtension}${fragment}`;
+			
+			default:
+				return null;
+		}
+	}
+
+	/**
+	 * Builds the URL fragment for a heading or block in another note.
+	 * Sibling exports use the exporters' anchors (bookmark names in Word
+	 * documents); published sites keep the subpath as written.
+	 */
+	private getFragment(subpath: string): string {
+		if (this.settings.wikiLinkStrategy !== 'relative') {
+			return `#${encodeURIComponent(subpath)}`;
+		}
+		const anchor = Anchors.fromSubpath(subpath);
+		if (!anchor) {
+			return '';
+		}
+		return `#${encodeURIComponent(this.context.exportExtension === 'docx' ? Anchors.toBookmarkName(anchor) : anchor)}`;
+	}
+
+	/**
+	 * Extracts YAML frontmatter from the beginning of markdown content and
+	 * parses it into document metadata.
 	 * Frontmatter is enclosed between --- markers at the start of the document.
 	 *
 	 * @param content - The markdown content
-	 * @returns Content with frontmatter removed
+	 * @returns Content with frontmatter replaced by blank lines, keeping line numbers
 	 */
-	private stripFrontmatter(content: string): string {
+	private extractFrontmatter(content: string): string {
 		// Match YAML frontmatter at the start of the document
-		const frontmatterRegex = /^---\n[\s\S]*?\n---\n?/;
-		return content.replace(frontmatterRegex, '');
+		const frontmatterRegex = /^---\n([\s\S]*?)\n---\n?/;
+		return content.replace(frontmatterRegex, (match, yaml) => {
+			this.metadata = FrontmatterParser.parse(yaml);
+			return '\n'.repeat(this.countLineBreaks(match));
+		});
 	}
 
 	/**
-	 * Converts Obsidian callouts to formatted blockquotes.
-	 * Handles [!info], [!tip], [!warning], [!note], [!danger], [!example], etc.
+	 * Creates a two-column table listing all frontmatter properties.
 	 *
-	 * @param content - The markdown content
-	 * @returns Content with callouts converted to blockquotes with headers
-	 */
-	private convertObsidianCallouts(content: string): string {
-		// Match Obsidian callout syntax: > [!type] Title
-		// Captures the type and optional title, then the content
-		const calloutRegex = /^> \[!(\w+)\]\s*(.*)$/gm;
-
-		// Map callout types to emojis/labels
-		const calloutMap: Record<string, string> = {
-			'info': 'ℹ️ INFO',
-			'tip': '💡 TIP',
-			'warning': '⚠️ WARNING',
-			'danger': '🚨 DANGER',
-			'note': '📝 NOTE',
-			'example': '📋 EXAMPLE',
-			'question': '❓ QUESTION',
-			'success': '✅ SUCCESS',
-			'failure': '❌ FAILURE',
-			'bug': '🐛 BUG',
-			'quote': '💬 QUOTE',
-			'abstract': '📄 ABSTRACT',
-			'todo': '☑️ TODO'
-		};
+	 * @param metadata - The parsed document metadata
+	 * @returns TableBlock, or null if there are no properties
+	 */
+	private createPropertiesTable(metadata: DocumentMetadata): TableBlock | null {
+		const entries = Object.entries(metadata.properties);
+		if (entries.length === 0) {
+			return null;
+		}
 
-		return content.replace(calloutRegex, (match, type, title) => {
-			const label = calloutMap[type.toLowerCase()] || `📌 ${type.toUpperCase()}`;
-			const headerText = title ? `**${label}: ${title}**` : `**${label}**`;
-			return `> ${headerText}`;
-		});
+		const headers: InlineContent[][] = [
+			[{ type: 'text', content: 'Property' }],
+			[{ type: 'text', content: 'Value' }]
+		];
+		const rows: InlineContent[][][] = entries.map(([key, value]) => [
+			[{ type: 'text', content: key }],
+			this.parseInlineContent(Array.isArray(value) ? value.join(', ') : value)
+		]);
+
+		return {
+			type: 'table',
+			headers,
+			rows,
+			columnWidths: this.getColumnWidths([headers, ...rows])
+		};
 	}
 
 	/**
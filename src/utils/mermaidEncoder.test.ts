@@ -1,4 +1,16 @@
+import * as pako from 'pako';
 import { MermaidEncoder } from './mermaidEncoder';
+import { DEFAULT_SETTINGS } from '../settings';
+import { MermaidBlock } from '../types';
+
+/**
+ * Decodes the pako payload of a Mermaid link.
+ */
+function decodePayload(url: string): { code: string; mermaid: { theme: string } } {
+  const base64 = url.split('pako:')[1].replace(/-/g, '+').replace(/_/g, '/');
+  const bytes = Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+  return JSON.parse(new TextDecoder().decode(pako.inflate(bytes)));
+}
 
 describe('MermaidEncoder', () => {
   describe('encode', () => {
@@ -47,6 +59,94 @@ describe('MermaidEncoder', () => {
 
       expect(result).toContain('https://mermaid.live/edit#pako:');
     });
+
+    it('should store the theme in the payload', () => {
+      const result = MermaidEncoder.encode('graph TD', 'forest');
+
+      expect(decodePayload(result)).toEqual({ code: 'graph TD', mermaid: { theme: 'forest' } });
+    });
+
+    it('should link to a self-hosted editor and its view-only page', () => {
+      const options = { baseUrl: 'https://mermaid.example.com/', mode: 'view' as const };
+      const result = MermaidEncoder.encode('graph TD', 'default', options);
+
+      expect(result).toMatch(/^https:\/\/mermaid\.example\.com\/view#pako:/);
+      expect(decodePayload(result).code).toBe('graph TD');
+    });
+
+    it('should put the payload in the path of image links without path separators', () => {
+      const code = 'graph TD\n' + Array.from({ length: 40 }, (_, i) => `  N${i}[日本語 ${i}] --> N${i + 1}`).join('\n');
+      const png = MermaidEncoder.encode(code, 'dark', { mode: 'img' });
+      const svg = MermaidEncoder.encode(code, 'dark', { baseUrl: 'https://mermaid.example.com', mode: 'svg' });
+
+      expect(png).toMatch(/^https:\/\/mermaid\.ink\/img\/pako:[A-Za-z0-9_=-]+$/);
+      expect(svg.startsWith('https://mermaid.ink/svg/pako:')).toBe(true);
+      expect(decodePayload(png)).toEqual({ code, mermaid: { theme: 'dark' } });
+    });
+
+    it('should link images to the image service rather than the editor', () => {
+      const options = { baseUrl: 'https://mermaid.example.com', imageBaseUrl: 'https://ink.example.com/', mode: 'img' as const };
+
+      expect(MermaidEncoder.encode('graph TD', 'default', options)).toMatch(/^https:\/\/ink\.example\.com\/img\/pako:/);
+    });
+
+    it('should fall back to the default editor for an empty base URL', () => {
+      expect(MermaidEncoder.encode('graph TD', 'default', { baseUrl: ' ' })).toContain('https://mermaid.live/edit#pako:');
+    });
+  });
+
+  describe('decode', () => {
+    it('should decode the links it encodes in every link style', () => {
+      const code = 'graph TD\n  A["日本語"] --> B';
+
+      expect(MermaidEncoder.decode(MermaidEncoder.encode(code, 'dark'))).toEqual({ code, theme: 'dark' });
+      expect(MermaidEncoder.decode(MermaidEncoder.encode(code, 'default', { mode: 'svg', baseUrl: 'https://mermaid.ink' }))?.code).toBe(code);
+    });
+
+    it('should read the Mermaid config stored as a JSON string by Mermaid Live', () => {
+      const state = { code: 'pie', mermaid: '{\n  "theme": "forest"\n}', autoSync: true };
+      const payload = Buffer.from(pako.deflate(new TextEncoder().encode(JSON.stringify(state)))).toString('base64url');
+
+      expect(MermaidEncoder.decode(`https://mermaid.live/view#pako:${payload}`)).toEqual({ code: 'pie', theme: 'forest' });
+    });
+
+    it('should accept base64: payloads holding the state or the bare code', () => {
+      const state = Buffer.from(JSON.stringify({ code: 'graph LR', mermaid: { theme: 'neutral' } })).toString('base64');
+      const bare = Buffer.from('sequenceDiagram\n  A->>B: Hi').toString('base64');
+
+      expect(MermaidEncoder.decode(`https://mermaid.live/edit#base64:${state}`)).toEqual({ code: 'graph LR', theme: 'neutral' });
+      expect(MermaidEncoder.decode(`https://mermaid.ink/img/base64:${bare}`)).toEqual({ code: 'sequenceDiagram\n  A->>B: Hi' });
+    });
+
+    it('should return null for links without a diagram', () => {
+      expect(MermaidEncoder.decode('https://mermaid.live/edit')).toBeNull();
+      expect(MermaidEncoder.decode('https://mermaid.live/edit#pako:not-deflated')).toBeNull();
+    });
+  });
+
+  describe('formatLinkText', () => {
+    const block: MermaidBlock = { type: 'mermaid', diagramType: 'Pie Chart', code: 'pie', url: '', index: 2, title: 'Pets' };
+
+    it('should append the diagram type to plain link text when enabled', () => {
+      expect(MermaidEncoder.formatLinkText(block, { ...DEFAULT_SETTINGS, mermaidLinkText: 'View' })).toBe('View (Pie Chart)');
+      expect(MermaidEncoder.formatLinkText(block, { ...DEFAULT_SETTINGS, mermaidLinkText: 'View', includeMermaidType: false })).toBe('View');
+    });
+
+    it('should fill in the type, index and title placeholders', () => {
+      const settings = { ...DEFAULT_SETTINGS, mermaidLinkText: 'Figure {index}: {title} ({type})' };
+
+      expect(MermaidEncoder.formatLinkText(block, settings)).toBe('Figure 2: Pets (Pie Chart)');
+      expect(MermaidEncoder.formatLinkText({ ...block, title: undefined }, settings)).toBe('Figure 2: Pie Chart (Pie Chart)');
+    });
+  });
+
+  describe('getDiagramTitle', () => {
+    it('should read the frontmatter title, title statement or accessible title', () => {
+      expect(MermaidEncoder.getDiagramTitle('---\ntitle: "Checkout flow"\n---\nflowchart LR')).toBe('Checkout flow');
+      expect(MermaidEncoder.getDiagramTitle('pie\n    title Pets adopted\n    "Dogs" : 386')).toBe('Pets adopted');
+      expect(MermaidEncoder.getDiagramTitle('graph TD\n  accTitle: Login\n  A --> B')).toBe('Login');
+      expect(MermaidEncoder.getDiagramTitle('graph TD\n  A --> B')).toBeUndefined();
+    });
   });
 
   describe('getDiagramType', () => {
@@ -122,6 +222,17 @@ describe('MermaidEncoder', () => {
       const code = '  \n  flowchart TD\n  A --> B';
       expect(MermaidEncoder.getDiagramType(code)).toBe('flowchart');
     });
+    it('should skip init directives, comments and frontmatter before the type', () => {
+      expect(MermaidEncoder.getDiagramType('%%{init: {"theme": "dark"}}%%\nsequenceDiagram\n  A->>B: Hi')).toBe('sequenceDiagram');
+      expect(MermaidEncoder.getDiagramType('%% Checkout\n\n%% v2\nflowchart LR\n  A --> B')).toBe('flowchart');
+      expect(MermaidEncoder.getDiagramType('---\ntitle: Orders\nconfig:\n  theme: forest\n---\nerDiagram\n  A ||--o{ B : has')).toBe('erDiagram');
+      expect(MermaidEncoder.getDiagramType('%%{\n  init: {"theme": "base"}\n}%%\ngantt')).toBe('gantt');
+    });
+
+    it('should extract beta and C4 types', () => {
+      expect(MermaidEncoder.getDiagramType('architecture-beta\n  group api(cloud)[API]')).toBe('architecture-beta');
+      expect(MermaidEncoder.getDiagramType('C4Context\n  title System')).toBe('C4Context');
+    });
   });
 
   describe('formatDiagramType', () => {
@@ -196,6 +307,13 @@ describe('MermaidEncoder', () => {
     it('should return "Diagram" for empty string', () => {
       expect(MermaidEncoder.formatDiagramType('')).toBe('Diagram');
     });
+    it('should format newer diagram types', () => {
+      expect(MermaidEncoder.formatDiagramType('architecture-beta')).toBe('Architecture Diagram');
+      expect(MermaidEncoder.formatDiagramType('xychart-beta')).toBe('XY Chart');
+      expect(MermaidEncoder.formatDiagramType('C4Container')).toBe('C4 Container Diagram');
+      expect(MermaidEncoder.formatDiagramType('kanban')).toBe('Kanban Board');
+      expect(MermaidEncoder.formatDiagramType('sankey-beta')).toBe('Sankey Diagram');
+    });
   });
 
   describe('uint8ArrayToBase64', () => {
@@ -1,4 +1,37 @@
 import * as pako from 'pako';
+import { MermaidBlock, MermaidLinkMode, PluginSettings } from '../types';
+
+/**
+ * Base URL of the public Mermaid Live editor.
+ */
+export const MERMAID_LIVE_URL = 'https://mermaid.live';
+
+/**
+ * Base URL of the public Mermaid image service, which serves rendered diagrams.
+ */
+export const MERMAID_INK_URL = 'https://mermaid.ink';
+
+/**
+ * Diagram stored in a Mermaid Live link.
+ */
+export interface MermaidDiagramState {
+  /** Mermaid diagram code */
+  code: string;
+  /** Mermaid theme, if the link names one */
+  theme?: string;
+}
+
+/**
+ * Where Mermaid links point: the editor to use and the link style.
+ */
+export interface MermaidUrlOptions {
+  /** Editor base URL, e.g. a self-hosted Mermaid Live (default: https://mermaid.live) */
+  baseUrl?: string;
+  /** Link style (default: 'edit') */
+  mode?: MermaidLinkMode;
+  /** Image service base URL for img and svg links (default: https://mermaid.ink) */
+  imageBaseUrl?: string;
+}
 
 /**
  * MermaidEncoder handles encoding Mermaid diagram code into Mermaid Live URLs.
@@ -10,13 +43,21 @@ export class MermaidEncoder {
    * Creates JSON payload, UTF-8 encodes, compresses with pako, converts to base64,
    * and generates the final Mermaid Live URL.
    * 
+   * Edit and view links carry the payload in the fragment (/edit#pako:...);
+   * image links carry it in the path (/img/pako:...), base64url-encoded, and
+   * point to the image service instead of the editor.
+   * 
    * Requirements: 7.2, 7.3
    * 
    * @param code - The Mermaid diagram code to encode
    * @param theme - Optional theme parameter (default: 'default')
+   * @param options - Editor and image service base URLs and link style
    * @returns The complete Mermaid Live URL with encoded diagram
    */
-  static encode(code: string, theme: string = 'default'): string {
+  static encode(code: string, theme: string = 'default', options: MermaidUrlOptions = {}): string {
+    const baseUrl = (options.baseUrl || '').trim().replace(/\/+$/, '') || MERMAID_LIVE_URL;
+    const mode = options.mode || 'edit';
+
     try {
       // Requirement 7.2: Handle malformed Mermaid syntax (encode as-is)
       // Requirement 7.3: Handle special characters and Unicode (preserve correctly)
@@ -40,16 +81,155 @@ export class MermaidEncoder {
       const base64 = this.uint8ArrayToBase64(compressed);
 
       // Generate Mermaid Live URL
-      return `https://mermaid.live/edit#pako:${base64}`;
+      if (mode === 'img' || mode === 'svg') {
+        // The payload is a path segment, so it must not contain '/' or '+'
+        const base64Url = base64.replace(/\+/g, '-').replace(/\//g, '_');
+        const imageBaseUrl = (options.imageBaseUrl || '').trim().replace(/\/+$/, '') || MERMAID_INK_URL;
+        return `${imageBaseUrl}/${mode}/pako:${base64Url}`;
+      }
+      return `${baseUrl}/${mode}#pako:${base64}`;
       
     } catch {
       // If encoding fails, return a fallback URL
-      return 'https://mermaid.live/edit';
+      return `${baseUrl}/edit`;
+    }
+  }
+
+  /**
+   * Creates the MermaidBlock of a diagram, linked with the editor, link
+   * style and theme of the settings.
+   * 
+   * @param code - The Mermaid diagram code
+   * @param settings - Plugin settings with the Mermaid link options
+   * @param index - 1-based number of the diagram in the document
+   * @returns The MermaidBlock
+   */
+  static createBlock(code: string, settings: PluginSettings, index: number): MermaidBlock {
+    const block: MermaidBlock = {
+      type: 'mermaid',
+      diagramType: this.formatDiagramType(this.getDiagramType(code)),
+      code: code.trim(),
+      url: this.encode(code, settings.mermaidTheme, {
+        baseUrl: settings.mermaidBaseUrl,
+        imageBaseUrl: settings.mermaidImageBaseUrl,
+        mode: settings.mermaidLinkMode
+      }),
+      index: index
+    };
+    const title = this.getDiagramTitle(code);
+    if (title) {
+      block.title = title;
+    }
+    return block;
+  }
+
+  /**
+   * Decodes a Mermaid Live link back into the diagram it holds.
+   * Accepts edit, view and image links of any editor, with a deflated
+   * (pako:) or plain (base64:) payload in base64 or base64url.
+   * 
+   * @param url - The Mermaid Live link
+   * @returns The diagram code and theme, or null if the link holds no diagram
+   */
+  static decode(url: string): MermaidDiagramState | null {
+    const match = url.match(/(?:#|\/)(pako|base64):([A-Za-z0-9+/_=%-]+)/);
+    if (!match) {
+      return null;
+    }
+
+    try {
+      const base64 = decodeURIComponent(match[2]).replace(/=+$/, '').replace(/-/g, '+').replace(/_/g, '/');
+      const padded = base64 + '='.repeat((4 - base64.length % 4) % 4);
+      const bytes = Uint8Array.from(atob(padded), char => char.charCodeAt(0));
+      const text = new TextDecoder().decode(match[1] === 'pako' ? pako.inflate(bytes) : bytes);
+      return this.parseDiagramState(text);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Reads the diagram from a decoded payload: the editor state as JSON,
+   * or the bare diagram code (image links).
+   */
+  private static parseDiagramState(text: string): MermaidDiagramState | null {
+    let state: unknown;
+    try {
+      state = JSON.parse(text);
+    } catch {
+      return text.trim() ? { code: text } : null;
+    }
+
+    if (!state || typeof state !== 'object' || typeof (state as { code?: unknown }).code !== 'string') {
+      return null;
+    }
+
+    // Mermaid Live stores the Mermaid config as a JSON string
+    let config = (state as { mermaid?: unknown }).mermaid;
+    if (typeof config === 'string') {
+      try {
+        config = JSON.parse(config);
+      } catch {
+        config = undefined;
+      }
     }
+    const theme = config && typeof config === 'object' ? (config as { theme?: unknown }).theme : undefined;
+
+    const diagram: MermaidDiagramState = { code: (state as { code: string }).code };
+    if (typeof theme === 'string') {
+      diagram.theme = theme;
+    }
+    return diagram;
   }
 
   /**
-   * Extracts the diagram type from the first line of Mermaid code.
+   * Builds the text of a Mermaid link from settings.mermaidLinkText.
+   * The text may contain {type}, {index} and {title} placeholders; without
+   * placeholders the diagram type is appended if settings.includeMermaidType is on.
+   * 
+   * @param block - The Mermaid block
+   * @param settings - Plugin settings with the link text
+   * @returns Link text such as '📊 View Diagram (Flowchart)'
+   */
+  static formatLinkText(block: MermaidBlock, settings: PluginSettings): string {
+    const template = settings.mermaidLinkText;
+    if (/\{(type|index|title)\}/.test(template)) {
+      const values: Record<string, string> = {
+        type: block.diagramType,
+        index: String(block.index ?? ''),
+        // Untitled diagrams are named by their type
+        title: block.title || block.diagramType
+      };
+      return template.replace(/\{(type|index|title)\}/g, (_match, name: string) => values[name]);
+    }
+
+    if (settings.includeMermaidType && block.diagramType) {
+      return `${template} (${block.diagramType})`;
+    }
+    return template;
+  }
+
+  /**
+   * Extracts the title of a diagram: the title of its frontmatter, a
+   * `title` statement (pie, gantt, ...) or its accessible title (accTitle).
+   * 
+   * @param code - The Mermaid diagram code
+   * @returns The title, or undefined if the diagram has none
+   */
+  static getDiagramTitle(code: string): string | undefined {
+    const frontmatter = code.match(/^\s*---\r?\n([\s\S]*?)\r?\n\s*---/);
+    const frontmatterTitle = frontmatter?.[1].match(/^\s*title:\s*(.+)$/m);
+    const statement = code.match(/^\s*title\s+(.+)$/m);
+    const accTitle = code.match(/^\s*accTitle\s*:\s*(.+)$/m);
+
+    const title = (frontmatterTitle || statement || accTitle)?.[1].trim().replace(/^(["'])(.*)\1$/, '$2');
+    return title || undefined;
+  }
+
+  /**
+   * Extracts the diagram type from the first statement of Mermaid code.
+   * Skips the preamble: a frontmatter config block (---), init directives
+   * (%%{init: ...}%%) and %% comments.
    * 
    * Requirements: 7.2, 7.3
    * 
@@ -63,8 +243,8 @@ export class MermaidEncoder {
         return 'diagram';
       }
 
-      // Get the first line of the code
-      const firstLine = code.trim().split('\n')[0].trim();
+      // Get the first line after the preamble
+      const firstLine = this.stripPreamble(code).split('\n')[0].trim();
 
       // Extract the diagram type (first word, including hyphens)
       const match = firstLine.match(/^([\w-]+)/);
@@ -92,9 +272,11 @@ export class MermaidEncoder {
     const typeMap: Record<string, string> = {
       'flowchart': 'Flowchart',
       'flowchart-v2': 'Flowchart',
+      'flowchart-elk': 'Flowchart',
       'graph': 'Flowchart',
       'sequenceDiagram': 'Sequence Diagram',
       'classDiagram': 'Class Diagram',
+      'classDiagram-v2': 'Class Diagram',
       'stateDiagram': 'State Diagram',
       'stateDiagram-v2': 'State Diagram',
       'erDiagram': 'ER Diagram',
@@ -104,17 +286,60 @@ export class MermaidEncoder {
       'quadrantChart': 'Quadrant Chart',
       'requirementDiagram': 'Requirement Diagram',
       'gitGraph': 'Git Graph',
+      'C4Context': 'C4 Context Diagram',
+      'C4Container': 'C4 Container Diagram',
+      'C4Component': 'C4 Component Diagram',
+      'C4Dynamic': 'C4 Dynamic Diagram',
+      'C4Deployment': 'C4 Deployment Diagram',
       'mindmap': 'Mindmap',
       'timeline': 'Timeline',
       'zenuml': 'ZenUML',
       'sankey': 'Sankey Diagram',
+      'sankey-beta': 'Sankey Diagram',
+      'xychart': 'XY Chart',
+      'xychart-beta': 'XY Chart',
       'block': 'Block Diagram',
-      'packet': 'Packet Diagram'
+      'block-beta': 'Block Diagram',
+      'packet': 'Packet Diagram',
+      'packet-beta': 'Packet Diagram',
+      'kanban': 'Kanban Board',
+      'architecture': 'Architecture Diagram',
+      'architecture-beta': 'Architecture Diagram',
+      'radar': 'Radar Chart',
+      'radar-beta': 'Radar Chart',
+      'treemap': 'Treemap',
+      'treemap-beta': 'Treemap'
     };
 
     return typeMap[diagramType] || 'Diagram';
   }
 
+  /**
+   * Removes what precedes the diagram type: blank lines, a frontmatter
+   * config block, init directives and comments.
+   * 
+   * @param code - The Mermaid diagram code
+   * @returns The code starting at the diagram type
+   */
+  private static stripPreamble(code: string): string {
+    let rest = code.replace(/\r\n?/g, '\n').replace(/^\s+/, '');
+
+    // Frontmatter config block (title, config) must come first
+    rest = rest.replace(/^---[ \t]*\n[\s\S]*?\n[ \t]*---[ \t]*(?:\n|$)/, '');
+
+    // Directives (%%{...}%%, possibly spanning lines), comments and blank lines
+    let previous: string;
+    do {
+      previous = rest;
+      rest = rest
+        .replace(/^\s+/, '')
+        .replace(/^%%\{[\s\S]*?\}%%[^\n]*(?:\n|$)/, '')
+        .replace(/^%%[^\n]*(?:\n|$)/, '');
+    } while (rest !== previous);
+
+    return rest;
+  }
+
   /**
    * Converts a Uint8Array to a base64 string.
    * 
@@ -0,0 +1,113 @@
+import { MermaidLinks } from './mermaidLinks';
+import { MermaidEncoder } from './mermaidEncoder';
+import { DEFAULT_SETTINGS } from '../settings';
+
+describe('MermaidLinks', () => {
+  const flowchart = 'graph TD\n  A --> B';
+  const url = MermaidEncoder.encode(flowchart);
+
+  describe('toCodeBlocks', () => {
+    it('should replace a markdown link on its own line with a mermaid block', () => {
+      const result = MermaidLinks.toCodeBlocks(`Intro\n\n[📊 View Diagram (Flowchart)](${url})\n\nOutro`);
+
+      expect(result).toEqual({
+        content: 'Intro\n\n```mermaid\ngraph TD\n  A --> B\n```\n\nOutro',
+        count: 1,
+        skipped: 0,
+        replacements: [{ startLine: 2, endLine: 2, text: '```mermaid\ngraph TD\n  A --> B\n```' }]
+      });
+    });
+
+    it('should list one replacement per converted line', () => {
+      const result = MermaidLinks.toCodeBlocks(`[A](${url})\nText\n| a |\n| - |\n| ${url} |\nSee ${url}`);
+
+      expect(result.replacements.map(({ startLine, endLine }) => [startLine, endLine])).toEqual([[0, 0], [5, 5]]);
+      expect(result.replacements[1].text).toBe('See\n```mermaid\ngraph TD\n  A --> B\n```');
+    });
+
+    it('should put text around bare and angle-bracket links on lines of their own', () => {
+      const result = MermaidLinks.toCodeBlocks(`See ${url} and <${url}> here`);
+
+      expect(result.content).toBe('See\n```mermaid\ngraph TD\n  A --> B\n```\nand\n```mermaid\ngraph TD\n  A --> B\n```\nhere');
+      expect(result.count).toBe(2);
+    });
+
+    it('should keep list indentation and quote markers', () => {
+      const result = MermaidLinks.toCodeBlocks(`- [Diagram](${url})\n> [!note]\n> [Diagram](${url})`);
+
+      expect(result.content).toBe(
+        '- ```mermaid\n  graph TD\n    A --> B\n  ```\n' +
+        '> [!note]\n> ```mermaid\n> graph TD\n>   A --> B\n> ```'
+      );
+    });
+
+    it('should use a longer fence for code containing backticks', () => {
+      const result = MermaidLinks.toCodeBlocks(`[Diagram](${MermaidEncoder.encode('graph TD\n  A["```"]')})`);
+
+      expect(result.content).toBe('````mermaid\ngraph TD\n  A["```"]\n````');
+    });
+
+    it('should leave links in table rows unchanged and count them as skipped', () => {
+      const markdown = `| a | b |\n| --- | --- |\n| a | [d](${url}) |\n\n[Diagram](${url})`;
+      const table = `> a | b\n> :-- | --\n> x | ${url}`;
+
+      expect(MermaidLinks.toCodeBlocks(markdown)).toEqual({
+        content: markdown.replace(`[Diagram](${url})`, '```mermaid\ngraph TD\n  A --> B\n```'),
+        count: 1,
+        skipped: 1,
+        replacements: [{ startLine: 4, endLine: 4, text: '```mermaid\ngraph TD\n  A --> B\n```' }]
+      });
+      expect(MermaidLinks.toCodeBlocks(table)).toEqual({ content: table, count: 0, skipped: 1, replacements: [] });
+    });
+
+    it('should leave links in code blocks and links without a diagram unchanged', () => {
+      const markdown = `\`\`\`\n${url}\n\`\`\`\n\n[Editor](https://mermaid.live/edit) and https://mermaid.live/edit#pako:broken`;
+
+      expect(MermaidLinks.toCodeBlocks(markdown)).toEqual({ content: markdown, count: 0, skipped: 0, replacements: [] });
+    });
+  });
+
+  describe('toLinks', () => {
+    const settings = { ...DEFAULT_SETTINGS, mermaidLinkText: 'Diagram {index}', includeMermaidType: false };
+    const link = `[Diagram 1](${MermaidEncoder.encode(flowchart, settings.mermaidTheme)})`;
+
+    it('should replace each mermaid block with a link', () => {
+      const replacements = MermaidLinks.toLinks(`Intro\n\n\`\`\`mermaid\n${flowchart}\n\`\`\`\n\n~~~ Mermaid\npie\n~~~`, settings, false);
+
+      expect(replacements).toEqual([
+        { startLine: 2, endLine: 5, text: link },
+        { startLine: 7, endLine: 9, text: `[Diagram 2](${MermaidEncoder.encode('pie', settings.mermaidTheme)})` }
+      ]);
+    });
+
+    it('should keep the source in a collapsed callout and not convert it again', () => {
+      const [replacement] = MermaidLinks.toLinks(`\`\`\`mermaid\n${flowchart}\n\`\`\``, settings, true);
+
+      expect(replacement.text).toBe(`${link}\n> [!info]- Mermaid source\n> \`\`\`mermaid\n> graph TD\n>   A --> B\n> \`\`\``);
+      expect(MermaidLinks.toLinks(replacement.text, settings, true)).toEqual([]);
+    });
+
+    it('should keep list indentation and quote markers', () => {
+      const markdown = `- Step\n  \`\`\`mermaid\n  ${flowchart.replace('\n', '\n  ')}\n  \`\`\`\n> \`\`\`mermaid\n> ${flowchart.replace('\n', '\n> ')}\n> \`\`\``;
+      const replacements = MermaidLinks.toLinks(markdown, settings, true);
+
+      expect(replacements.map(replacement => replacement.text.split('\n')[0])).toEqual([`  ${link}`, `> ${link.replace('Diagram 1', 'Diagram 2')}`]);
+      expect(replacements[0].text).toContain('\n  > [!info]- Mermaid source\n  > ```mermaid\n  > graph TD\n');
+      expect(replacements[1]).toMatchObject({ startLine: 5, endLine: 8 });
+    });
+
+    it('should keep every line of a block that is never closed', () => {
+      const replacements = MermaidLinks.toLinks('text\n```mermaid\ngraph TD\nA-->B', settings, false);
+
+      expect(replacements).toEqual([
+        { startLine: 1, endLine: 3, text: `[Diagram 1](${MermaidEncoder.encode('graph TD\nA-->B', settings.mermaidTheme)})` }
+      ]);
+    });
+
+    it('should leave mermaid examples inside other code blocks alone', () => {
+      const markdown = `\`\`\`\`markdown\n\`\`\`mermaid\n${flowchart}\n\`\`\`\n\`\`\`\``;
+
+      expect(MermaidLinks.toLinks(markdown, settings, false)).toEqual([]);
+    });
+  });
+});
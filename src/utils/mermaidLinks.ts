@@ -0,0 +1,265 @@
+import { PluginSettings } from '../types';
+import { MermaidEncoder } from './mermaidEncoder';
+
+/**
+ * Mermaid Live link of any editor: edit and view links carry the diagram
+ * after '#', image links in the path.
+ */
+const MERMAID_URL = String.raw`https?:\/\/[^\s()<>\[\]"]*?(?:#|\/)(?:pako|base64):[A-Za-z0-9+/_=%-]+`;
+
+/**
+ * A Mermaid link as a markdown link ([text](url "title")), an autolink (<url>) or a bare URL.
+ */
+const MERMAID_LINK_REGEX = new RegExp(
+	String.raw`\[[^\]\n]*\]\(\s*<?(${MERMAID_URL})>?(?:\s+"[^"\n]*")?\s*\)|<(${MERMAID_URL})>|(${MERMAID_URL})`
+);
+
+/**
+ * Title of the collapsed callout that keeps the source of a converted diagram.
+ */
+const SOURCE_CALLOUT = '> [!info]- Mermaid source';
+
+/**
+ * Replacement of a range of lines (a Mermaid block, or a line holding Mermaid
+ * links), as an editor change.
+ */
+export interface MermaidBlockReplacement {
+	/** First line of the block (0-based) */
+	startLine: number;
+	/** Last line of the block (0-based, inclusive) */
+	endLine: number;
+	/** Markdown replacing the lines */
+	text: string;
+}
+
+/**
+ * Result of rewriting the Mermaid links of a note.
+ */
+export interface MermaidLinkConversion {
+	/** The rewritten markdown */
+	content: string;
+	/** Number of links replaced */
+	count: number;
+	/** Number of links kept because a code block cannot go there (table rows) */
+	skipped: number;
+	/** The rewritten lines, as editor changes in document order */
+	replacements: MermaidBlockReplacement[];
+}
+
+/**
+ * MermaidLinks rewrites notes between Mermaid diagrams and Mermaid Live links:
+ * links (e.g., pasted back from a Google Doc) become ```mermaid code blocks,
+ * and code blocks become links (e.g., before pasting a note into a ticket).
+ */
+export class MermaidLinks {
+	/**
+	 * Replaces every Mermaid Live link with a fenced mermaid block holding its
+	 * diagram. Text around a link stays on lines of its own; links in list
+	 * items and blockquotes keep their indentation and quote markers.
+	 * Links inside fenced code blocks and links that do not decode are kept,
+	 * and so are links in table rows, which a code block would split.
+	 *
+	 * @param markdown - The markdown content (a note or a selection)
+	 * @returns The rewritten markdown and lines, the number of links replaced and the number skipped
+	 */
+	static toCodeBlocks(markdown: string): MermaidLinkConversion {
+		const lines = markdown.split('\n');
+		const output: string[] = [];
+		const replacements: MermaidBlockReplacement[] = [];
+		let fence: string | null = null;
+		let inTable = false;
+		let count = 0;
+		let skipped = 0;
+
+		for (let i = 0; i < lines.length; i++) {
+			const line = lines[i];
+			const fenceMatch = line.match(/^[ \t]*(?:>[ \t]?)*(`{3,}|~{3,})/);
+			if (fenceMatch) {
+				if (fence === null) {
+					fence = fenceMatch[1];
+				} else if (fenceMatch[1].startsWith(fence)) {
+					fence = null;
+				}
+			}
+			if (fence !== null || fenceMatch) {
+				inTable = false;
+				output.push(line);
+				continue;
+			}
+
+			// A table starts at a row followed by a delimiter row and runs until a line without cells
+			const text = this.stripQuote(line);
+			inTable = text.includes('|') && (inTable || (i + 1 < lines.length && this.isDelimiterRow(this.stripQuote(lines[i + 1]))));
+
+			const converted = this.convertLine(line);
+			if (inTable) {
+				skipped += converted.count;
+				output.push(line);
+			} else {
+				count += converted.count;
+				output.push(converted.content);
+				if (converted.count > 0) {
+					replacements.push({ startLine: i, endLine: i, text: converted.content });
+				}
+			}
+		}
+
+		return { content: output.join('\n'), count, skipped, replacements };
+	}
+
+	/**
+	 * Removes the indentation and quote markers before the text of a line.
+	 */
+	private static stripQuote(line: string): string {
+		return line.replace(/^[ \t]*(?:>[ \t]?)*/, '');
+	}
+
+	/**
+	 * Checks whether a line is the delimiter row of a table (e.g., | --- | :-: |).
+	 */
+	private static isDelimiterRow(text: string): boolean {
+		return text.includes('|') && /^\|?[ \t]*:?-+:?[ \t]*(?:\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/.test(text);
+	}
+
+	/**
+	 * Replaces the Mermaid links of one line.
+	 */
+	private static convertLine(line: string): Pick<MermaidLinkConversion, 'content' | 'count'> {
+		// Quote markers and list marker before the text
+		const lead = line.match(/^([ \t]*(?:>[ \t]?)*)((?:[-*+]|\d+[.)])[ \t]+)?/)!;
+		const quote = lead[1];
+		const marker = lead[2] || '';
+		const body = line.slice(lead[0].length);
+
+		// Split the text into text parts and diagrams
+		const parts: (string | { code: string })[] = [];
+		let count = 0;
+		let last = 0;
+		const linkRegex = new RegExp(MERMAID_LINK_REGEX.source, 'g');
+		let match: RegExpExecArray | null;
+		while ((match = linkRegex.exec(body)) !== null) {
+			const diagram = MermaidEncoder.decode(match[1] || match[2] || match[3]);
+			if (!diagram) {
+				continue;
+			}
+			parts.push(body.slice(last, match.index), { code: diagram.code });
+			last = match.index + match[0].length;
+			count++;
+		}
+		if (count === 0) {
+			return { content: line, count: 0 };
+		}
+		parts.push(body.slice(last));
+
+		// The first line keeps the list marker; later lines are indented under it
+		const continuation = quote + ' '.repeat(marker.length);
+		const lines: string[] = [];
+		const addLine = (text: string) => {
+			lines.push(`${lines.length === 0 ? quote + marker : continuation}${text}`.replace(/[ \t]+$/, ''));
+		};
+
+		for (const part of parts) {
+			if (typeof part === 'string') {
+				if (part.trim()) {
+					addLine(part.trim());
+				}
+				continue;
+			}
+			// A fence longer than any backtick run in the code
+			const longestRun = Math.max(0, ...(part.code.match(/`+/g) || []).map(run => run.length));
+			const fence = '`'.repeat(Math.max(3, longestRun + 1));
+			addLine(`${fence}mermaid`);
+			for (const codeLine of part.code.replace(/\s+$/, '').split('\n')) {
+				addLine(codeLine);
+			}
+			addLine(fence);
+		}
+
+		return { content: lines.join('\n'), count };
+	}
+
+	/**
+	 * Lists the replacements that turn every ```mermaid block of a note into a
+	 * markdown link to Mermaid Live, built from the link settings. With
+	 * keepSource, the code stays below the link in a collapsed callout;
+	 * blocks already kept in such a callout are not converted again.
+	 * Mermaid examples inside other code blocks are left alone.
+	 *
+	 * @param markdown - The markdown content of the note
+	 * @param settings - Plugin settings with the Mermaid link options
+	 * @param keepSource - Whether to keep the code in a collapsed callout
+	 * @returns The replacements in document order
+	 */
+	static toLinks(markdown: string, settings: PluginSettings, keepSource: boolean): MermaidBlockReplacement[] {
+		const lines = markdown.split('\n');
+		const replacements: MermaidBlockReplacement[] = [];
+		let sourceCallout: string | null = null;
+
+		for (let i = 0; i < lines.length; i++) {
+			// Skip the source kept by an earlier run
+			if (sourceCallout !== null) {
+				if (lines[i].startsWith(sourceCallout)) {
+					continue;
+				}
+				sourceCallout = null;
+			}
+			const calloutMatch = lines[i].match(/^([ \t]*(?:>[ \t]?)*)> \[!info\]- Mermaid source\s*$/);
+			if (calloutMatch) {
+				sourceCallout = `${calloutMatch[1]}>`;
+				continue;
+			}
+
+			const fenceMatch = lines[i].match(/^([ \t]*(?:>[ \t]?)*)(`{3,}|~{3,})[ \t]*(\S*)/);
+			if (!fenceMatch) {
+				continue;
+			}
+			const [, prefix, fence, language] = fenceMatch;
+			const end = this.findFenceEnd(lines, i + 1, prefix, fence);
+			if (language.toLowerCase() !== 'mermaid') {
+				// Other code blocks, including markdown examples holding mermaid fences
+				i = end;
+				continue;
+			}
+
+			const code = lines.slice(i + 1, end).map(line => this.stripPrefix(line, prefix)).join('\n');
+			const block = MermaidEncoder.createBlock(code, settings, replacements.length + 1);
+			const text = [`${prefix}[${MermaidEncoder.formatLinkText(block, settings)}](${block.url})`];
+			if (keepSource) {
+				const quoted = `${prefix}> `;
+				text.push(`${prefix}${SOURCE_CALLOUT}`, `${quoted}${fence}mermaid`);
+				text.push(...code.split('\n').map(line => `${quoted}${line}`.replace(/[ \t]+$/, '')));
+				text.push(`${quoted}${fence}`);
+			}
+
+			replacements.push({ startLine: i, endLine: Math.min(end, lines.length - 1), text: text.join('\n') });
+			i = end;
+		}
+
+		return replacements;
+	}
+
+	/**
+	 * Finds the closing fence of a code block, or the line count if it is never
+	 * closed (the block then runs to the end of the note).
+	 */
+	private static findFenceEnd(lines: string[], start: number, prefix: string, fence: string): number {
+		for (let i = start; i < lines.length; i++) {
+			const rest = this.stripPrefix(lines[i], prefix).trim();
+			if (rest.length >= fence.length && rest === fence[0].repeat(rest.length)) {
+				return i;
+			}
+		}
+		return lines.length;
+	}
+
+	/**
+	 * Removes the indentation and quote markers of a fence from a line of its code.
+	 */
+	private static stripPrefix(line: string, prefix: string): string {
+		if (line.startsWith(prefix)) {
+			return line.slice(prefix.length);
+		}
+		// Lines may drop the trailing space of the quote marker or some indentation
+		return line.startsWith(prefix.trimEnd()) ? line.slice(prefix.trimEnd().length) : line.replace(/^[ \t]+/, '');
+	}
+}
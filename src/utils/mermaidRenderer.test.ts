@@ -0,0 +1,78 @@
+import { MermaidDiagrams, MermaidRenderer } from './mermaidRenderer';
+import { MermaidBlock, ParsedContent } from '../types';
+
+/**
+ * Creates a Mermaid block for the given diagram code.
+ */
+function diagram(code: string): MermaidBlock {
+  return { type: 'mermaid', diagramType: 'Flowchart', code, url: `https://mermaid.live/edit#${code}` };
+}
+
+/**
+ * Creates a MermaidRenderer stub that fails for diagrams containing 'error'.
+ */
+function createRenderer(): MermaidRenderer {
+  return {
+    renderSvg: jest.fn(async (code: string) => {
+      if (code.includes('error')) {
+        throw new Error('Parse error');
+      }
+      return `<svg viewBox="0 0 120 80">${code}</svg>`;
+    }),
+    renderPng: jest.fn(async () => ({ data: new Uint8Array([1]), width: 120, height: 80 })),
+  };
+}
+
+describe('MermaidDiagrams', () => {
+  const content: ParsedContent = {
+    blocks: [
+      diagram('graph TD'),
+      {
+        type: 'list',
+        ordered: false,
+        items: [{ content: [], blocks: [diagram('pie')] }]
+      },
+      { type: 'callout', calloutType: 'note', title: [], content: [diagram('graph TD'), diagram('error')] }
+    ],
+    footnotes: [{ id: '1', index: 1, content: [diagram('sequenceDiagram')] }]
+  };
+
+  describe('collectBlocks', () => {
+    it('should list mermaid blocks at any depth and in footnotes', () => {
+      expect(MermaidDiagrams.collectBlocks(content).map(block => block.code))
+        .toEqual(['graph TD', 'pie', 'graph TD', 'error', 'sequenceDiagram']);
+    });
+  });
+
+  describe('render', () => {
+    it('should render each diagram once and leave out failing ones', async () => {
+      const renderer = createRenderer();
+      const diagrams = await new MermaidDiagrams(renderer).render(content, false);
+
+      expect([...diagrams.keys()]).toEqual(['graph TD', 'pie', 'sequenceDiagram']);
+      expect(diagrams.get('pie')).toEqual({ svg: '<svg viewBox="0 0 120 80">pie</svg>' });
+      expect(renderer.renderSvg).toHaveBeenCalledTimes(4);
+      expect(renderer.renderPng).not.toHaveBeenCalled();
+    });
+
+    it('should convert diagrams to PNG when asked', async () => {
+      const renderer = createRenderer();
+      const diagrams = await new MermaidDiagrams(renderer).render({ blocks: [diagram('graph TD')] }, true);
+
+      expect(diagrams.get('graph TD')?.png).toEqual({ data: new Uint8Array([1]), width: 120, height: 80 });
+      expect(renderer.renderPng).toHaveBeenCalledWith('<svg viewBox="0 0 120 80">graph TD</svg>');
+    });
+
+    it('should render nothing without a renderer', async () => {
+      expect((await new MermaidDiagrams().render(content, true)).size).toBe(0);
+    });
+  });
+
+  describe('getSvgSize', () => {
+    it('should read the size from the viewBox, or from width and height', () => {
+      expect(MermaidDiagrams.getSvgSize('<svg width="100%" viewBox="-8 -8 316.5 200">')).toEqual({ width: 316.5, height: 200 });
+      expect(MermaidDiagrams.getSvgSize('<svg width="40px" height="30">')).toEqual({ width: 40, height: 30 });
+      expect(MermaidDiagrams.getSvgSize('<svg width="100%">')).toBeNull();
+    });
+  });
+});
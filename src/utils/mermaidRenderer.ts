@@ -0,0 +1,141 @@
+import { ContentBlock, MermaidBlock, ParsedContent } from '../types';
+
+/**
+ * Renders Mermaid diagrams, supplied by the plugin (Obsidian's bundled
+ * Mermaid) so exporters work without it (e.g., in tests).
+ */
+export interface MermaidRenderer {
+	/**
+	 * Renders diagram code to SVG.
+	 *
+	 * @param code - The Mermaid diagram code
+	 * @returns The SVG markup
+	 */
+	renderSvg(code: string): Promise<string>;
+
+	/**
+	 * Converts a rendered diagram to a PNG image.
+	 *
+	 * @param svg - SVG markup returned by renderSvg
+	 * @returns The PNG file with the size to show it at
+	 */
+	renderPng(svg: string): Promise<DiagramImage>;
+}
+
+/**
+ * PNG rendering of a diagram.
+ */
+export interface DiagramImage {
+	data: Uint8Array;
+	/** Width to show the image at, in pixels */
+	width: number;
+	/** Height to show the image at, in pixels */
+	height: number;
+}
+
+/**
+ * A diagram rendered for embedding: SVG for HTML, PNG for DOCX.
+ */
+export interface RenderedDiagram {
+	svg: string;
+	png?: DiagramImage;
+}
+
+/**
+ * MermaidDiagrams renders the Mermaid blocks of a note before export, so
+ * exporters can embed them as images instead of Mermaid Live links.
+ * Diagrams that fail to render are left out and exported as links.
+ */
+export class MermaidDiagrams {
+	private renderer: MermaidRenderer | undefined;
+
+	constructor(renderer?: MermaidRenderer) {
+		this.renderer = renderer;
+	}
+
+	/**
+	 * Renders every Mermaid diagram of the parsed content.
+	 *
+	 * @param content - The parsed note
+	 * @param png - Whether to convert the diagrams to PNG as well (for DOCX)
+	 * @returns The rendered diagrams by diagram code
+	 */
+	async render(content: ParsedContent, png: boolean): Promise<Map<string, RenderedDiagram>> {
+		const diagrams = new Map<string, RenderedDiagram>();
+		if (!this.renderer) {
+			return diagrams;
+		}
+
+		for (const block of MermaidDiagrams.collectBlocks(content)) {
+			if (diagrams.has(block.code)) {
+				continue;
+			}
+			try {
+				const svg = await this.renderer.renderSvg(block.code);
+				diagrams.set(block.code, png ? { svg, png: await this.renderer.renderPng(svg) } : { svg });
+			} catch {
+				// Left out: the exporters fall back to the Mermaid Live link
+			}
+		}
+
+		return diagrams;
+	}
+
+	/**
+	 * Lists the Mermaid blocks of the parsed content, including nested ones.
+	 *
+	 * @param content - The parsed note
+	 * @returns Mermaid blocks in document order
+	 */
+	static collectBlocks(content: ParsedContent): MermaidBlock[] {
+		const blocks: MermaidBlock[] = [];
+		this.collectFromBlocks(content.blocks, blocks);
+		for (const footnote of content.footnotes || []) {
+			this.collectFromBlocks(footnote.content, blocks);
+		}
+		return blocks;
+	}
+
+	/**
+	 * Reads the size of an SVG from its viewBox, or its width and height.
+	 *
+	 * @param svg - SVG markup
+	 * @returns The size in pixels, or null if the SVG does not state it
+	 */
+	static getSvgSize(svg: string): { width: number; height: number } | null {
+		const root = svg.match(/<svg\b[^>]*>/);
+		if (!root) {
+			return null;
+		}
+		const viewBox = root[0].match(/\bviewBox="\s*[-\d.e]+[\s,]+[-\d.e]+[\s,]+([\d.e]+)[\s,]+([\d.e]+)\s*"/);
+		const width = parseFloat(viewBox ? viewBox[1] : root[0].match(/\swidth="([\d.]+)(?:px)?"/)?.[1] || '');
+		const height = parseFloat(viewBox ? viewBox[2] : root[0].match(/\sheight="([\d.]+)(?:px)?"/)?.[1] || '');
+		return width > 0 && height > 0 ? { width, height } : null;
+	}
+
+	/**
+	 * Collects Mermaid blocks from blocks, including nested blocks.
+	 */
+	private static collectFromBlocks(blocks: ContentBlock[], found: MermaidBlock[]): void {
+		for (const block of blocks) {
+			switch (block.type) {
+				case 'mermaid':
+					found.push(block);
+					break;
+				case 'list':
+					for (const item of block.items) {
+						this.collectFromBlocks(item.blocks || [], found);
+						this.collectFromBlocks(item.children ? [item.children] : [], found);
+					}
+					break;
+				case 'callout':
+				case 'blockquote':
+					this.collectFromBlocks(block.content, found);
+					break;
+				case 'custom':
+					this.collectFromBlocks(block.fallback || [], found);
+					break;
+			}
+		}
+	}
+}
@@ -0,0 +1,111 @@
+import { NoteSections } from './noteSections';
+
+describe('NoteSections', () => {
+  const note = [
+    '---',
+    'title: Plan',
+    '---',
+    'Intro text',
+    '# Goals',
+    'Goal text',
+    '## Detail',
+    '```md',
+    '# Not a heading',
+    '```',
+    '# Scope',
+    'Scope text',
+  ].join('\n');
+
+  describe('getHeadings', () => {
+    it('should list headings outside frontmatter and code blocks', () => {
+      expect(NoteSections.getHeadings(note)).toEqual([
+        { line: 4, level: 1, text: 'Goals' },
+        { line: 6, level: 2, text: 'Detail' },
+        { line: 10, level: 1, text: 'Scope' },
+      ]);
+    });
+  });
+
+  describe('getSection', () => {
+    it('should take the heading above the line up to the next heading of the same level', () => {
+      const section = NoteSections.getSection(note, 5);
+
+      expect(section?.label).toBe('Goals');
+      expect(section?.content).toBe('---\ntitle: Plan\n---\n# Goals\nGoal text\n## Detail\n```md\n# Not a heading\n```');
+    });
+
+    it('should end a sub-section at the next heading of a higher level', () => {
+      expect(NoteSections.getSection(note, 8)?.content).toBe('---\ntitle: Plan\n---\n## Detail\n```md\n# Not a heading\n```');
+    });
+
+    it('should run the last section to the end of the note', () => {
+      expect(NoteSections.getSection(note, 10)?.content).toBe('---\ntitle: Plan\n---\n# Scope\nScope text');
+    });
+
+    it('should return null above the first heading', () => {
+      expect(NoteSections.getSection(note, 3)).toBeNull();
+      expect(NoteSections.getSection('No headings', 0)).toBeNull();
+    });
+  });
+
+  describe('getOutlineHeading', () => {
+    const headings = NoteSections.getHeadings('## Intro\n# Goals\n### Detail\n## Scope\n# Risks');
+
+    it('should follow the outline nesting of headings', () => {
+      expect(NoteSections.getOutlineHeading(headings, [0])?.text).toBe('Intro');
+      expect(NoteSections.getOutlineHeading(headings, [1, 0])?.text).toBe('Detail');
+      expect(NoteSections.getOutlineHeading(headings, [1, 1])?.text).toBe('Scope');
+      expect(NoteSections.getOutlineHeading(headings, [2])?.text).toBe('Risks');
+    });
+
+    it('should return null for paths outside the outline', () => {
+      expect(NoteSections.getOutlineHeading(headings, [3])).toBeNull();
+      expect(NoteSections.getOutlineHeading(headings, [0, 0])).toBeNull();
+      expect(NoteSections.getOutlineHeading(headings, [])).toBeNull();
+    });
+  });
+
+  describe('getSelection', () => {
+    it('should keep the frontmatter of the note', () => {
+      expect(NoteSections.getSelection(note, 'Goal text\n', 5)).toEqual({
+        label: 'Selection',
+        content: '---\ntitle: Plan\n---\nGoal text',
+        startLine: 5,
+        frontmatterLines: 3
+      });
+      expect(NoteSections.getSelection('Plain note', 'Plain', 0)?.content).toBe('Plain');
+    });
+
+    it('should start after leading blank lines', () => {
+      expect(NoteSections.getSelection(note, '\n  \nGoal text', 3)?.startLine).toBe(5);
+    });
+
+    it('should return null for an empty selection', () => {
+      expect(NoteSections.getSelection(note, '  \n', 0)).toBeNull();
+    });
+  });
+
+  describe('toNoteRange', () => {
+    it('should map lines of the part to lines of the note', () => {
+      const section = NoteSections.getSection(note, 10)!;
+
+      // Part line 4 is the heading, note line 11
+      expect(NoteSections.toNoteRange(section, { startLine: 4, endLine: 5 })).toEqual({ startLine: 11, endLine: 12 });
+      expect(NoteSections.toNoteRange(section, { startLine: 2, endLine: 2 })).toEqual({ startLine: 2, endLine: 2 });
+    });
+
+    it('should keep lines of transcluded notes', () => {
+      const section = NoteSections.getSection(note, 10)!;
+      const range = { startLine: 4, endLine: 5, sourcePath: 'Part.md' };
+
+      expect(NoteSections.toNoteRange(section, range)).toEqual(range);
+    });
+  });
+
+  describe('getFilename', () => {
+    it('should append the label without unsafe characters', () => {
+      expect(NoteSections.getFilename('Plan', { label: 'Goals: Q1/Q2?', content: '', startLine: 0, frontmatterLines: 0 })).toBe('Plan - Goals Q1 Q2');
+      expect(NoteSections.getFilename('Plan', { label: '#', content: '', startLine: 0, frontmatterLines: 0 })).toBe('Plan');
+    });
+  });
+});
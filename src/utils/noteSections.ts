@@ -0,0 +1,194 @@
+import { ExportScope, SourceRange } from '../types';
+
+/**
+ * A heading line of a note.
+ */
+export interface NoteHeading {
+	/** 0-based line number */
+	line: number;
+	/** Heading level (1-6) */
+	level: number;
+	/** Heading text without the # markers */
+	text: string;
+}
+
+/**
+ * Characters not allowed in exported file names.
+ */
+const FILENAME_UNSAFE_REGEX = /[\\/:*?"<>|#^[\]]+/g;
+
+/**
+ * NoteSections cuts a part out of a note for partial exports: the editor
+ * selection or the section under a heading. The note's frontmatter is kept
+ * so the part exports with the note's title, author and options.
+ */
+export class NoteSections {
+	/**
+	 * Lists the headings of a note, skipping frontmatter and fenced code blocks.
+	 *
+	 * @param content - Markdown content of the note
+	 * @returns The headings in document order
+	 */
+	static getHeadings(content: string): NoteHeading[] {
+		const lines = content.split('\n');
+		const headings: NoteHeading[] = [];
+		let fence: string | null = null;
+
+		for (let i = this.getBodyStart(lines); i < lines.length; i++) {
+			const fenceMatch = lines[i].match(/^\s*(`{3,}|~{3,})/);
+			if (fenceMatch) {
+				if (fence === null) {
+					fence = fenceMatch[1];
+				} else if (fenceMatch[1].startsWith(fence)) {
+					fence = null;
+				}
+				continue;
+			}
+			if (fence !== null) {
+				continue;
+			}
+
+			const headingMatch = lines[i].match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+			if (headingMatch) {
+				headings.push({ line: i, level: headingMatch[1].length, text: headingMatch[2] });
+			}
+		}
+
+		return headings;
+	}
+
+	/**
+	 * Extracts the section a line belongs to: the nearest heading at or above
+	 * the line and everything below it up to the next heading of the same or
+	 * higher level.
+	 *
+	 * @param content - Markdown content of the note
+	 * @param line - 0-based line number (e.g., the cursor or a heading line)
+	 * @returns The section, or null if the line is above the first heading
+	 */
+	static getSection(content: string, line: number): ExportScope | null {
+		const headings = this.getHeadings(content);
+		let index = -1;
+		for (let i = 0; i < headings.length && headings[i].line <= line; i++) {
+			index = i;
+		}
+		if (index < 0) {
+			return null;
+		}
+
+		const heading = headings[index];
+		const next = headings.slice(index + 1).find(candidate => candidate.level <= heading.level);
+		const lines = content.split('\n').slice(heading.line, next ? next.line : undefined);
+
+		return this.createScope(content, heading.text, lines.join('\n').trim(), heading.line);
+	}
+
+	/**
+	 * Finds a heading by its place in the outline tree, where each heading
+	 * nests under the nearest heading above it with a lower level.
+	 *
+	 * @param headings - The headings of the note, as returned by getHeadings
+	 * @param path - 0-based index among its siblings at each depth, from the top level down
+	 * @returns The heading, or null if the path leads nowhere
+	 */
+	static getOutlineHeading(headings: NoteHeading[], path: number[]): NoteHeading | null {
+		interface OutlineNode {
+			heading: NoteHeading | null;
+			children: OutlineNode[];
+		}
+		const root: OutlineNode = { heading: null, children: [] };
+		const stack = [root];
+
+		for (const heading of headings) {
+			while (stack.length > 1 && stack[stack.length - 1].heading!.level >= heading.level) {
+				stack.pop();
+			}
+			const node: OutlineNode = { heading, children: [] };
+			stack[stack.length - 1].children.push(node);
+			stack.push(node);
+		}
+
+		let node: OutlineNode | undefined = root;
+		for (const index of path) {
+			node = node.children[index];
+			if (!node) {
+				return null;
+			}
+		}
+		return node.heading;
+	}
+
+	/**
+	 * Wraps selected markdown as an export scope.
+	 *
+	 * @param content - Markdown content of the note
+	 * @param selection - The selected markdown
+	 * @param line - 0-based line the selection starts at
+	 * @returns The selection, or null if nothing is selected
+	 */
+	static getSelection(content: string, selection: string, line: number): ExportScope | null {
+		if (selection.trim().length === 0) {
+			return null;
+		}
+
+		// Leading blank lines are dropped, so the part starts further down
+		const blankLines = (/^(?:[ \t]*\n)*/.exec(selection)?.[0].match(/\n/g) || []).length;
+		return this.createScope(content, 'Selection', selection.trim(), line + blankLines);
+	}
+
+	/**
+	 * Maps lines of an exported part back to lines of the note.
+	 *
+	 * Lines of transcluded notes are returned unchanged.
+	 *
+	 * @param scope - The exported part
+	 * @param range - Lines within scope.content (1-based)
+	 * @returns The same lines within the note (1-based)
+	 */
+	static toNoteRange(scope: ExportScope, range: SourceRange): SourceRange {
+		if (range.sourcePath) {
+			return range;
+		}
+		const toNoteLine = (line: number) => line <= scope.frontmatterLines
+			? line
+			: line - scope.frontmatterLines + scope.startLine;
+		return { startLine: toNoteLine(range.startLine), endLine: toNoteLine(range.endLine) };
+	}
+
+	/**
+	 * Builds the export file name of a scope.
+	 *
+	 * @param basename - File name of the note without extension
+	 * @param scope - The exported part of the note
+	 * @returns A file name such as 'Note - Goals'
+	 */
+	static getFilename(basename: string, scope: ExportScope): string {
+		const label = scope.label.replace(FILENAME_UNSAFE_REGEX, ' ').replace(/\s+/g, ' ').trim();
+		return label ? `${basename} - ${label}` : basename;
+	}
+
+	/**
+	 * Builds the scope of a part, prefixed with the note's frontmatter.
+	 */
+	private static createScope(content: string, label: string, part: string, startLine: number): ExportScope {
+		const lines = content.split('\n');
+		const bodyStart = this.getBodyStart(lines);
+		return {
+			label,
+			content: bodyStart > 0 ? `${lines.slice(0, bodyStart).join('\n')}\n${part}` : part,
+			startLine,
+			frontmatterLines: bodyStart
+		};
+	}
+
+	/**
+	 * Returns the first line after the frontmatter (0 if there is none).
+	 */
+	private static getBodyStart(lines: string[]): number {
+		if (lines[0] !== '---') {
+			return 0;
+		}
+		const end = lines.indexOf('---', 1);
+		return end > 0 ? end + 1 : 0;
+	}
+}